@@ -19,7 +19,6 @@ function generateUUID(): string {
 interface Room {
   id: string;
   room_code: string;
-  host_id: string;
   status: string;
 }
 
@@ -57,6 +56,7 @@ async function testAPI() {
 
     const createData = await createResponse.json();
     const room: Room = createData.room;
+    const hostToken: string = createData.hostToken;
 
     roomId = room.id;
     roomCode = room.room_code;
@@ -74,7 +74,7 @@ async function testAPI() {
 
     const getRoomData = await getRoomResponse.json();
     console.log(`   ✅ Retrieved room: ${getRoomData.room.room_code}`);
-    console.log(`   Host ID: ${getRoomData.room.host_id}\n`);
+    console.log(`   Host ID hidden: ${getRoomData.room.host_id === undefined}\n`);
 
     // Test 3: Join room and get ticket
     console.log(`3️⃣ POST /api/rooms/${roomId}/join - Join room`);
@@ -107,11 +107,11 @@ async function testAPI() {
       `${BASE_URL}/api/rooms/${roomId}/numbers`,
       {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          number: 42,
-          hostId: room.host_id
-        })
+        headers: {
+          'Content-Type': 'application/json',
+          'x-host-token': hostToken
+        },
+        body: JSON.stringify({ number: 42 })
       }
     );
 
@@ -148,11 +148,11 @@ async function testAPI() {
     for (const num of numbersToCall) {
       const response = await fetch(`${BASE_URL}/api/rooms/${roomId}/numbers`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          number: num,
-          hostId: room.host_id
-        })
+        headers: {
+          'Content-Type': 'application/json',
+          'x-host-token': hostToken
+        },
+        body: JSON.stringify({ number: num })
       });
 
       if (response.ok) {
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getRoomById,
+  setAutoCall,
+  toPublicRoom
+} from '@/services/database.service';
+import { requireHost } from '@/lib/host-auth';
+import {
+  AUTO_CALL_MAX_INTERVAL,
+  AUTO_CALL_MIN_INTERVAL,
+  isValidAutoCallInterval
+} from '@/lib/loto/auto-call';
+import { isLadderComplete } from '@/lib/loto/prize-ladder';
+import type { AutoCallStatus } from '@/types/loto';
+
+const AUTO_CALL_STATUSES: AutoCallStatus[] = ['off', 'running', 'paused'];
+
+/**
+ * PATCH /api/rooms/[id]/auto-call
+ * Start, pause, resume or stop the automatic caller (host only)
+ *
+ * Headers: { x-host-token: string }
+ * Body: { status: 'running' | 'paused' | 'off', interval?: number }
+ * Response: { room: PublicRoom }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: roomId } = await params;
+    const body = await request.json();
+    const { status, interval } = body;
+
+    if (!roomId) {
+      return NextResponse.json(
+        { error: 'Room ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!AUTO_CALL_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: "status must be 'running', 'paused' or 'off'" },
+        { status: 400 }
+      );
+    }
+
+    if (interval !== undefined && !isValidAutoCallInterval(interval)) {
+      return NextResponse.json(
+        {
+          error: `interval must be a whole number of seconds between ${AUTO_CALL_MIN_INTERVAL} and ${AUTO_CALL_MAX_INTERVAL}`
+        },
+        { status: 400 }
+      );
+    }
+
+    const room = await getRoomById(roomId);
+
+    if (!room) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 });
+    }
+
+    const denied = await requireHost(
+      request,
+      room,
+      'Only the host can control the automatic caller'
+    );
+    if (denied) return denied;
+
+    if (
+      status === 'running' &&
+      (room.status === 'completed' || isLadderComplete(room))
+    ) {
+      return NextResponse.json(
+        { error: 'Game has already ended' },
+        { status: 400 }
+      );
+    }
+
+    const updatedRoom = await setAutoCall(room, status, interval);
+
+    return NextResponse.json({ room: toPublicRoom(updatedRoom) });
+  } catch (error) {
+    console.error('PATCH /api/rooms/[id]/auto-call error:', error);
+
+    const message =
+      error instanceof Error ? error.message : 'Internal server error';
+
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
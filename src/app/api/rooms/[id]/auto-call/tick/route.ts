@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runAutoCallTick } from '@/services/database.service';
+
+/**
+ * POST /api/rooms/[id]/auto-call/tick
+ * Draw a number if the automatic caller is due
+ *
+ * The events stream ticks on the server by itself; clients that fell back to
+ * polling call this instead. Calling it early or from several clients at
+ * once is harmless: only one tick per slot draws.
+ *
+ * Response: { autoCall: AutoCallState }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: roomId } = await params;
+
+    if (!roomId) {
+      return NextResponse.json(
+        { error: 'Room ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const autoCall = await runAutoCallTick(roomId);
+
+    return NextResponse.json({ autoCall });
+  } catch (error) {
+    console.error('POST /api/rooms/[id]/auto-call/tick error:', error);
+
+    const message =
+      error instanceof Error ? error.message : 'Internal server error';
+
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getCalledNumbers,
+  getClaimById,
+  getRoomById,
+  getRoomClaims,
+  resolveWinClaim
+} from '@/services/database.service';
+import { requireHost } from '@/lib/host-auth';
+import {
+  getGameStateFromRoom,
+  validateGameEvent
+} from '@/lib/loto/game-engine';
+import { RoomRuleError } from '@/lib/errors';
+
+/**
+ * PATCH /api/rooms/[id]/claims/[claimId]
+ * Accept or reject a pending win claim (host only)
+ *
+ * The verdict must pass the rules of the game: claims can't be resolved
+ * twice or after the game has ended.
+ *
+ * Headers: { x-host-token: string }
+ * Body: { status: 'accepted' | 'rejected' }
+ * Response: { claim: WinClaim }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; claimId: string }> }
+) {
+  try {
+    const { id: roomId, claimId } = await params;
+    const body = await request.json();
+    const { status } = body;
+
+    if (!roomId || !claimId) {
+      return NextResponse.json(
+        { error: 'Room ID and claim ID are required' },
+        { status: 400 }
+      );
+    }
+
+    if (status !== 'accepted' && status !== 'rejected') {
+      return NextResponse.json(
+        { error: "status must be 'accepted' or 'rejected'" },
+        { status: 400 }
+      );
+    }
+
+    const room = await getRoomById(roomId);
+
+    if (!room) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 });
+    }
+
+    const denied = await requireHost(
+      request,
+      room,
+      'Only the host can resolve claims'
+    );
+    if (denied) return denied;
+
+    const existing = await getClaimById(claimId);
+
+    if (!existing || existing.room_id !== roomId) {
+      return NextResponse.json({ error: 'Claim not found' }, { status: 404 });
+    }
+
+    const [calledNumbers, claims] = await Promise.all([
+      getCalledNumbers(roomId),
+      getRoomClaims(roomId)
+    ]);
+
+    const violation = validateGameEvent(
+      getGameStateFromRoom(room, calledNumbers, { claims }),
+      {
+        type: 'ClaimVerified',
+        claimId,
+        status,
+        at: new Date().toISOString()
+      }
+    );
+
+    if (violation) {
+      return NextResponse.json({ error: violation }, { status: 409 });
+    }
+
+    const claim = await resolveWinClaim(room, claimId, status);
+
+    return NextResponse.json({ claim });
+  } catch (error) {
+    if (error instanceof RoomRuleError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('PATCH /api/rooms/[id]/claims/[claimId] error:', error);
+
+    const message =
+      error instanceof Error ? error.message : 'Internal server error';
+
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
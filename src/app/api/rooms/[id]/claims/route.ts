@@ -0,0 +1,192 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getCalledNumbers,
+  getRoomById,
+  getRoomClaims,
+  getTicketById,
+  submitWinClaim
+} from '@/services/database.service';
+import {
+  getGameStateFromRoom,
+  validateGameEvent
+} from '@/lib/loto/game-engine';
+import { verifyTicketSeed } from '@/features/ticket/utils/loto-generator';
+import type { ClaimStatus } from '@/types/loto';
+
+const CLAIM_STATUSES: ClaimStatus[] = ['pending', 'accepted', 'rejected'];
+
+/**
+ * POST /api/rooms/[id]/claims
+ * Claim a win ("Kinh!") for a ticket, verified against the called numbers
+ *
+ * Body: { ticketId: string, playerId: string }
+ * Response: { claim: WinClaim, is_new_claim: boolean }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: roomId } = await params;
+    const body = await request.json();
+    const { ticketId, playerId } = body;
+
+    if (!roomId) {
+      return NextResponse.json(
+        { error: 'Room ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!ticketId) {
+      return NextResponse.json(
+        { error: 'ticketId is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!playerId) {
+      return NextResponse.json(
+        { error: 'playerId is required' },
+        { status: 400 }
+      );
+    }
+
+    const room = await getRoomById(roomId);
+
+    if (!room) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 });
+    }
+
+    const ticket = await getTicketById(ticketId);
+
+    if (!ticket || ticket.room_id !== roomId) {
+      return NextResponse.json({ error: 'Ticket not found' }, { status: 404 });
+    }
+
+    if (ticket.player_id !== playerId) {
+      return NextResponse.json(
+        { error: 'You can only claim your own ticket' },
+        { status: 403 }
+      );
+    }
+
+    if (ticket.invalidated_at) {
+      return NextResponse.json(
+        { error: 'This ticket was removed from the game' },
+        { status: 403 }
+      );
+    }
+
+    // The grid being claimed must be the one its seed deals
+    if (
+      ticket.seed &&
+      !verifyTicketSeed(ticket.ticket_data, ticket.seed, ticket.strip_position)
+    ) {
+      return NextResponse.json(
+        { error: 'This ticket does not match its seed' },
+        { status: 409 }
+      );
+    }
+
+    const [calledNumbers, claims] = await Promise.all([
+      getCalledNumbers(roomId),
+      getRoomClaims(roomId)
+    ]);
+
+    // A repeated claim for the same prize gets the existing claim back from
+    // submitWinClaim; anything else must pass the rules of the game
+    const isRepeat = claims.some(
+      (claim) =>
+        claim.ticket_id === ticket.id &&
+        claim.stage_index === room.current_stage &&
+        claim.status !== 'rejected'
+    );
+
+    if (!isRepeat) {
+      const violation = validateGameEvent(
+        getGameStateFromRoom(room, calledNumbers, {
+          tickets: [ticket],
+          claims
+        }),
+        {
+          type: 'ClaimMade',
+          claimId: crypto.randomUUID(),
+          ticketId: ticket.id,
+          at: new Date().toISOString()
+        }
+      );
+
+      if (violation) {
+        return NextResponse.json({ error: violation }, { status: 400 });
+      }
+    }
+
+    const result = await submitWinClaim(room, ticket);
+
+    return NextResponse.json(result, {
+      status: result.is_new_claim ? 201 : 200
+    });
+  } catch (error) {
+    console.error('POST /api/rooms/[id]/claims error:', error);
+
+    const message =
+      error instanceof Error ? error.message : 'Internal server error';
+
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+/**
+ * GET /api/rooms/[id]/claims
+ * Get win claims for a room, each with its ticket
+ *
+ * Query: ?status=pending|accepted|rejected (optional)
+ * Response: { claims: WinClaimWithTicket[], count: number }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: roomId } = await params;
+    const status = request.nextUrl.searchParams.get('status');
+
+    if (!roomId) {
+      return NextResponse.json(
+        { error: 'Room ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (status && !CLAIM_STATUSES.includes(status as ClaimStatus)) {
+      return NextResponse.json(
+        { error: `Invalid status. Must be one of: ${CLAIM_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const room = await getRoomById(roomId);
+
+    if (!room) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 });
+    }
+
+    const claims = await getRoomClaims(
+      roomId,
+      (status as ClaimStatus | null) ?? undefined
+    );
+
+    return NextResponse.json({
+      claims,
+      count: claims.length
+    });
+  } catch (error) {
+    console.error('GET /api/rooms/[id]/claims error:', error);
+
+    const message =
+      error instanceof Error ? error.message : 'Internal server error';
+
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,191 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '@/utils/supabase/client';
+import {
+  getLatestRoomEventId,
+  getRoomById,
+  getRoomEventsSince,
+  runAutoCallTick
+} from '@/services/database.service';
+import { getAutoCallDelay, getAutoCallState } from '@/lib/loto/auto-call';
+import type { AutoCallState, RoomEvent } from '@/types/loto';
+
+export const dynamic = 'force-dynamic';
+
+// Comment line sent periodically so proxies don't close an idle stream
+const HEARTBEAT_INTERVAL = 15000;
+
+// Re-read the event log periodically in case a realtime message was missed
+const CATCH_UP_INTERVAL = 30000;
+
+// Spread concurrent streams a little so they don't all tick at once
+const AUTO_CALL_JITTER = 250;
+
+/**
+ * GET /api/rooms/[id]/events
+ * Stream room events over Server-Sent Events
+ *
+ * Resumes after the `Last-Event-ID` header (sent automatically by
+ * EventSource on reconnect) or the `?lastEventId=` query parameter. A new
+ * stream starts at the room's latest event instead of replaying the log:
+ * clients load the current state themselves. The first message, a `ready`
+ * event, carries the id the stream starts after.
+ *
+ * While a stream is open it also drives the room's automatic caller, so
+ * numbers keep coming as long as anyone is watching.
+ *
+ * Response: text/event-stream of RoomEvent, one `data:` line per event
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: roomId } = await params;
+
+    if (!roomId) {
+      return NextResponse.json(
+        { error: 'Room ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const room = await getRoomById(roomId);
+
+    if (!room) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 });
+    }
+
+    const resumeFrom =
+      request.headers.get('last-event-id') ??
+      request.nextUrl.searchParams.get('lastEventId');
+    let lastEventId =
+      resumeFrom !== null
+        ? Number(resumeFrom) || 0
+        : await getLatestRoomEventId(roomId);
+
+    const encoder = new TextEncoder();
+    let cleanup = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        let closed = false;
+
+        const write = (chunk: string) => {
+          if (closed) return;
+          try {
+            controller.enqueue(encoder.encode(chunk));
+          } catch {
+            cleanup();
+          }
+        };
+
+        // Automatic caller: sleep until the next call is due, then tick
+        let autoCallTimer: ReturnType<typeof setTimeout> | undefined;
+        const scheduleAutoCall = (state: AutoCallState) => {
+          clearTimeout(autoCallTimer);
+          const delay = getAutoCallDelay(state);
+          if (closed || delay === null) return;
+
+          autoCallTimer = setTimeout(async () => {
+            try {
+              scheduleAutoCall(await runAutoCallTick(roomId));
+            } catch (err) {
+              console.error('SSE auto call error:', err);
+            }
+          }, delay + Math.random() * AUTO_CALL_JITTER);
+        };
+
+        const send = (event: RoomEvent) => {
+          if (event.id <= lastEventId) return;
+          lastEventId = event.id;
+          write(`id: ${event.id}\ndata: ${JSON.stringify(event)}\n\n`);
+
+          if (event.type === 'auto_call_changed') {
+            scheduleAutoCall(event.payload);
+          }
+        };
+
+        // Reads are chained so events always go out in id order, even when
+        // several realtime notifications arrive at once
+        let queue = Promise.resolve();
+        const catchUp = () => {
+          queue = queue.then(async () => {
+            if (closed) return;
+            try {
+              const events = await getRoomEventsSince(roomId, lastEventId);
+              events.forEach(send);
+            } catch (err) {
+              console.error('SSE catch-up error:', err);
+            }
+          });
+        };
+
+        const channel = supabase
+          .channel(`room-events:${roomId}:${crypto.randomUUID()}`)
+          .on(
+            'postgres_changes',
+            {
+              event: 'INSERT',
+              schema: 'public',
+              table: 'room_events',
+              filter: `room_id=eq.${roomId}`
+            },
+            // The insert is only a wake-up; catchUp sends it in order
+            () => catchUp()
+          )
+          .subscribe((status) => {
+            // Fill the gap between the initial read and the subscription
+            if (status === 'SUBSCRIBED') catchUp();
+          });
+
+        const heartbeat = setInterval(
+          () => write(': ping\n\n'),
+          HEARTBEAT_INTERVAL
+        );
+        const catchUpTimer = setInterval(catchUp, CATCH_UP_INTERVAL);
+
+        cleanup = () => {
+          if (closed) return;
+          closed = true;
+          clearInterval(heartbeat);
+          clearInterval(catchUpTimer);
+          clearTimeout(autoCallTimer);
+          supabase.removeChannel(channel);
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the client
+          }
+        };
+
+        request.signal.addEventListener('abort', cleanup);
+
+        // Tell EventSource how long to wait before reconnecting, and where
+        // to resume from even if no event arrives before it drops
+        write('retry: 3000\n\n');
+        write(`id: ${lastEventId}\nevent: ready\ndata: ${lastEventId}\n\n`);
+        scheduleAutoCall(getAutoCallState(room));
+        catchUp();
+      },
+      cancel() {
+        cleanup();
+      }
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no'
+      }
+    });
+  } catch (error) {
+    console.error('GET /api/rooms/[id]/events error:', error);
+
+    const message =
+      error instanceof Error ? error.message : 'Internal server error';
+
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
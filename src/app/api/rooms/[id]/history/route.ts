@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRoomById, getRoomHistory } from '@/services/database.service';
+
+/**
+ * GET /api/rooms/[id]/history
+ * Get the history of a finished game: calls, players, claims and winners
+ *
+ * Only available once the game has ended, so it gives nothing away while
+ * the game is played.
+ *
+ * Response: { history: RoomHistory }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: roomId } = await params;
+
+    if (!roomId) {
+      return NextResponse.json(
+        { error: 'Room ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const room = await getRoomById(roomId);
+
+    if (!room) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 });
+    }
+
+    if (room.status !== 'completed') {
+      return NextResponse.json(
+        { error: 'The game has not ended yet' },
+        { status: 400 }
+      );
+    }
+
+    const history = await getRoomHistory(room);
+
+    return NextResponse.json({ history });
+  } catch (error) {
+    console.error('GET /api/rooms/[id]/history error:', error);
+
+    const message =
+      error instanceof Error ? error.message : 'Internal server error';
+
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
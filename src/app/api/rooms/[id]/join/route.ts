@@ -1,12 +1,37 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { joinRoomAndGetTicket } from '@/services/database.service';
+import {
+  getRoomById,
+  joinRoomAndGetTicket
+} from '@/services/database.service';
+import { requireRoomPin } from '@/lib/room-access';
+import {
+  normalizePlayerName,
+  validatePlayerName
+} from '@/lib/loto/player-name';
+import { RoomRuleError } from '@/lib/errors';
 
 /**
  * POST /api/rooms/[id]/join
  * Join a room and receive a ticket
  *
- * Body: { playerId: string, playerName?: string }
- * Response: { room: Room, ticket: LotoTicket, is_new_ticket: boolean }
+ * New players' names are checked for length, language and uniqueness in
+ * the room; returning players keep the name they joined with. New players
+ * of a private room must send its PIN; wrong PINs are limited per guest.
+ * Once the game is active in a room closed to late joins, new players get
+ * no ticket and `is_spectator: true`. Returning players also get the marks
+ * they saved on their tickets. A player's first join also returns their
+ * secret `player_token`, needed to rename themselves.
+ *
+ * Body: { playerId: string, playerName?: string, pin?: string }
+ * Response: {
+ *   room: PublicRoom,
+ *   ticket: LotoTicket | null,
+ *   tickets: LotoTicket[],
+ *   is_new_ticket: boolean,
+ *   is_spectator: boolean,
+ *   marks: TicketMarks[],
+ *   player_token: string | null
+ * }
  */
 export async function POST(
   request: NextRequest,
@@ -15,7 +40,7 @@ export async function POST(
   try {
     const { id: roomId } = await params;
     const body = await request.json();
-    const { playerId, playerName } = body;
+    const { playerId, playerName, pin } = body;
 
     if (!roomId) {
       return NextResponse.json(
@@ -31,11 +56,30 @@ export async function POST(
       );
     }
 
+    if (playerName !== undefined) {
+      const nameError = validatePlayerName(playerName);
+
+      if (nameError) {
+        return NextResponse.json({ error: nameError }, { status: 400 });
+      }
+    }
+
+    const room = await getRoomById(roomId);
+
+    if (!room) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 });
+    }
+
+    const denied = await requireRoomPin(room, playerId, pin);
+    if (denied) return denied;
+
     // Join room and get ticket
     const result = await joinRoomAndGetTicket(
-      roomId,
+      room.id,
       playerId,
-      playerName || `Player ${playerId.substring(0, 8)}`
+      playerName
+        ? normalizePlayerName(playerName)
+        : `Player ${playerId.substring(0, 8)}`
     );
 
     if (!result) {
@@ -47,6 +91,13 @@ export async function POST(
 
     return NextResponse.json(result);
   } catch (error) {
+    if (error instanceof RoomRuleError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
     console.error('POST /api/rooms/[id]/join error:', error);
 
     const message =
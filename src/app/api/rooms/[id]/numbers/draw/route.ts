@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  callNumber,
+  getCalledNumbers,
+  getRoomById,
+  pickNextNumber
+} from '@/services/database.service';
+import { requireHost } from '@/lib/host-auth';
+import {
+  getGameStateFromRoom,
+  validateGameEvent
+} from '@/lib/loto/game-engine';
+
+/**
+ * POST /api/rooms/[id]/numbers/draw
+ * Draw the next number on the server (host only)
+ *
+ * Picks from the uncalled numbers with a secure RNG, or takes the next number
+ * of the seeded draw order in commit-reveal rooms.
+ *
+ * Headers: { x-host-token: string }
+ * Response: { success: true, number: number }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: roomId } = await params;
+
+    if (!roomId) {
+      return NextResponse.json(
+        { error: 'Room ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const room = await getRoomById(roomId);
+
+    if (!room) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 });
+    }
+
+    const denied = await requireHost(
+      request,
+      room,
+      'Only the host can draw numbers'
+    );
+    if (denied) return denied;
+
+    const calledNumbers = await getCalledNumbers(roomId);
+    const number = await pickNextNumber(room, calledNumbers);
+
+    if (number === null) {
+      return NextResponse.json(
+        { error: 'All numbers have been called' },
+        { status: 400 }
+      );
+    }
+
+    // Keep drawing until the final prize stage has a winner
+    const violation = validateGameEvent(
+      getGameStateFromRoom(room, calledNumbers),
+      { type: 'NumberCalled', number, at: new Date().toISOString() }
+    );
+
+    if (violation) {
+      return NextResponse.json({ error: violation }, { status: 400 });
+    }
+
+    await callNumber(room, number);
+
+    return NextResponse.json({ success: true, number });
+  } catch (error) {
+    console.error('POST /api/rooms/[id]/numbers/draw error:', error);
+
+    const message =
+      error instanceof Error ? error.message : 'Internal server error';
+
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
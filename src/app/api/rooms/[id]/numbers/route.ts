@@ -1,16 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabase } from '@/utils/supabase/client';
-import type { Database } from '@/types/supabase';
+import { callNumber, getCalledNumbers } from '@/services/database.service';
+import { requireHost } from '@/lib/host-auth';
+import {
+  getGameStateFromRoom,
+  validateGameEvent
+} from '@/lib/loto/game-engine';
 import type { Room } from '@/types/loto';
 
-type CalledNumberInsert =
-  Database['public']['Tables']['called_numbers']['Insert'];
-
 /**
  * POST /api/rooms/[id]/numbers
  * Call a new number in the room (host only)
  *
- * Body: { number: number, hostId: string }
+ * Commit-reveal rooms only accept server draws (POST .../numbers/draw).
+ *
+ * Headers: { x-host-token: string }
+ * Body: { number: number }
  * Response: { success: true, number: number }
  */
 export async function POST(
@@ -20,7 +25,7 @@ export async function POST(
   try {
     const { id: roomId } = await params;
     const body = await request.json();
-    const { number, hostId } = body;
+    const { number } = body;
 
     // Validation
     if (!roomId) {
@@ -44,13 +49,6 @@ export async function POST(
       );
     }
 
-    if (!hostId) {
-      return NextResponse.json(
-        { error: 'Host ID is required' },
-        { status: 400 }
-      );
-    }
-
     // Verify room exists and user is the host
     const { data: room, error: roomError } = await supabase
       .from('rooms')
@@ -64,62 +62,36 @@ export async function POST(
 
     const roomData = room as unknown as Room;
 
-    if (roomData.host_id !== hostId) {
-      return NextResponse.json(
-        { error: 'Only the host can call numbers' },
-        { status: 403 }
-      );
-    }
+    const denied = await requireHost(
+      request,
+      roomData,
+      'Only the host can call numbers'
+    );
+    if (denied) return denied;
 
-    if (roomData.status === 'completed') {
+    if (roomData.draw_commitment) {
       return NextResponse.json(
-        { error: 'Game has already ended' },
+        { error: 'Numbers in this room are drawn by the server' },
         { status: 400 }
       );
     }
 
-    // Check if number was already called
-    const { data: existing } = await supabase
-      .from('called_numbers')
-      .select('*')
-      .eq('room_id', roomId)
-      .eq('number', number)
-      .single();
-
-    if (existing) {
-      return NextResponse.json(
-        { error: 'This number has already been called' },
-        { status: 400 }
-      );
-    }
+    // Keep calling until the final prize stage has a winner
+    const state = getGameStateFromRoom(
+      roomData,
+      await getCalledNumbers(roomId)
+    );
+    const violation = validateGameEvent(state, {
+      type: 'NumberCalled',
+      number,
+      at: new Date().toISOString()
+    });
 
-    // Start the game if it's in waiting status
-    if (roomData.status === 'waiting') {
-      await supabase
-        .from('rooms')
-        // @ts-expect-error - Supabase type inference issue without live connection
-        .update({ status: 'active', started_at: new Date().toISOString() })
-        .eq('id', roomId);
+    if (violation) {
+      return NextResponse.json({ error: violation }, { status: 400 });
     }
 
-    // Insert the called number
-    const { error: insertError } = await supabase
-      .from('called_numbers')
-      // @ts-expect-error - Supabase type inference issue without live connection
-      .insert({
-        room_id: roomId,
-        number,
-        called_at: new Date().toISOString(),
-        called_by: hostId
-      } as CalledNumberInsert);
-
-    if (insertError) {
-      console.error('Insert called_number error:', insertError);
-      return NextResponse.json(
-        { error: 'Failed to record called number' },
-        { status: 500 }
-      );
-    }
+    await callNumber(roomData, number);
 
     return NextResponse.json({ success: true, number });
   } catch (error) {
@@ -164,21 +136,7 @@ export async function GET(
     }
 
     // Get all called numbers
-    const { data: calledNumbers, error } = await supabase
-      .from('called_numbers')
-      .select('number, called_at')
-      .eq('room_id', roomId)
-      .order('called_at', { ascending: true });
-
-    if (error) {
-      console.error('Get called_numbers error:', error);
-      return NextResponse.json(
-        { error: 'Failed to fetch called numbers' },
-        { status: 500 }
-      );
-    }
-
-    const numbers = (calledNumbers as Array<{ number: number; called_at: string }>)?.map((cn) => cn.number) || [];
+    const numbers = await getCalledNumbers(roomId);
 
     return NextResponse.json({
       numbers,
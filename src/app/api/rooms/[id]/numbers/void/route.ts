@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getCalledNumbers,
+  getRoomById,
+  voidLastNumber
+} from '@/services/database.service';
+import { requireHost } from '@/lib/host-auth';
+import {
+  getGameStateFromRoom,
+  validateGameEvent
+} from '@/lib/loto/game-engine';
+
+const MAX_REASON_LENGTH = 200;
+
+/**
+ * POST /api/rooms/[id]/numbers/void
+ * Retract the last called number (host only)
+ *
+ * The number is kept in the history as voided and ignored everywhere else.
+ * Commit-reveal rooms cannot void: their numbers are drawn by the server.
+ *
+ * Headers: { x-host-token: string }
+ * Body: { reason?: string }
+ * Response: { voided: CalledNumber }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: roomId } = await params;
+    const body = await request.json().catch(() => ({}));
+    const { reason } = body;
+
+    if (!roomId) {
+      return NextResponse.json(
+        { error: 'Room ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      reason !== undefined &&
+      (typeof reason !== 'string' || reason.length > MAX_REASON_LENGTH)
+    ) {
+      return NextResponse.json(
+        {
+          error: `reason must be a string of at most ${MAX_REASON_LENGTH} characters`
+        },
+        { status: 400 }
+      );
+    }
+
+    const room = await getRoomById(roomId);
+
+    if (!room) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 });
+    }
+
+    const denied = await requireHost(
+      request,
+      room,
+      'Only the host can void numbers'
+    );
+    if (denied) return denied;
+
+    const calledNumbers = await getCalledNumbers(roomId);
+    const violation = validateGameEvent(
+      getGameStateFromRoom(room, calledNumbers),
+      {
+        type: 'NumberVoided',
+        number: calledNumbers[calledNumbers.length - 1],
+        reason: reason?.trim() || null,
+        at: new Date().toISOString()
+      }
+    );
+
+    if (violation) {
+      return NextResponse.json({ error: violation }, { status: 400 });
+    }
+
+    const voided = await voidLastNumber(room, reason?.trim() || null);
+
+    return NextResponse.json({ voided });
+  } catch (error) {
+    console.error('POST /api/rooms/[id]/numbers/void error:', error);
+
+    const message =
+      error instanceof Error ? error.message : 'Internal server error';
+
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRoomById, removePlayer } from '@/services/database.service';
+import { requireHost } from '@/lib/host-auth';
+
+const MAX_REASON_LENGTH = 200;
+
+/**
+ * POST /api/rooms/[id]/players/[playerId]/ban
+ * Remove a player and keep them out of the room (host only)
+ *
+ * Like a kick, and the player ID can no longer join. A player who hasn't
+ * joined yet can be banned too.
+ *
+ * Headers: { x-host-token: string }
+ * Body: { reason?: string }
+ * Response: { tickets: LotoTicket[] } (the invalidated tickets)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; playerId: string }> }
+) {
+  try {
+    const { id: roomId, playerId } = await params;
+    const body = await request.json().catch(() => ({}));
+    const { reason } = body;
+
+    if (!roomId || !playerId) {
+      return NextResponse.json(
+        { error: 'Room ID and player ID are required' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      reason !== undefined &&
+      (typeof reason !== 'string' || reason.length > MAX_REASON_LENGTH)
+    ) {
+      return NextResponse.json(
+        {
+          error: `reason must be a string of at most ${MAX_REASON_LENGTH} characters`
+        },
+        { status: 400 }
+      );
+    }
+
+    const room = await getRoomById(roomId);
+
+    if (!room) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 });
+    }
+
+    const denied = await requireHost(
+      request,
+      room,
+      'Only the host can ban players'
+    );
+    if (denied) return denied;
+
+    const invalidated = await removePlayer(room, playerId, {
+      ban: true,
+      reason: reason?.trim() || null
+    });
+
+    return NextResponse.json({ tickets: invalidated });
+  } catch (error) {
+    console.error('POST /api/rooms/[id]/players/[playerId]/ban error:', error);
+
+    const message =
+      error instanceof Error ? error.message : 'Internal server error';
+
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getPlayerTickets,
+  getRoomById,
+  removePlayer
+} from '@/services/database.service';
+import { requireHost } from '@/lib/host-auth';
+
+const MAX_REASON_LENGTH = 200;
+
+/**
+ * POST /api/rooms/[id]/players/[playerId]/kick
+ * Remove a player from the room (host only)
+ *
+ * The player's tickets are invalidated and their pending claims rejected.
+ * They may join again with a new ticket.
+ *
+ * Headers: { x-host-token: string }
+ * Body: { reason?: string }
+ * Response: { tickets: LotoTicket[] } (the invalidated tickets)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; playerId: string }> }
+) {
+  try {
+    const { id: roomId, playerId } = await params;
+    const body = await request.json().catch(() => ({}));
+    const { reason } = body;
+
+    if (!roomId || !playerId) {
+      return NextResponse.json(
+        { error: 'Room ID and player ID are required' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      reason !== undefined &&
+      (typeof reason !== 'string' || reason.length > MAX_REASON_LENGTH)
+    ) {
+      return NextResponse.json(
+        {
+          error: `reason must be a string of at most ${MAX_REASON_LENGTH} characters`
+        },
+        { status: 400 }
+      );
+    }
+
+    const room = await getRoomById(roomId);
+
+    if (!room) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 });
+    }
+
+    const denied = await requireHost(
+      request,
+      room,
+      'Only the host can remove players'
+    );
+    if (denied) return denied;
+
+    const tickets = await getPlayerTickets(room.id, playerId);
+
+    if (tickets.length === 0) {
+      return NextResponse.json(
+        { error: 'Player not found in this room' },
+        { status: 404 }
+      );
+    }
+
+    const invalidated = await removePlayer(room, playerId, {
+      reason: reason?.trim() || null
+    });
+
+    return NextResponse.json({ tickets: invalidated });
+  } catch (error) {
+    console.error(
+      'POST /api/rooms/[id]/players/[playerId]/kick error:',
+      error
+    );
+
+    const message =
+      error instanceof Error ? error.message : 'Internal server error';
+
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
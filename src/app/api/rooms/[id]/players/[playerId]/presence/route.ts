@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { touchPlayerPresence } from '@/services/database.service';
+
+/**
+ * POST /api/rooms/[id]/players/[playerId]/presence
+ * Heartbeat from an open player page (keeps the player "online")
+ *
+ * Response: { ok: true }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; playerId: string }> }
+) {
+  try {
+    const { id: roomId, playerId } = await params;
+
+    if (!roomId || !playerId) {
+      return NextResponse.json(
+        { error: 'Room ID and player ID are required' },
+        { status: 400 }
+      );
+    }
+
+    await touchPlayerPresence(roomId, playerId);
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error(
+      'POST /api/rooms/[id]/players/[playerId]/presence error:',
+      error
+    );
+
+    const message =
+      error instanceof Error ? error.message : 'Internal server error';
+
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
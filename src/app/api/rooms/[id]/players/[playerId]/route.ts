@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRoomById, renamePlayer } from '@/services/database.service';
+import { RoomRuleError } from '@/lib/errors';
+import { requirePlayer } from '@/lib/player-auth';
+import { validatePlayerName } from '@/lib/loto/player-name';
+
+/**
+ * PATCH /api/rooms/[id]/players/[playerId]
+ * Change a player's display name (before the game starts)
+ *
+ * Only the player may rename themselves: the request must carry the player
+ * token returned by their first join in the `x-player-token` header.
+ *
+ * Body: { name: string }
+ * Response: { tickets: LotoTicket[] }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; playerId: string }> }
+) {
+  try {
+    const { id: roomId, playerId } = await params;
+    const body = await request.json();
+    const { name } = body;
+
+    if (!roomId || !playerId) {
+      return NextResponse.json(
+        { error: 'Room ID and player ID are required' },
+        { status: 400 }
+      );
+    }
+
+    const nameError = validatePlayerName(name);
+
+    if (nameError) {
+      return NextResponse.json({ error: nameError }, { status: 400 });
+    }
+
+    const room = await getRoomById(roomId);
+
+    if (!room) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 });
+    }
+
+    const denied = await requirePlayer(
+      request,
+      room,
+      playerId,
+      'You can only change your own name'
+    );
+    if (denied) return denied;
+
+    const tickets = await renamePlayer(room, playerId, name);
+
+    return NextResponse.json({ tickets });
+  } catch (error) {
+    if (error instanceof RoomRuleError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('PATCH /api/rooms/[id]/players/[playerId] error:', error);
+
+    const message =
+      error instanceof Error ? error.message : 'Internal server error';
+
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
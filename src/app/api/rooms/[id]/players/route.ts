@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRoomById, getRoomPlayers } from '@/services/database.service';
+import { requireHost } from '@/lib/host-auth';
+
+/**
+ * GET /api/rooms/[id]/players
+ * List the players in a room, derived from their tickets (host only)
+ *
+ * The roster holds guest IDs and each player's waiting numbers.
+ *
+ * Headers: { x-host-token: string }
+ * Response: { players: RosterPlayer[], count: number }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: roomId } = await params;
+
+    if (!roomId) {
+      return NextResponse.json(
+        { error: 'Room ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const room = await getRoomById(roomId);
+
+    if (!room) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 });
+    }
+
+    const denied = await requireHost(
+      request,
+      room,
+      'Only the host can view the players'
+    );
+    if (denied) return denied;
+
+    const players = await getRoomPlayers(room);
+
+    return NextResponse.json({
+      players,
+      count: players.length
+    });
+  } catch (error) {
+    console.error('GET /api/rooms/[id]/players error:', error);
+
+    const message =
+      error instanceof Error ? error.message : 'Internal server error';
+
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,11 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getRoomById } from '@/services/database.service';
+import {
+  endGame,
+  getRoomById,
+  toPublicRoom,
+  updateRoomStatus
+} from '@/services/database.service';
+import { requireHost } from '@/lib/host-auth';
+import type { RoomStatus } from '@/types/loto';
+
+/**
+ * Status changes a host may make (completed rooms are locked)
+ */
+const ALLOWED_TRANSITIONS: Record<RoomStatus, RoomStatus[]> = {
+  waiting: ['active', 'completed'],
+  active: ['completed'],
+  completed: []
+};
 
 /**
  * GET /api/rooms/[id]
  * Get room details by room ID
  *
- * Response: { room: Room } or 404
+ * Response: { room: PublicRoom } or 404
  */
 export async function GET(
   request: NextRequest,
@@ -27,7 +43,7 @@ export async function GET(
       return NextResponse.json({ error: 'Room not found' }, { status: 404 });
     }
 
-    return NextResponse.json({ room });
+    return NextResponse.json({ room: toPublicRoom(room) });
   } catch (error) {
     console.error('GET /api/rooms/[id] error:', error);
 
@@ -37,3 +53,78 @@ export async function GET(
     return NextResponse.json({ error: message }, { status: 500 });
   }
 }
+
+/**
+ * PATCH /api/rooms/[id]
+ * Change the room status (host only)
+ *
+ * Moving to 'completed' ends the game: sets ended_at, records the final
+ * winners and locks the room.
+ *
+ * Headers: { x-host-token: string }
+ * Body: { status: 'active' | 'completed' }
+ * Response: { room: PublicRoom }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const { status } = body;
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Room ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (status !== 'active' && status !== 'completed') {
+      return NextResponse.json(
+        { error: "status must be 'active' or 'completed'" },
+        { status: 400 }
+      );
+    }
+
+    const room = await getRoomById(id);
+
+    if (!room) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 });
+    }
+
+    const denied = await requireHost(
+      request,
+      room,
+      'Only the host can change the room status'
+    );
+    if (denied) return denied;
+
+    if (!ALLOWED_TRANSITIONS[room.status].includes(status)) {
+      return NextResponse.json(
+        {
+          error:
+            room.status === 'completed'
+              ? 'Game has already ended'
+              : `Cannot change status from ${room.status} to ${status}`
+        },
+        { status: 400 }
+      );
+    }
+
+    const updatedRoom =
+      status === 'completed'
+        ? await endGame(room)
+        : await updateRoomStatus(id, status);
+
+    return NextResponse.json({ room: toPublicRoom(updatedRoom) });
+  } catch (error) {
+    console.error('PATCH /api/rooms/[id] error:', error);
+
+    const message =
+      error instanceof Error ? error.message : 'Internal server error';
+
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getRoomById,
+  toPublicRoom,
+  updateRoomSettings
+} from '@/services/database.service';
+import { requireHost } from '@/lib/host-auth';
+import { isValidRoomCapacity } from '@/lib/loto/room-capacity';
+
+/**
+ * PATCH /api/rooms/[id]/settings
+ * Change the player limit or close joining for late arrivals (host only)
+ *
+ * Headers: { x-host-token: string }
+ * Body: { maxPlayers?: number | null, allowLateJoin?: boolean }
+ * Response: { room: PublicRoom }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: roomId } = await params;
+    const body = await request.json();
+    const { maxPlayers, allowLateJoin } = body;
+
+    if (!roomId) {
+      return NextResponse.json(
+        { error: 'Room ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (maxPlayers !== undefined && !isValidRoomCapacity(maxPlayers)) {
+      return NextResponse.json(
+        { error: 'maxPlayers must be null or a whole number from 2 to 100' },
+        { status: 400 }
+      );
+    }
+
+    if (allowLateJoin !== undefined && typeof allowLateJoin !== 'boolean') {
+      return NextResponse.json(
+        { error: 'allowLateJoin must be a boolean' },
+        { status: 400 }
+      );
+    }
+
+    const room = await getRoomById(roomId);
+
+    if (!room) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 });
+    }
+
+    const denied = await requireHost(
+      request,
+      room,
+      'Only the host can change room settings'
+    );
+    if (denied) return denied;
+
+    if (room.status === 'completed') {
+      return NextResponse.json(
+        { error: 'Game has already ended' },
+        { status: 400 }
+      );
+    }
+
+    const updatedRoom = await updateRoomSettings(room, {
+      max_players: maxPlayers,
+      allow_late_join: allowLateJoin
+    });
+
+    return NextResponse.json({ room: toPublicRoom(updatedRoom) });
+  } catch (error) {
+    console.error('PATCH /api/rooms/[id]/settings error:', error);
+
+    const message =
+      error instanceof Error ? error.message : 'Internal server error';
+
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  advancePrizeStage,
+  getRoomById,
+  getStageWinners,
+  toPublicRoom
+} from '@/services/database.service';
+import { requireHost } from '@/lib/host-auth';
+import {
+  getGameStateFromRoom,
+  validateGameEvent
+} from '@/lib/loto/game-engine';
+
+/**
+ * POST /api/rooms/[id]/stages/advance
+ * Move on to the next prize stage once the current one has a winner (host only)
+ *
+ * Headers: { x-host-token: string }
+ * Response: { room: PublicRoom }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: roomId } = await params;
+
+    if (!roomId) {
+      return NextResponse.json(
+        { error: 'Room ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const room = await getRoomById(roomId);
+
+    if (!room) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 });
+    }
+
+    const denied = await requireHost(
+      request,
+      room,
+      'Only the host can change the prize stage'
+    );
+    if (denied) return denied;
+
+    // Numbers don't matter here; only the stage and its winners do
+    const winners = await getStageWinners(roomId, room.current_stage);
+    const violation = validateGameEvent(
+      getGameStateFromRoom(room, [], { claims: winners }),
+      { type: 'StageAdvanced', at: new Date().toISOString() }
+    );
+
+    if (violation) {
+      return NextResponse.json({ error: violation }, { status: 400 });
+    }
+
+    const updatedRoom = await advancePrizeStage(room);
+
+    return NextResponse.json({ room: toPublicRoom(updatedRoom) });
+  } catch (error) {
+    console.error('POST /api/rooms/[id]/stages/advance error:', error);
+
+    const message =
+      error instanceof Error ? error.message : 'Internal server error';
+
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
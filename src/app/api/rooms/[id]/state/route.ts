@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getCalledNumbers,
+  getRoomById,
+  getRoomClaims,
+  getRoomEventLog,
+  getRoomTickets
+} from '@/services/database.service';
+import { requireHost } from '@/lib/host-auth';
+import {
+  getGameStateFromRoom,
+  rebuildRoomState
+} from '@/lib/loto/game-engine';
+
+/**
+ * GET /api/rooms/[id]/state
+ * Rebuild the room's game state from its event log (host only)
+ *
+ * Every logged event is replayed through the game engine, so this also
+ * checks that the log follows the rules of the game. Events are published
+ * best-effort: if the log has gaps (the replay breaks a rule or disagrees
+ * with the tables), the state is rebuilt from the tables and `source` is
+ * `tables`. Host only, as the state holds every player's tickets.
+ *
+ * Headers: { x-host-token: string }
+ * Response: {
+ *   state: GameState,
+ *   source: 'event_log' | 'tables',
+ *   event_count: number
+ * }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: roomId } = await params;
+
+    if (!roomId) {
+      return NextResponse.json(
+        { error: 'Room ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const room = await getRoomById(roomId);
+
+    if (!room) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 });
+    }
+
+    const denied = await requireHost(
+      request,
+      room,
+      'Only the host can view the game state'
+    );
+    if (denied) return denied;
+
+    const [events, tickets, calledNumbers, claims] = await Promise.all([
+      getRoomEventLog(roomId),
+      getRoomTickets(roomId, { includeRemoved: true }),
+      getCalledNumbers(roomId),
+      getRoomClaims(roomId)
+    ]);
+
+    const { state, source } = rebuildRoomState(
+      room,
+      events,
+      tickets,
+      getGameStateFromRoom(room, calledNumbers, { tickets, claims })
+    );
+
+    if (source === 'tables') {
+      console.warn(`Room ${roomId} event log has gaps, rebuilt from tables`);
+    }
+
+    return NextResponse.json({ state, source, event_count: events.length });
+  } catch (error) {
+    console.error('GET /api/rooms/[id]/state error:', error);
+
+    const message =
+      error instanceof Error ? error.message : 'Internal server error';
+
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
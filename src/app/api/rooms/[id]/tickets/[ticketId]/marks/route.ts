@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTicketById, saveTicketMarks } from '@/services/database.service';
+
+/**
+ * PUT /api/rooms/[id]/tickets/[ticketId]/marks
+ * Save the numbers a player marked on their ticket
+ *
+ * The player page saves marks locally first and syncs them here; marks
+ * changed before the stored ones are ignored and the stored marks are
+ * returned, so the page can catch up.
+ *
+ * Body: { playerId: string, markedNumbers: number[], updatedAt: string }
+ * Response: { marks: TicketMarks }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; ticketId: string }> }
+) {
+  try {
+    const { id: roomId, ticketId } = await params;
+    const body = await request.json();
+    const { playerId, markedNumbers, updatedAt } = body;
+
+    if (!roomId || !ticketId) {
+      return NextResponse.json(
+        { error: 'Room ID and ticket ID are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!playerId) {
+      return NextResponse.json(
+        { error: 'playerId is required' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      !Array.isArray(markedNumbers) ||
+      !markedNumbers.every((number) => Number.isInteger(number))
+    ) {
+      return NextResponse.json(
+        { error: 'markedNumbers must be an array of numbers' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof updatedAt !== 'string' || isNaN(Date.parse(updatedAt))) {
+      return NextResponse.json(
+        { error: 'updatedAt must be an ISO timestamp' },
+        { status: 400 }
+      );
+    }
+
+    const ticket = await getTicketById(ticketId);
+
+    if (!ticket || ticket.room_id !== roomId) {
+      return NextResponse.json({ error: 'Ticket not found' }, { status: 404 });
+    }
+
+    if (ticket.player_id !== playerId) {
+      return NextResponse.json(
+        { error: 'You can only mark your own ticket' },
+        { status: 403 }
+      );
+    }
+
+    if (ticket.invalidated_at) {
+      return NextResponse.json(
+        { error: 'This ticket was removed from the game' },
+        { status: 403 }
+      );
+    }
+
+    const ticketNumbers = new Set(ticket.ticket_data.flat());
+
+    if (!markedNumbers.every((number: number) => ticketNumbers.has(number))) {
+      return NextResponse.json(
+        { error: 'markedNumbers must only contain numbers on the ticket' },
+        { status: 400 }
+      );
+    }
+
+    const marks = await saveTicketMarks(
+      ticket,
+      markedNumbers,
+      new Date(updatedAt).toISOString()
+    );
+
+    return NextResponse.json({ marks });
+  } catch (error) {
+    console.error(
+      'PUT /api/rooms/[id]/tickets/[ticketId]/marks error:',
+      error
+    );
+
+    const message =
+      error instanceof Error ? error.message : 'Internal server error';
+
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
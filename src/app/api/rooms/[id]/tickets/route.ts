@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { addPlayerTicket, getRoomById } from '@/services/database.service';
+import { RoomRuleError } from '@/lib/errors';
+
+/**
+ * POST /api/rooms/[id]/tickets
+ * Request an additional ticket for a player who already joined
+ *
+ * Only allowed while the room is waiting, up to the room's
+ * max_tickets_per_player.
+ *
+ * Body: { playerId: string }
+ * Response: { ticket: LotoTicket, tickets: LotoTicket[] }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: roomId } = await params;
+    const body = await request.json();
+    const { playerId } = body;
+
+    if (!roomId) {
+      return NextResponse.json(
+        { error: 'Room ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!playerId) {
+      return NextResponse.json(
+        { error: 'playerId is required' },
+        { status: 400 }
+      );
+    }
+
+    const room = await getRoomById(roomId);
+
+    if (!room) {
+      return NextResponse.json({ error: 'Room not found' }, { status: 404 });
+    }
+
+    const result = await addPlayerTicket(room, playerId);
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    if (error instanceof RoomRuleError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('POST /api/rooms/[id]/tickets error:', error);
+
+    const message =
+      error instanceof Error ? error.message : 'Internal server error';
+
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,11 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getRoomByCode } from '@/services/database.service';
+import { getRoomByCode, toPublicRoom } from '@/services/database.service';
 
 /**
  * GET /api/rooms/code/[code]
  * Get room details by room code
  *
- * Response: { room: Room } or 404
+ * Response: { room: PublicRoom } or 404
  */
 export async function GET(
   request: NextRequest,
@@ -27,7 +27,7 @@ export async function GET(
       return NextResponse.json({ error: 'Room not found' }, { status: 404 });
     }
 
-    return NextResponse.json({ room });
+    return NextResponse.json({ room: toPublicRoom(room) });
   } catch (error) {
     console.error('GET /api/rooms/[code] error:', error);
 
@@ -1,17 +1,48 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createRoom } from '@/services/database.service';
+import {
+  DEFAULT_WIN_TYPES,
+  isValidWinTypeList
+} from '@/lib/loto/win-detection';
+import { isValidPrizeStageList } from '@/lib/loto/prize-ladder';
+import { isValidTicketLimit } from '@/lib/loto/ticket-limits';
+import { isValidRoomPin } from '@/lib/loto/room-pin';
+import { isValidRoomCapacity } from '@/lib/loto/room-capacity';
 
 /**
  * POST /api/rooms
  * Create a new room
  *
- * Body: { hostId: string }
- * Response: { room: Room }
+ * Body: {
+ *   hostId: string,
+ *   winPatterns?: WinType[],
+ *   prizeStages?: PrizeStage[],
+ *   commitReveal?: boolean,
+ *   maxTicketsPerPlayer?: number,
+ *   useStrips?: boolean,
+ *   pin?: string,
+ *   maxPlayers?: number | null,
+ *   allowLateJoin?: boolean
+ * }
+ * Response: { room: PublicRoom, hostToken: string }
+ *
+ * The host token is only returned here. Host-only routes expect it in the
+ * x-host-token header.
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { hostId } = body;
+    const {
+      hostId,
+      winPatterns,
+      prizeStages,
+      commitReveal,
+      maxTicketsPerPlayer,
+      useStrips,
+      pin,
+      maxPlayers,
+      allowLateJoin
+    } = body;
 
     if (!hostId) {
       return NextResponse.json(
@@ -20,12 +51,85 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (winPatterns !== undefined && !isValidWinTypeList(winPatterns)) {
+      return NextResponse.json(
+        { error: 'winPatterns must be a non-empty list of known win types' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      prizeStages !== undefined &&
+      !isValidPrizeStageList(prizeStages, winPatterns ?? DEFAULT_WIN_TYPES)
+    ) {
+      return NextResponse.json(
+        {
+          error:
+            'prizeStages must be a non-empty list of stages using enabled win patterns'
+        },
+        { status: 400 }
+      );
+    }
+
+    if (commitReveal !== undefined && typeof commitReveal !== 'boolean') {
+      return NextResponse.json(
+        { error: 'commitReveal must be a boolean' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      maxTicketsPerPlayer !== undefined &&
+      !isValidTicketLimit(maxTicketsPerPlayer)
+    ) {
+      return NextResponse.json(
+        { error: 'maxTicketsPerPlayer must be a whole number from 1 to 6' },
+        { status: 400 }
+      );
+    }
+
+    if (useStrips !== undefined && typeof useStrips !== 'boolean') {
+      return NextResponse.json(
+        { error: 'useStrips must be a boolean' },
+        { status: 400 }
+      );
+    }
+
+    if (pin !== undefined && !isValidRoomPin(pin)) {
+      return NextResponse.json(
+        { error: 'pin must be 4 to 8 digits' },
+        { status: 400 }
+      );
+    }
+
+    if (maxPlayers !== undefined && !isValidRoomCapacity(maxPlayers)) {
+      return NextResponse.json(
+        { error: 'maxPlayers must be null or a whole number from 2 to 100' },
+        { status: 400 }
+      );
+    }
+
+    if (allowLateJoin !== undefined && typeof allowLateJoin !== 'boolean') {
+      return NextResponse.json(
+        { error: 'allowLateJoin must be a boolean' },
+        { status: 400 }
+      );
+    }
+
     // Create the room
-    const room = await createRoom({
-      host_id: hostId
+    const result = await createRoom({
+      host_id: hostId,
+      win_patterns: winPatterns,
+      prize_stages: prizeStages,
+      commit_reveal: commitReveal,
+      max_tickets_per_player: maxTicketsPerPlayer,
+      use_strips: useStrips,
+      pin,
+      max_players: maxPlayers,
+      allow_late_join: allowLateJoin
     });
 
-    if (!room) {
+    if (!result) {
       return NextResponse.json(
         { error: 'Failed to create room' },
         { status: 500 }
@@ -33,7 +137,7 @@ export async function POST(request: NextRequest) {
     }
 
     return NextResponse.json(
-      { room },
+      { room: result.room, hostToken: result.host_token },
       {
         status: 201,
         headers: {
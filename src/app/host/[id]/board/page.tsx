@@ -0,0 +1,242 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import Image from 'next/image';
+import QRCode from 'qrcode';
+import { Background } from '@/components/layout/background';
+import { FireworksDisplay } from '@/components/effects/fireworks-display';
+import { NumberBoard } from '@/components/loto/number-board';
+import { useRoomEvents } from '@/hooks/use-room-events';
+import { usePlayerRoster } from '@/hooks/use-player-roster';
+import { getCurrentStage } from '@/lib/loto/prize-ladder';
+import type { PublicRoom, WinClaim } from '@/types/loto';
+
+/** How long a confirmed win is celebrated on screen (ms) */
+const CELEBRATION_DURATION = 10000;
+
+/**
+ * Big-screen caller board for casting to a TV or projector
+ *
+ * Display only: no host controls, so it can stay open on a second screen
+ * while the host calls numbers from the game page.
+ */
+export default function CallerBoardPage({
+  params
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const [roomId, setRoomId] = useState<string>('');
+  const [room, setRoom] = useState<PublicRoom | null>(null);
+  const [calledNumbers, setCalledNumbers] = useState<number[]>([]);
+  const [qrCodeUrl, setQrCodeUrl] = useState<string>('');
+  const [celebration, setCelebration] = useState<WinClaim | null>(null);
+  const { players, refresh: refreshPlayers } = usePlayerRoster(roomId);
+  const celebrationTimer = useRef<ReturnType<typeof setTimeout> | undefined>(
+    undefined
+  );
+
+  const fetchRoom = useCallback(async (id: string) => {
+    try {
+      const response = await fetch(`/api/rooms/${id}`);
+      if (response.ok) {
+        const data = await response.json();
+        setRoom(data.room);
+      }
+    } catch (err) {
+      console.error('Failed to fetch room:', err);
+    }
+  }, []);
+
+  const fetchNumbers = useCallback(async (id: string) => {
+    try {
+      const response = await fetch(`/api/rooms/${id}/numbers`);
+      if (response.ok) {
+        const data = await response.json();
+        setCalledNumbers(data.numbers);
+      }
+    } catch (err) {
+      console.error('Failed to fetch numbers:', err);
+    }
+  }, []);
+
+  // Unwrap params, then load the room and the QR code for late joiners
+  useEffect(() => {
+    params.then((p) => {
+      setRoomId(p.id);
+      fetchRoom(p.id);
+      fetchNumbers(p.id);
+
+      QRCode.toDataURL(`${window.location.origin}/room/${p.id}`, {
+        width: 300,
+        margin: 2
+      })
+        .then(setQrCodeUrl)
+        .catch((err) => console.error('Failed to generate QR code:', err));
+    });
+  }, [params, fetchRoom, fetchNumbers]);
+
+  // Stop a pending celebration timer on unmount
+  useEffect(() => () => clearTimeout(celebrationTimer.current), []);
+
+  // Live updates (falls back to polling every 5s)
+  useRoomEvents(roomId, {
+    onEvent: (event) => {
+      switch (event.type) {
+        case 'number_called':
+          setCalledNumbers((prev) =>
+            prev.includes(event.payload.number)
+              ? prev
+              : [...prev, event.payload.number]
+          );
+          refreshPlayers();
+          break;
+        case 'number_voided':
+          setCalledNumbers((prev) =>
+            prev.filter((n) => n !== event.payload.number)
+          );
+          refreshPlayers();
+          break;
+        case 'room_status_changed':
+        case 'stage_advanced':
+          fetchRoom(roomId);
+          break;
+        case 'claim_resolved':
+          // Celebrate only wins the host confirmed
+          if (event.payload.claim.status === 'accepted') {
+            setCelebration(event.payload.claim);
+            clearTimeout(celebrationTimer.current);
+            celebrationTimer.current = setTimeout(
+              () => setCelebration(null),
+              CELEBRATION_DURATION
+            );
+          }
+          break;
+      }
+    },
+    onPoll: () => {
+      fetchNumbers(roomId);
+      fetchRoom(roomId);
+    }
+  });
+
+  if (!room) {
+    return (
+      <Background variant="dark" showEffects={false}>
+        <div className="flex min-h-screen items-center justify-center">
+          <div className="h-16 w-16 animate-spin rounded-full border-4 border-yellow-400 border-t-transparent" />
+        </div>
+      </Background>
+    );
+  }
+
+  const lastNumber = calledNumbers[calledNumbers.length - 1];
+  const previousCalls = calledNumbers.slice(-6, -1).reverse();
+  const currentStage = getCurrentStage(room);
+  // Numbers that would complete someone's line
+  const waitingNumbers =
+    room.status === 'completed'
+      ? []
+      : [...new Set(players.flatMap((player) => player.waiting_numbers))];
+  const isJoinable =
+    room.status === 'waiting' ||
+    (room.status === 'active' && room.allow_late_join);
+
+  return (
+    <Background variant="dark" showEffects={false}>
+      {celebration && <FireworksDisplay />}
+
+      <div className="flex min-h-screen gap-8 p-8">
+        {/* Calls */}
+        <div className="flex w-1/3 flex-col gap-6">
+          <div className="rounded-3xl bg-gradient-to-br from-red-600 via-red-500 to-yellow-600 p-8 text-center shadow-2xl border-8 border-yellow-400">
+            <p className="text-2xl font-semibold text-yellow-100">
+              🎯 Số vừa gọi
+            </p>
+            <div className="text-[12rem] font-bold leading-none text-white drop-shadow-lg">
+              {lastNumber ?? '--'}
+            </div>
+            <p className="mt-2 text-xl text-yellow-100">
+              {calledNumbers.length}/90 số
+            </p>
+          </div>
+
+          {previousCalls.length > 0 && (
+            <div className="rounded-2xl bg-white/10 p-4">
+              <p className="mb-3 text-center text-xl font-semibold text-yellow-100">
+                Các số trước
+              </p>
+              <div className="flex justify-center gap-3">
+                {previousCalls.map((num) => (
+                  <span
+                    key={num}
+                    className="flex h-20 w-20 items-center justify-center rounded-full bg-yellow-400 text-4xl font-bold text-red-900 shadow-lg"
+                  >
+                    {num}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {room.status !== 'completed' && (
+            <div className="rounded-2xl bg-white/10 p-4 text-center">
+              <p className="text-lg text-yellow-100">Giải đang chơi</p>
+              <p className="text-3xl font-bold text-white">
+                {currentStage ? currentStage.label : 'Tất cả giải đã có chủ'}
+              </p>
+              {currentStage?.prize && (
+                <p className="text-lg text-yellow-100">{currentStage.prize}</p>
+              )}
+            </div>
+          )}
+
+          {/* Late joiners */}
+          <div className="mt-auto flex items-center gap-4 rounded-2xl bg-white/95 p-4 shadow-xl">
+            {isJoinable && qrCodeUrl && (
+              <Image
+                src={qrCodeUrl}
+                alt="QR tham gia phòng"
+                width={140}
+                height={140}
+                unoptimized
+              />
+            )}
+            <div>
+              <p className="text-lg font-semibold text-red-700">Mã phòng</p>
+              <p className="font-mono text-5xl font-bold tracking-widest text-red-600">
+                {room.room_code}
+              </p>
+              {room.is_private && (
+                <p className="text-sm text-red-800">🔒 Hỏi chủ phòng mã PIN</p>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Board */}
+        <div className="flex-1 rounded-3xl bg-white/10 p-6">
+          <NumberBoard
+            calledNumbers={calledNumbers}
+            waitingNumbers={waitingNumbers}
+            size="lg"
+          />
+        </div>
+      </div>
+
+      {/* Confirmed Win */}
+      {celebration && (
+        <div className="pointer-events-none fixed inset-x-0 top-1/3 z-[200] text-center">
+          <div className="mx-auto inline-block rounded-3xl bg-gradient-to-r from-yellow-400 to-yellow-500 px-16 py-8 shadow-2xl border-8 border-red-600 animate-bounce">
+            <p className="text-6xl font-bold text-red-800">🏆 KINH! 🏆</p>
+            <p className="mt-2 text-4xl font-semibold text-red-900">
+              {celebration.player_name || 'Người chơi'}
+            </p>
+            <p className="text-2xl text-red-800">
+              {room.prize_stages[celebration.stage_index]?.label}
+            </p>
+          </div>
+        </div>
+      )}
+    </Background>
+  );
+}
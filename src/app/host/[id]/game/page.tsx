@@ -1,12 +1,34 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { getOrCreateGuestId } from '@/utils/guest';
+import { getHostToken, hostHeaders } from '@/utils/host-session';
 import { Header } from '@/components/layout/header';
 import { Background } from '@/components/layout/background';
 import { Footer } from '@/components/layout/footer';
-import type { Room } from '@/types/loto';
+import { ClaimReviewCard } from '@/components/loto/claim-review-card';
+import { PrizeLadder } from '@/components/loto/prize-ladder';
+import { GameOverSummary } from '@/components/loto/game-over-summary';
+import { DrawAudit } from '@/components/loto/draw-audit';
+import { AutoCallPanel } from '@/components/loto/auto-call-panel';
+import { AnnouncerControls } from '@/components/loto/announcer-controls';
+import { TensionMeter } from '@/components/loto/tension-meter';
+import { useRoomEvents } from '@/hooks/use-room-events';
+import { useAnnouncer } from '@/hooks/use-announcer';
+import { usePlayerRoster } from '@/hooks/use-player-roster';
+import { isLadderComplete } from '@/lib/loto/prize-ladder';
+import { getAutoCallState } from '@/lib/loto/auto-call';
+import { NUMBER_GROUPS } from '@/lib/loto/draw';
+import {
+  getCallableNumbers,
+  getGameStateFromRoom,
+  validateGameEvent
+} from '@/lib/loto/game-engine';
+import type {
+  AutoCallStatus,
+  PublicRoom,
+  WinClaimWithTicket
+} from '@/types/loto';
 
 export default function HostGamePage({
   params
@@ -15,63 +37,155 @@ export default function HostGamePage({
 }) {
   const router = useRouter();
   const [roomId, setRoomId] = useState<string>('');
-  const [room, setRoom] = useState<Room | null>(null);
+  const [room, setRoom] = useState<PublicRoom | null>(null);
   const [calledNumbers, setCalledNumbers] = useState<number[]>([]);
-  const [availableNumbers, setAvailableNumbers] = useState<number[]>([]);
   const [selectedNumber, setSelectedNumber] = useState<number | null>(null);
   const [isCalling, setIsCalling] = useState(false);
+  const [claims, setClaims] = useState<WinClaimWithTicket[]>([]);
+  const [isAdvancing, setIsAdvancing] = useState(false);
+  const [isEnding, setIsEnding] = useState(false);
+  const [isVoiding, setIsVoiding] = useState(false);
+  const [isUpdatingAutoCall, setIsUpdatingAutoCall] = useState(false);
+  const [autoCallPausedForClaim, setAutoCallPausedForClaim] = useState(false);
+  const [resolvingClaimId, setResolvingClaimId] = useState<string | null>(
+    null
+  );
   const [error, setError] = useState('');
+  const announcer = useAnnouncer();
+  const { players, refresh: refreshPlayers } = usePlayerRoster(roomId);
+  const lastAnnouncedRef = useRef<number | null>(null);
 
   // Unwrap params
   useEffect(() => {
     params.then((p) => setRoomId(p.id));
   }, [params]);
 
-  // Initialize available numbers (1-90)
-  useEffect(() => {
-    setAvailableNumbers(Array.from({ length: 90 }, (_, i) => i + 1));
-  }, []);
-
-  // Fetch room and numbers
-  useEffect(() => {
-    if (!roomId) return;
+  // Fetch room, numbers and claims
+  const fetchRoom = useCallback(async () => {
+    try {
+      const roomResponse = await fetch(`/api/rooms/${roomId}`);
+      if (roomResponse.ok) {
+        const roomData = await roomResponse.json();
+        setRoom(roomData.room);
+      }
+    } catch (err) {
+      console.error('Failed to fetch room:', err);
+    }
+  }, [roomId]);
 
-    const fetchRoom = async () => {
-      try {
-        const roomResponse = await fetch(`/api/rooms/${roomId}`);
-        if (roomResponse.ok) {
-          const roomData = await roomResponse.json();
-          setRoom(roomData.room);
-        }
-      } catch (err) {
-        console.error('Failed to fetch room:', err);
+  const fetchNumbers = useCallback(async () => {
+    try {
+      const numbersResponse = await fetch(`/api/rooms/${roomId}/numbers`);
+      if (numbersResponse.ok) {
+        const numbersData = await numbersResponse.json();
+        setCalledNumbers(numbersData.numbers);
       }
-    };
-
-    const fetchNumbers = async () => {
-      try {
-        const numbersResponse = await fetch(`/api/rooms/${roomId}/numbers`);
-        if (numbersResponse.ok) {
-          const numbersData = await numbersResponse.json();
-          setCalledNumbers(numbersData.numbers);
-        }
-      } catch (err) {
-        console.error('Failed to fetch numbers:', err);
+    } catch (err) {
+      console.error('Failed to fetch numbers:', err);
+    }
+  }, [roomId]);
+
+  const fetchClaims = useCallback(async () => {
+    try {
+      const claimsResponse = await fetch(`/api/rooms/${roomId}/claims`);
+      if (claimsResponse.ok) {
+        const claimsData = await claimsResponse.json();
+        setClaims(claimsData.claims);
       }
-    };
+    } catch (err) {
+      console.error('Failed to fetch claims:', err);
+    }
+  }, [roomId]);
 
-    // Initial fetch
-    fetchRoom(); // Fetch room once
+  // Initial fetch
+  useEffect(() => {
+    if (!roomId) return;
+    fetchRoom();
     fetchNumbers();
+    fetchClaims();
+  }, [roomId, fetchRoom, fetchNumbers, fetchClaims]);
 
-    // Only poll called numbers (they change frequently)
-    const interval = setInterval(fetchNumbers, 5000);
-    return () => clearInterval(interval);
-  }, [roomId]);
+  // A number can arrive both from our own request and from the stream
+  const announceOnce = (number: number) => {
+    if (lastAnnouncedRef.current === number) return;
+    lastAnnouncedRef.current = number;
+    announcer.announce(number);
+  };
+
+  // Live updates (falls back to polling numbers and claims every 5s)
+  useRoomEvents(roomId, {
+    onEvent: (event) => {
+      switch (event.type) {
+        case 'number_called':
+          announceOnce(event.payload.number);
+          setCalledNumbers((prev) =>
+            prev.includes(event.payload.number)
+              ? prev
+              : [...prev, event.payload.number]
+          );
+          // Who is waiting on what changes with every call
+          refreshPlayers();
+          break;
+        case 'number_voided':
+          // A voided number may be called (and announced) again
+          lastAnnouncedRef.current = null;
+          setCalledNumbers((prev) =>
+            prev.filter((n) => n !== event.payload.number)
+          );
+          // Pending claims were re-verified without the voided number
+          fetchClaims();
+          refreshPlayers();
+          break;
+        case 'player_joined':
+        case 'player_removed':
+          refreshPlayers();
+          break;
+        case 'claim_submitted':
+        case 'claim_resolved':
+          // Claims are listed with their tickets, so re-read the list
+          fetchClaims();
+          break;
+        case 'room_status_changed':
+        case 'stage_advanced':
+          fetchRoom();
+          break;
+        case 'auto_call_changed':
+          setRoom((prev) =>
+            prev
+              ? {
+                  ...prev,
+                  auto_call_status: event.payload.status,
+                  auto_call_interval: event.payload.interval,
+                  auto_call_next_at: event.payload.next_at
+                }
+              : prev
+          );
+          setAutoCallPausedForClaim(event.payload.reason === 'claim');
+          break;
+      }
+    },
+    onPoll: () => {
+      fetchNumbers();
+      fetchClaims();
+
+      // Without the stream nothing drives the automatic caller, so tick it
+      if (room?.auto_call_status === 'running') {
+        fetch(`/api/rooms/${roomId}/auto-call/tick`, { method: 'POST' })
+          .then(() => fetchRoom())
+          .catch((err) => console.error('Failed to tick auto call:', err));
+      }
+    }
+  });
 
   const handleCallNumber = async (number: number) => {
-    if (calledNumbers.includes(number)) {
-      setError('This number has already been called!');
+    if (!room) return;
+
+    const violation = validateGameEvent(
+      getGameStateFromRoom(room, calledNumbers),
+      { type: 'NumberCalled', number, at: new Date().toISOString() }
+    );
+    if (violation) {
+      setError(violation);
       return;
     }
 
@@ -80,15 +194,10 @@ export default function HostGamePage({
     setSelectedNumber(number);
 
     try {
-      const { guest_id } = getOrCreateGuestId();
-
       const response = await fetch(`/api/rooms/${roomId}/numbers`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          number,
-          hostId: guest_id
-        })
+        headers: hostHeaders(roomId),
+        body: JSON.stringify({ number })
       });
 
       if (!response.ok) {
@@ -97,7 +206,10 @@ export default function HostGamePage({
       }
 
       // Update called numbers
-      setCalledNumbers((prev) => [...prev, number]);
+      announceOnce(number);
+      setCalledNumbers((prev) =>
+        prev.includes(number) ? prev : [...prev, number]
+      );
       setSelectedNumber(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to call number');
@@ -106,37 +218,190 @@ export default function HostGamePage({
     }
   };
 
-  const handleRandomNumber = () => {
-    const available = availableNumbers.filter(
-      (n) => !calledNumbers.includes(n)
+  // The server picks the number (secure RNG or the committed draw order)
+  const handleDrawNumber = async () => {
+    setIsCalling(true);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/rooms/${roomId}/numbers/draw`, {
+        method: 'POST',
+        headers: hostHeaders(roomId)
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to draw number');
+      }
+
+      const { number } = await response.json();
+      announceOnce(number);
+      setCalledNumbers((prev) =>
+        prev.includes(number) ? prev : [...prev, number]
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to draw number');
+    } finally {
+      setIsCalling(false);
+    }
+  };
+
+  const handleAutoCallChange = async (
+    status: AutoCallStatus,
+    interval: number
+  ) => {
+    setIsUpdatingAutoCall(true);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/rooms/${roomId}/auto-call`, {
+        method: 'PATCH',
+        headers: hostHeaders(roomId),
+        body: JSON.stringify({ status, interval })
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to update auto call');
+      }
+
+      const data = await response.json();
+      setRoom(data.room);
+      setAutoCallPausedForClaim(false);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to update auto call'
+      );
+    } finally {
+      setIsUpdatingAutoCall(false);
+    }
+  };
+
+  const handleVoidLastNumber = async () => {
+    const lastNumber = calledNumbers[calledNumbers.length - 1];
+    const reason = prompt(
+      `Rút lại số ${lastNumber}? Nhập lý do (không bắt buộc):`,
+      'Bấm nhầm'
     );
-    if (available.length === 0) {
-      setError('All numbers have been called!');
-      return;
+    if (reason === null) return;
+
+    setIsVoiding(true);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/rooms/${roomId}/numbers/void`, {
+        method: 'POST',
+        headers: hostHeaders(roomId),
+        body: JSON.stringify({ reason })
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to void number');
+      }
+
+      const { voided } = await response.json();
+      setCalledNumbers((prev) => prev.filter((n) => n !== voided.number));
+      fetchClaims();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to void number');
+    } finally {
+      setIsVoiding(false);
     }
+  };
+
+  const handleResolveClaim = async (
+    claimId: string,
+    status: 'accepted' | 'rejected'
+  ) => {
+    setResolvingClaimId(claimId);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/rooms/${roomId}/claims/${claimId}`, {
+        method: 'PATCH',
+        headers: hostHeaders(roomId),
+        body: JSON.stringify({ status })
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to resolve claim');
+      }
+
+      const data = await response.json();
+      setClaims((prev) =>
+        prev.map((c) => (c.id === claimId ? { ...c, ...data.claim } : c))
+      );
 
-    const randomNum = available[Math.floor(Math.random() * available.length)];
-    handleCallNumber(randomNum);
+      // Accepting the final prize may have completed the ladder
+      fetchRoom();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resolve claim');
+    } finally {
+      setResolvingClaimId(null);
+    }
+  };
+
+  const handleAdvanceStage = async () => {
+    setIsAdvancing(true);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/rooms/${roomId}/stages/advance`, {
+        method: 'POST',
+        headers: hostHeaders(roomId)
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to advance prize stage');
+      }
+
+      const data = await response.json();
+      setRoom(data.room);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to advance prize stage'
+      );
+    } finally {
+      setIsAdvancing(false);
+    }
   };
 
   const handleEndGame = async () => {
-    if (confirm('Bạn có chắc muốn kết thúc trò chơi?')) {
-      router.push('/');
+    if (!confirm('Bạn có chắc muốn kết thúc trò chơi?')) return;
+
+    setIsEnding(true);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/rooms/${roomId}`, {
+        method: 'PATCH',
+        headers: hostHeaders(roomId),
+        body: JSON.stringify({ status: 'completed' })
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to end game');
+      }
+
+      const data = await response.json();
+      setRoom(data.room);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to end game');
+    } finally {
+      setIsEnding(false);
     }
   };
 
-  // Group numbers by tens
-  const numberGroups = [
-    { range: '1-10', numbers: availableNumbers.slice(0, 10) },
-    { range: '11-20', numbers: availableNumbers.slice(10, 20) },
-    { range: '21-30', numbers: availableNumbers.slice(20, 30) },
-    { range: '31-40', numbers: availableNumbers.slice(30, 40) },
-    { range: '41-50', numbers: availableNumbers.slice(40, 50) },
-    { range: '51-60', numbers: availableNumbers.slice(50, 60) },
-    { range: '61-70', numbers: availableNumbers.slice(60, 70) },
-    { range: '71-80', numbers: availableNumbers.slice(70, 80) },
-    { range: '81-90', numbers: availableNumbers.slice(80, 90) }
-  ];
+  const pendingClaims = claims.filter((c) => c.status === 'pending');
+  const winners = claims.filter((c) => c.status === 'accepted');
+  const allPrizesWon = room ? isLadderComplete(room) : false;
+  const callableNumbers = new Set(
+    room ? getCallableNumbers(getGameStateFromRoom(room, calledNumbers)) : []
+  );
 
   if (!room) {
     return (
@@ -151,18 +416,63 @@ export default function HostGamePage({
     );
   }
 
+  // Only the browser that created the room holds its host token
+  const hasHostToken = getHostToken(roomId) !== null;
+
+  if (room.status === 'completed') {
+    return (
+      <Background>
+        <Header
+          title={`Mã phòng: ${room.room_code}`}
+          subtitle="Đã kết thúc"
+        />
+        <div className="mx-auto max-w-2xl space-y-6 p-4">
+          <GameOverSummary
+            room={room}
+            calledCount={calledNumbers.length}
+            historyHref={`/room/${roomId}/history`}
+          />
+          {room.draw_commitment && (
+            <DrawAudit
+              commitment={room.draw_commitment}
+              seed={room.draw_seed}
+              calledNumbers={calledNumbers}
+            />
+          )}
+          <button
+            onClick={() => router.push('/')}
+            className="w-full rounded-lg bg-gradient-to-r from-red-600 to-red-700 px-8 py-3 text-white font-bold hover:from-red-700 hover:to-red-800 shadow-lg transition-all"
+          >
+            🏠 Về trang chủ
+          </button>
+        </div>
+        <Footer />
+      </Background>
+    );
+  }
+
   return (
     <Background>
       <Header
         title={`Mã phòng: ${room.room_code}`}
         subtitle={`Đã gọi: ${calledNumbers.length}/90`}
         action={
-          <button
-            onClick={handleEndGame}
-            className="rounded-lg bg-white/90 backdrop-blur px-6 py-2 text-red-700 font-bold hover:bg-white border-2 border-white/50 shadow-lg transition-all"
-          >
-            Kết thúc game
-          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={() => window.open(`/host/${roomId}/board`, '_blank')}
+              className="rounded-lg bg-white/90 backdrop-blur px-4 py-2 text-red-700 font-bold hover:bg-white border-2 border-white/50 shadow-lg transition-all"
+              title="Mở bảng số để chiếu lên TV"
+            >
+              📺 Màn hình lớn
+            </button>
+            <button
+              onClick={handleEndGame}
+              disabled={isEnding}
+              className="rounded-lg bg-white/90 backdrop-blur px-6 py-2 text-red-700 font-bold hover:bg-white border-2 border-white/50 shadow-lg transition-all"
+            >
+              {isEnding ? 'Đang kết thúc...' : 'Kết thúc game'}
+            </button>
+          </div>
         }
       />
 
@@ -175,13 +485,22 @@ export default function HostGamePage({
               ? calledNumbers[calledNumbers.length - 1]
               : '--'}
           </div>
+          {calledNumbers.length > 0 && !room.draw_commitment && (
+            <button
+              onClick={handleVoidLastNumber}
+              disabled={isVoiding || isCalling}
+              className="mt-4 rounded-lg bg-white/90 px-4 py-2 text-sm font-semibold text-green-800 hover:bg-white disabled:bg-gray-300 disabled:text-gray-600 shadow"
+            >
+              {isVoiding ? 'Đang rút lại...' : '↩️ Rút lại số này'}
+            </button>
+          )}
         </div>
 
         {/* Quick Actions */}
         <div className="grid gap-4 md:grid-cols-2">
           <button
-            onClick={handleRandomNumber}
-            disabled={isCalling || calledNumbers.length === 90}
+            onClick={handleDrawNumber}
+            disabled={isCalling || callableNumbers.size === 0}
             className="rounded-lg bg-blue-600 px-6 py-4 text-lg font-semibold text-white hover:bg-blue-700 disabled:bg-gray-400"
           >
             🎲 Gọi số ngẫu nhiên
@@ -194,6 +513,13 @@ export default function HostGamePage({
           </button>
         </div>
 
+        {!hasHostToken && (
+          <div className="rounded-lg bg-yellow-100 border-2 border-yellow-400 p-4 text-yellow-900 font-semibold">
+            🔒 Trình duyệt này không tạo phòng nên không thể điều khiển trò
+            chơi.
+          </div>
+        )}
+
         {/* Error Message */}
         {error && (
           <div className="rounded-lg bg-red-100 border-2 border-red-400 p-4 text-red-800 font-semibold">
@@ -201,47 +527,104 @@ export default function HostGamePage({
           </div>
         )}
 
-        {/* Number Grid */}
-        <div className="rounded-xl bg-white/95 backdrop-blur p-6 shadow-2xl border-2 border-red-300">
-          <h2 className="text-xl font-semibold text-red-800 mb-6 flex items-center gap-2">
-            <span>🎯</span> Chọn số để gọi
-          </h2>
-          <div className="space-y-6">
-            {numberGroups.map((group) => (
-              <div key={group.range}>
-                <p className="text-sm font-bold text-red-700 mb-3 bg-red-50 px-3 py-1 rounded-lg inline-block">
-                  {group.range}
-                </p>
-                <div className="grid grid-cols-5 gap-2 sm:grid-cols-10">
-                  {group.numbers.map((num) => {
-                    const isCalled = calledNumbers.includes(num);
-                    const isSelected = selectedNumber === num;
-
-                    return (
-                      <button
-                        key={num}
-                        onClick={() => handleCallNumber(num)}
-                        disabled={isCalled || isCalling}
-                        className={`
-                          aspect-square rounded-lg text-lg font-bold transition-all shadow-md
-                          ${
-                            isCalled
-                              ? 'bg-gray-300 text-gray-500 cursor-not-allowed line-through'
-                              : isSelected
-                              ? 'bg-gradient-to-br from-yellow-400 to-yellow-500 text-red-900 scale-110 shadow-xl ring-4 ring-yellow-300'
-                              : 'bg-white border-2 border-red-500 text-red-600 hover:bg-red-50 hover:scale-105 active:scale-95'
-                          }
-                        `}
-                      >
-                        {num}
-                      </button>
-                    );
-                  })}
+        {/* Voice Announcer */}
+        <AnnouncerControls
+          settings={announcer.settings}
+          onChange={announcer.updateSettings}
+          voices={announcer.voices}
+          onTest={announcer.announce}
+        />
+
+        {/* Players one number away */}
+        <TensionMeter players={players} />
+
+        {/* Automatic Caller */}
+        <AutoCallPanel
+          state={getAutoCallState(room)}
+          onChange={handleAutoCallChange}
+          isUpdating={isUpdatingAutoCall}
+          disabled={callableNumbers.size === 0}
+          pausedForClaim={autoCallPausedForClaim}
+        />
+
+        {/* Prize Ladder */}
+        <PrizeLadder
+          stages={room.prize_stages}
+          currentStage={room.current_stage}
+          winners={winners}
+          onAdvance={handleAdvanceStage}
+          isAdvancing={isAdvancing}
+        />
+
+        {allPrizesWon && (
+          <div className="rounded-lg bg-green-100 border-2 border-green-400 p-4 text-green-800 font-semibold text-center">
+            🏆 Tất cả giải đã có chủ! Không thể gọi thêm số.
+          </div>
+        )}
+
+        {/* Pending Win Claims */}
+        {pendingClaims.length > 0 && (
+          <div className="rounded-xl bg-yellow-50/95 backdrop-blur p-6 shadow-2xl border-4 border-yellow-400">
+            <h2 className="text-xl font-semibold text-red-800 mb-4 flex items-center gap-2">
+              <span>📣</span> Có người kinh! ({pendingClaims.length})
+            </h2>
+            <div className="grid gap-4 lg:grid-cols-2">
+              {pendingClaims.map((claim) => (
+                <ClaimReviewCard
+                  key={claim.id}
+                  claim={claim}
+                  calledNumbers={calledNumbers}
+                  onResolve={handleResolveClaim}
+                  isResolving={resolvingClaimId === claim.id}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Number Grid (commit-reveal rooms only draw on the server) */}
+        {!room.draw_commitment && (
+          <div className="rounded-xl bg-white/95 backdrop-blur p-6 shadow-2xl border-2 border-red-300">
+            <h2 className="text-xl font-semibold text-red-800 mb-6 flex items-center gap-2">
+              <span>🎯</span> Chọn số để gọi
+            </h2>
+            <div className="space-y-6">
+              {NUMBER_GROUPS.map((group) => (
+                <div key={group.range}>
+                  <p className="text-sm font-bold text-red-700 mb-3 bg-red-50 px-3 py-1 rounded-lg inline-block">
+                    {group.range}
+                  </p>
+                  <div className="grid grid-cols-5 gap-2 sm:grid-cols-10">
+                    {group.numbers.map((num) => {
+                      const isCalled = calledNumbers.includes(num);
+                      const isSelected = selectedNumber === num;
+
+                      return (
+                        <button
+                          key={num}
+                          onClick={() => handleCallNumber(num)}
+                          disabled={!callableNumbers.has(num) || isCalling}
+                          className={`
+                            aspect-square rounded-lg text-lg font-bold transition-all shadow-md
+                            ${
+                              isCalled
+                                ? 'bg-gray-300 text-gray-500 cursor-not-allowed line-through'
+                                : isSelected
+                                ? 'bg-gradient-to-br from-yellow-400 to-yellow-500 text-red-900 scale-110 shadow-xl ring-4 ring-yellow-300'
+                                : 'bg-white border-2 border-red-500 text-red-600 hover:bg-red-50 hover:scale-105 active:scale-95'
+                            }
+                          `}
+                        >
+                          {num}
+                        </button>
+                      );
+                    })}
+                  </div>
                 </div>
-              </div>
-            ))}
+              ))}
+            </div>
           </div>
-        </div>
+        )}
 
         {/* Called Numbers History */}
         <div className="rounded-xl bg-white/95 backdrop-blur p-6 shadow-2xl border-2 border-red-300">
@@ -1,13 +1,23 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Image from 'next/image';
 import QRCode from 'qrcode';
 import { Header } from '@/components/layout/header';
 import { Background } from '@/components/layout/background';
 import { Footer } from '@/components/layout/footer';
-import type { Room } from '@/types/loto';
+import { useRoomEvents } from '@/hooks/use-room-events';
+import { usePlayerRoster } from '@/hooks/use-player-roster';
+import { PlayerRoster } from '@/components/loto/player-roster';
+import { RoomAccessSettings } from '@/components/loto/room-access-settings';
+import { getWinPattern } from '@/lib/loto/win-detection';
+import { hostHeaders } from '@/utils/host-session';
+import type {
+  PublicRoom,
+  RoomSettingsInput,
+  RosterPlayer
+} from '@/types/loto';
 
 export default function HostRoomPage({
   params
@@ -16,11 +26,14 @@ export default function HostRoomPage({
 }) {
   const router = useRouter();
   const [roomId, setRoomId] = useState<string>('');
-  const [room, setRoom] = useState<Room | null>(null);
+  const [room, setRoom] = useState<PublicRoom | null>(null);
   const [qrCodeUrl, setQrCodeUrl] = useState<string>('');
   const [calledNumbers, setCalledNumbers] = useState<number[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState('');
+  const [isSavingSettings, setIsSavingSettings] = useState(false);
+  const [settingsError, setSettingsError] = useState('');
+  const { players, refresh: refreshPlayers } = usePlayerRoster(roomId);
 
   // Unwrap params
   useEffect(() => {
@@ -58,30 +71,117 @@ export default function HostRoomPage({
   }, [roomId]);
 
   // Fetch called numbers
+  const fetchNumbers = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/rooms/${roomId}/numbers`);
+      if (response.ok) {
+        const data = await response.json();
+        setCalledNumbers(data.numbers);
+      }
+    } catch (err) {
+      console.error('Failed to fetch numbers:', err);
+    }
+  }, [roomId]);
+
   useEffect(() => {
     if (!roomId) return;
+    fetchNumbers();
+  }, [roomId, fetchNumbers]);
 
-    const fetchNumbers = async () => {
-      try {
-        const response = await fetch(`/api/rooms/${roomId}/numbers`);
-        if (response.ok) {
-          const data = await response.json();
-          setCalledNumbers(data.numbers);
-        }
-      } catch (err) {
-        console.error('Failed to fetch numbers:', err);
+  // Live updates (falls back to polling every 5s)
+  useRoomEvents(roomId, {
+    onEvent: (event) => {
+      if (event.type === 'number_called') {
+        setCalledNumbers((prev) =>
+          prev.includes(event.payload.number)
+            ? prev
+            : [...prev, event.payload.number]
+        );
+        refreshPlayers();
+      } else if (event.type === 'number_voided') {
+        setCalledNumbers((prev) =>
+          prev.filter((n) => n !== event.payload.number)
+        );
+        refreshPlayers();
+      } else if (event.type === 'room_status_changed') {
+        setRoom((prev) =>
+          prev ? { ...prev, status: event.payload.status } : prev
+        );
+      } else if (
+        event.type === 'player_joined' ||
+        event.type === 'player_renamed' ||
+        event.type === 'player_removed'
+      ) {
+        refreshPlayers();
       }
-    };
-
-    fetchNumbers();
-    const interval = setInterval(fetchNumbers, 5000);
-    return () => clearInterval(interval);
-  }, [roomId]);
+    },
+    onPoll: fetchNumbers
+  });
 
   const handleStartGame = () => {
     router.push(`/host/${roomId}/game`);
   };
 
+  const handleRemovePlayer = async (player: RosterPlayer, ban: boolean) => {
+    const name = player.player_name || 'Người chơi';
+    const reason = window.prompt(
+      ban
+        ? `Cấm ${name} vào phòng? Lý do (không bắt buộc):`
+        : `Mời ${name} ra khỏi phòng? Lý do (không bắt buộc):`
+    );
+    if (reason === null) return;
+
+    try {
+      const response = await fetch(
+        `/api/rooms/${roomId}/players/${player.player_id}/${ban ? 'ban' : 'kick'}`,
+        {
+          method: 'POST',
+          headers: hostHeaders(roomId),
+          body: JSON.stringify({ reason: reason.trim() || undefined })
+        }
+      );
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to remove player');
+      }
+
+      refreshPlayers();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to remove player');
+    }
+  };
+
+  const handleSettingsChange = async (changes: RoomSettingsInput) => {
+    setIsSavingSettings(true);
+    setSettingsError('');
+
+    try {
+      const response = await fetch(`/api/rooms/${roomId}/settings`, {
+        method: 'PATCH',
+        headers: hostHeaders(roomId),
+        body: JSON.stringify({
+          maxPlayers: changes.max_players,
+          allowLateJoin: changes.allow_late_join
+        })
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to update settings');
+      }
+
+      const data = await response.json();
+      setRoom(data.room);
+    } catch (err) {
+      setSettingsError(
+        err instanceof Error ? err.message : 'Failed to update settings'
+      );
+    } finally {
+      setIsSavingSettings(false);
+    }
+  };
+
   const copyRoomCode = () => {
     if (room) {
       navigator.clipboard.writeText(room.room_code);
@@ -162,6 +262,11 @@ export default function HostRoomPage({
           <div className="text-center">
             <p className="text-sm text-red-700 mb-3 font-semibold flex items-center justify-center gap-2">
               Mã phòng
+              {room.is_private && (
+                <span className="rounded-full bg-yellow-100 px-2 py-0.5 text-xs text-red-800">
+                  🔒 Cần mã PIN
+                </span>
+              )}
             </p>
             <div className="flex items-center justify-center gap-4">
               <p className="text-6xl font-bold tracking-widest font-mono bg-gradient-to-r from-red-600 to-yellow-600 bg-clip-text text-transparent drop-shadow-lg">
@@ -244,6 +349,14 @@ export default function HostRoomPage({
                   {calledNumbers.length} / 90
                 </span>
               </div>
+              <div className="flex justify-between items-start gap-4 p-3 bg-red-50 rounded-lg">
+                <span className="text-gray-700 font-medium">Luật thắng:</span>
+                <span className="font-bold text-red-600 text-right">
+                  {room.win_patterns
+                    .map((winType) => getWinPattern(winType)?.label ?? winType)
+                    .join(', ')}
+                </span>
+              </div>
               <div className="pt-2">
                 <button
                   onClick={copyJoinLink}
@@ -256,6 +369,26 @@ export default function HostRoomPage({
           </div>
         </div>
 
+        {/* Player Roster */}
+        <PlayerRoster
+          players={players}
+          maxPlayers={room.max_players}
+          showProgress={calledNumbers.length > 0}
+          onKick={(player) => handleRemovePlayer(player, false)}
+          onBan={(player) => handleRemovePlayer(player, true)}
+        />
+
+        {/* Capacity and late joins */}
+        {room.status !== 'completed' && (
+          <RoomAccessSettings
+            maxPlayers={room.max_players}
+            allowLateJoin={room.allow_late_join}
+            onChange={handleSettingsChange}
+            isSaving={isSavingSettings}
+            error={settingsError}
+          />
+        )}
+
         {/* Start Game Button */}
         {room.status === 'waiting' && (
           <div className="rounded-xl bg-gradient-to-br from-green-50 to-emerald-100 p-8 shadow-xl border-4 border-green-500 text-center">
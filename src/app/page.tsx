@@ -3,12 +3,34 @@
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { getOrCreateGuestId } from '@/utils/guest';
+import { saveHostToken } from '@/utils/host-session';
+import { saveRoomPin } from '@/utils/room-pin';
+import { DEFAULT_WIN_TYPES, getWinPatterns } from '@/lib/loto/win-detection';
+import {
+  DEFAULT_TICKETS_PER_PLAYER,
+  MAX_TICKETS_PER_PLAYER
+} from '@/lib/loto/ticket-limits';
+import { isValidRoomPin } from '@/lib/loto/room-pin';
+import { ROOM_CAPACITY_OPTIONS } from '@/lib/loto/room-capacity';
 import { LotoLogo } from '@/components/ui/loto-logo';
 import { Background } from '@/components/layout/background';
+import type { WinType } from '@/types/loto';
 
 export default function Home() {
   const router = useRouter();
   const [roomCode, setRoomCode] = useState('');
+  const [winPatterns, setWinPatterns] = useState<WinType[]>(DEFAULT_WIN_TYPES);
+  const [commitReveal, setCommitReveal] = useState(false);
+  const [useStrips, setUseStrips] = useState(false);
+  const [maxTicketsPerPlayer, setMaxTicketsPerPlayer] = useState(
+    DEFAULT_TICKETS_PER_PLAYER
+  );
+  const [maxPlayers, setMaxPlayers] = useState<number | null>(null);
+  const [allowLateJoin, setAllowLateJoin] = useState(true);
+  const [roomPin, setRoomPin] = useState('');
+  // Set once the code entered belongs to a private room
+  const [privateRoomId, setPrivateRoomId] = useState<string | null>(null);
+  const [joinPin, setJoinPin] = useState('');
   const [isCreating, setIsCreating] = useState(false);
   const [isJoining, setIsJoining] = useState(false);
   const [error, setError] = useState('');
@@ -23,7 +45,16 @@ export default function Home() {
       const response = await fetch('/api/rooms', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ hostId: guest_id })
+        body: JSON.stringify({
+          hostId: guest_id,
+          winPatterns,
+          commitReveal,
+          useStrips,
+          maxTicketsPerPlayer,
+          maxPlayers,
+          allowLateJoin,
+          pin: roomPin || undefined
+        })
       });
 
       if (!response.ok) {
@@ -31,7 +62,8 @@ export default function Home() {
         throw new Error(data.error || 'Failed to create room');
       }
 
-      const { room } = await response.json();
+      const { room, hostToken } = await response.json();
+      saveHostToken(room.id, hostToken);
       router.push(`/host/${room.id}`);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to create room');
@@ -39,6 +71,14 @@ export default function Home() {
     }
   };
 
+  const toggleWinPattern = (winType: WinType) => {
+    setWinPatterns((prev) =>
+      prev.includes(winType)
+        ? prev.filter((type) => type !== winType)
+        : [...prev, winType]
+    );
+  };
+
   const handleJoinRoom = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsJoining(true);
@@ -61,6 +101,23 @@ export default function Home() {
       }
 
       const { room } = await response.json();
+
+      // Private rooms: ask for the PIN, which the room page sends on join
+      if (room.is_private) {
+        if (privateRoomId !== room.id) {
+          setPrivateRoomId(room.id);
+          setJoinPin('');
+          setIsJoining(false);
+          return;
+        }
+
+        if (!isValidRoomPin(joinPin)) {
+          throw new Error('PIN must be 4 to 8 digits');
+        }
+
+        saveRoomPin(room.id, joinPin);
+      }
+
       router.push(`/room/${room.id}`);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to join room');
@@ -89,9 +146,141 @@ export default function Home() {
               <h2 className="text-xl font-semibold text-red-800 mb-4 flex items-center gap-2">
                 Làm chủ phòng
               </h2>
+              <fieldset className="mb-4">
+                <legend className="block text-sm font-medium text-gray-700 mb-2">
+                  Luật thắng
+                </legend>
+                <div className="grid grid-cols-2 gap-2">
+                  {getWinPatterns().map((definition) => (
+                    <label
+                      key={definition.winType}
+                      className="flex items-center gap-2 rounded-lg border-2 border-red-200 bg-yellow-50 px-3 py-2 text-sm text-red-900 cursor-pointer"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={winPatterns.includes(definition.winType)}
+                        onChange={() => toggleWinPattern(definition.winType)}
+                        disabled={isCreating}
+                        className="accent-red-600"
+                      />
+                      {definition.label}
+                    </label>
+                  ))}
+                </div>
+              </fieldset>
+              <label className="mb-4 flex items-start gap-2 rounded-lg border-2 border-red-200 bg-yellow-50 px-3 py-2 text-sm text-red-900 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={commitReveal}
+                  onChange={(e) => setCommitReveal(e.target.checked)}
+                  disabled={isCreating}
+                  className="mt-0.5 accent-red-600"
+                />
+                <span>
+                  Bốc số minh bạch
+                  <span className="block text-xs text-gray-600">
+                    Máy chủ bốc số theo thứ tự đã cam kết trước, người chơi có
+                    thể kiểm tra khi kết thúc
+                  </span>
+                </span>
+              </label>
+              <label className="mb-4 flex items-start gap-2 rounded-lg border-2 border-red-200 bg-yellow-50 px-3 py-2 text-sm text-red-900 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={useStrips}
+                  onChange={(e) => setUseStrips(e.target.checked)}
+                  disabled={isCreating}
+                  className="mt-0.5 accent-red-600"
+                />
+                <span>
+                  Phát vé theo dải 6 vé
+                  <span className="block text-xs text-gray-600">
+                    Mỗi dải 6 vé có đủ 90 số, không vé nào trong dải trùng số
+                    với nhau
+                  </span>
+                </span>
+              </label>
+              <label className="mb-4 flex items-center justify-between gap-2 rounded-lg border-2 border-red-200 bg-yellow-50 px-3 py-2 text-sm text-red-900">
+                Số vé tối đa mỗi người
+                <select
+                  value={maxTicketsPerPlayer}
+                  onChange={(e) =>
+                    setMaxTicketsPerPlayer(Number(e.target.value))
+                  }
+                  disabled={isCreating}
+                  className="rounded-lg border-2 border-red-200 bg-white px-2 py-1"
+                >
+                  {Array.from(
+                    { length: MAX_TICKETS_PER_PLAYER },
+                    (_, i) => i + 1
+                  ).map((count) => (
+                    <option key={count} value={count}>
+                      {count} vé
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="mb-4 flex items-center justify-between gap-2 rounded-lg border-2 border-red-200 bg-yellow-50 px-3 py-2 text-sm text-red-900">
+                Số người chơi tối đa
+                <select
+                  value={maxPlayers ?? ''}
+                  onChange={(e) =>
+                    setMaxPlayers(
+                      e.target.value ? Number(e.target.value) : null
+                    )
+                  }
+                  disabled={isCreating}
+                  className="rounded-lg border-2 border-red-200 bg-white px-2 py-1"
+                >
+                  <option value="">Không giới hạn</option>
+                  {ROOM_CAPACITY_OPTIONS.map((count) => (
+                    <option key={count} value={count}>
+                      {count} người
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="mb-4 flex items-start gap-2 rounded-lg border-2 border-red-200 bg-yellow-50 px-3 py-2 text-sm text-red-900 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={allowLateJoin}
+                  onChange={(e) => setAllowLateJoin(e.target.checked)}
+                  disabled={isCreating}
+                  className="mt-0.5 accent-red-600"
+                />
+                <span>
+                  Cho vào muộn
+                  <span className="block text-xs text-gray-600">
+                    Khi tắt, người đến sau khi ván bắt đầu chỉ được xem, không
+                    nhận vé
+                  </span>
+                </span>
+              </label>
+              <label className="mb-4 block rounded-lg border-2 border-red-200 bg-yellow-50 px-3 py-2 text-sm text-red-900">
+                🔒 Mã PIN vào phòng (không bắt buộc)
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  value={roomPin}
+                  onChange={(e) =>
+                    setRoomPin(e.target.value.replace(/\D/g, '').slice(0, 8))
+                  }
+                  placeholder="4-8 chữ số"
+                  disabled={isCreating}
+                  className="mt-1 w-full rounded-lg border-2 border-red-200 bg-white px-3 py-1 font-mono tracking-widest"
+                />
+                <span className="block text-xs text-gray-600">
+                  Người chơi mới phải nhập mã PIN mới vào được phòng
+                </span>
+              </label>
               <button
                 onClick={handleCreateRoom}
-                disabled={isCreating}
+                disabled={
+                  isCreating ||
+                  winPatterns.length === 0 ||
+                  (roomPin !== '' && !isValidRoomPin(roomPin))
+                }
                 className="w-full rounded-lg bg-gradient-to-r from-red-600 to-red-700 px-4 py-3 text-white font-medium hover:from-red-700 hover:to-red-800 disabled:from-gray-400 disabled:to-gray-500 disabled:cursor-not-allowed transition-all shadow-lg hover:shadow-xl transform hover:-translate-y-0.5"
               >
                 {isCreating ? 'Đang tạo...' : 'Tạo phòng mới'}
@@ -127,18 +316,49 @@ export default function Home() {
                     id="roomCode"
                     type="text"
                     value={roomCode}
-                    onChange={(e) =>
-                      setRoomCode(e.target.value.toUpperCase().slice(0, 6))
-                    }
+                    onChange={(e) => {
+                      setRoomCode(e.target.value.toUpperCase().slice(0, 6));
+                      setPrivateRoomId(null);
+                    }}
                     placeholder="ABC123"
                     maxLength={6}
                     className="w-full rounded-lg border-2 border-red-300 px-4 py-3 text-center text-2xl font-mono uppercase tracking-widest focus:border-red-500 focus:outline-none focus:ring-2 focus:ring-red-500 bg-yellow-50"
                     disabled={isJoining}
                   />
                 </div>
+                {privateRoomId && (
+                  <div>
+                    <label
+                      htmlFor="joinPin"
+                      className="block text-sm font-medium text-gray-700 mb-2"
+                    >
+                      🔒 Phòng riêng - nhập mã PIN
+                    </label>
+                    <input
+                      id="joinPin"
+                      type="password"
+                      inputMode="numeric"
+                      autoComplete="off"
+                      value={joinPin}
+                      onChange={(e) =>
+                        setJoinPin(
+                          e.target.value.replace(/\D/g, '').slice(0, 8)
+                        )
+                      }
+                      placeholder="Mã PIN"
+                      autoFocus
+                      className="w-full rounded-lg border-2 border-red-300 px-4 py-3 text-center text-2xl font-mono tracking-widest focus:border-red-500 focus:outline-none focus:ring-2 focus:ring-red-500 bg-yellow-50"
+                      disabled={isJoining}
+                    />
+                  </div>
+                )}
                 <button
                   type="submit"
-                  disabled={isJoining || roomCode.length !== 6}
+                  disabled={
+                    isJoining ||
+                    roomCode.length !== 6 ||
+                    (privateRoomId !== null && !isValidRoomPin(joinPin))
+                  }
                   className="w-full rounded-lg bg-gradient-to-r from-yellow-500 to-yellow-600 px-4 py-3 text-red-900 font-bold hover:from-yellow-600 hover:to-yellow-700 disabled:from-gray-400 disabled:to-gray-500 disabled:cursor-not-allowed disabled:text-white transition-all shadow-lg hover:shadow-xl transform hover:-translate-y-0.5"
                 >
                   {isJoining ? 'Đang tham gia...' : 'Vào phòng'}
@@ -0,0 +1,238 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Header } from '@/components/layout/header';
+import { Background } from '@/components/layout/background';
+import { Footer } from '@/components/layout/footer';
+import { GameOverSummary } from '@/components/loto/game-over-summary';
+import { DrawAudit } from '@/components/loto/draw-audit';
+import { TicketReplay } from '@/components/loto/ticket-replay';
+import type { ClaimStatus, RoomHistory } from '@/types/loto';
+
+const CLAIM_STATUS_LABELS: Record<ClaimStatus, string> = {
+  pending: '⏳ Chưa xử lý',
+  accepted: '✅ Được công nhận',
+  rejected: '❌ Bị từ chối'
+};
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleTimeString('vi-VN', {
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  });
+
+/**
+ * History of a finished game: every call, the players, the claims and the
+ * winners, with a call-by-call replay of any ticket
+ */
+export default function RoomHistoryPage({
+  params
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const router = useRouter();
+  const [history, setHistory] = useState<RoomHistory | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  // Unwrap params, then load the history
+  useEffect(() => {
+    params.then(async (p) => {
+      try {
+        const response = await fetch(`/api/rooms/${p.id}/history`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load history');
+        }
+
+        setHistory(data.history);
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : 'Failed to load history'
+        );
+      } finally {
+        setIsLoading(false);
+      }
+    });
+  }, [params]);
+
+  if (isLoading) {
+    return (
+      <Background>
+        <div className="flex min-h-screen items-center justify-center">
+          <div className="text-center bg-white/90 backdrop-blur rounded-xl p-8 shadow-xl border-4 border-red-600">
+            <div className="mb-4 h-12 w-12 animate-spin rounded-full border-4 border-red-600 border-t-transparent mx-auto" />
+            <p className="text-red-800 font-semibold">Đang tải lịch sử...</p>
+          </div>
+        </div>
+      </Background>
+    );
+  }
+
+  if (error || !history) {
+    return (
+      <Background>
+        <div className="flex min-h-screen items-center justify-center p-4">
+          <div className="text-center bg-white/90 backdrop-blur rounded-xl p-8 shadow-xl border-4 border-red-600">
+            <h1 className="text-3xl font-bold text-red-600 mb-4">❌ Lỗi</h1>
+            <p className="text-gray-700 mb-6 text-lg">
+              {error || 'Không tìm thấy phòng'}
+            </p>
+            <button
+              onClick={() => router.push('/')}
+              className="rounded-lg bg-gradient-to-r from-red-600 to-red-700 px-8 py-3 text-white font-bold hover:from-red-700 hover:to-red-800 shadow-lg transform hover:-translate-y-0.5 transition-all"
+            >
+              🏠 Về trang chủ
+            </button>
+          </div>
+        </div>
+      </Background>
+    );
+  }
+
+  const { room, players, tickets, claims } = history;
+  const liveCalls = history.called_numbers.filter((call) => !call.voided_at);
+  const calledNumbers = liveCalls.map((call) => call.number);
+
+  return (
+    <Background>
+      <Header
+        title={`Phòng: ${room.room_code}`}
+        subtitle="📜 Lịch sử ván chơi"
+        action={
+          <button
+            onClick={() => router.push('/')}
+            className="rounded-lg bg-white/90 backdrop-blur px-4 py-2 text-red-700 font-semibold hover:bg-white border-2 border-white/50 shadow-lg transition-all"
+          >
+            Về trang chủ
+          </button>
+        }
+      />
+
+      <div className="mx-auto max-w-5xl space-y-6 p-4">
+        <GameOverSummary room={room} calledCount={calledNumbers.length} />
+
+        {/* Step-through Replay */}
+        {tickets.length > 0 && (
+          <TicketReplay
+            tickets={tickets}
+            calledNumbers={calledNumbers}
+            claims={claims}
+            stages={room.prize_stages}
+          />
+        )}
+
+        {/* Calls */}
+        <div className="rounded-xl bg-white/95 backdrop-blur p-6 shadow-xl border-2 border-red-300">
+          <h2 className="text-xl font-semibold text-red-800 mb-4 flex items-center gap-2">
+            <span>📋</span> Các số đã gọi ({calledNumbers.length})
+          </h2>
+          {history.called_numbers.length === 0 ? (
+            <p className="text-gray-500 italic">Chưa gọi số nào</p>
+          ) : (
+            <ol className="grid grid-cols-2 gap-2 sm:grid-cols-4 md:grid-cols-6">
+              {history.called_numbers.map((call) => (
+                <li
+                  key={call.id}
+                  title={call.void_reason ?? undefined}
+                  className={
+                    call.voided_at
+                      ? 'rounded-lg bg-gray-100 px-3 py-2 text-gray-400 line-through'
+                      : 'rounded-lg bg-red-50 px-3 py-2 border border-red-200'
+                  }
+                >
+                  <span className="text-lg font-bold text-red-700">
+                    {call.voided_at
+                      ? call.number
+                      : `${liveCalls.indexOf(call) + 1}. ${call.number}`}
+                  </span>
+                  <span className="block text-xs text-gray-500">
+                    {formatTime(call.called_at)}
+                    {call.voided_at && ' • đã rút lại'}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+
+        {/* Players */}
+        <div className="rounded-xl bg-white/95 backdrop-blur p-6 shadow-xl border-2 border-red-300">
+          <h2 className="text-xl font-semibold text-red-800 mb-4 flex items-center gap-2">
+            <span>👥</span> Người chơi ({players.length})
+          </h2>
+          {players.length === 0 ? (
+            <p className="text-gray-500 italic">Không có ai tham gia</p>
+          ) : (
+            <ul className="space-y-2">
+              {players.map((player) => (
+                <li
+                  key={player.player_id}
+                  className="flex items-center justify-between rounded-lg bg-red-50 px-4 py-2"
+                >
+                  <span className="font-semibold text-red-800">
+                    {player.player_name || 'Người chơi'}
+                  </span>
+                  <span className="text-sm text-gray-600">
+                    {
+                      tickets.filter((t) => t.player_id === player.player_id)
+                        .length
+                    }{' '}
+                    vé • vào lúc {formatTime(player.joined_at)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Claims */}
+        <div className="rounded-xl bg-white/95 backdrop-blur p-6 shadow-xl border-2 border-red-300">
+          <h2 className="text-xl font-semibold text-red-800 mb-4 flex items-center gap-2">
+            <span>📣</span> Các lần kinh ({claims.length})
+          </h2>
+          {claims.length === 0 ? (
+            <p className="text-gray-500 italic">Không có ai kinh</p>
+          ) : (
+            <ul className="space-y-2">
+              {claims.map((claim) => (
+                <li
+                  key={claim.id}
+                  className="flex flex-wrap items-center justify-between gap-2 rounded-lg bg-yellow-50 px-4 py-2"
+                >
+                  <span>
+                    <span className="font-semibold text-red-800">
+                      {claim.player_name || 'Người chơi'}
+                    </span>
+                    <span className="text-sm text-gray-600">
+                      {' '}
+                      • {room.prize_stages[claim.stage_index]?.label} • sau{' '}
+                      {claim.called_count} số
+                      {!claim.is_valid && ' • kinh hụt'}
+                    </span>
+                  </span>
+                  <span className="text-sm font-semibold">
+                    {CLAIM_STATUS_LABELS[claim.status]}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {room.draw_commitment && (
+          <DrawAudit
+            commitment={room.draw_commitment}
+            seed={room.draw_seed}
+            calledNumbers={calledNumbers}
+          />
+        )}
+      </div>
+
+      <Footer />
+    </Background>
+  );
+}
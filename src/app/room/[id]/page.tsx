@@ -1,15 +1,46 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { getOrCreateGuestId } from '@/utils/guest';
-import { TetLotoTicket } from '@/components/loto/tet-loto-ticket';
+import {
+  getGuestName,
+  getOrCreateGuestId,
+  saveGuestName
+} from '@/utils/guest';
+import { clearRoomPin, getRoomPin, saveRoomPin } from '@/utils/room-pin';
+import { playerHeaders, savePlayerToken } from '@/utils/player-session';
+import {
+  getDaubMode,
+  saveDaubMode,
+  type DaubMode
+} from '@/utils/daub-settings';
+import { PlayerTicketPanel } from '@/components/loto/player-ticket-panel';
 import { WinCelebration } from '@/components/loto/win-celebration';
-import { checkWinCondition } from '@/lib/loto/win-detection';
+import { GameOverSummary } from '@/components/loto/game-over-summary';
+import { DrawAudit } from '@/components/loto/draw-audit';
+import { AnnouncerControls } from '@/components/loto/announcer-controls';
+import { PlayerNameForm } from '@/components/loto/player-name-form';
+import { RoomPinForm } from '@/components/loto/room-pin-form';
+import { WaitingBanner } from '@/components/loto/waiting-banner';
+import {
+  checkWinCondition,
+  getWaitingNumbers,
+  type WinPattern
+} from '@/lib/loto/win-detection';
+import { getCurrentStage } from '@/lib/loto/prize-ladder';
+import { useRoomEvents } from '@/hooks/use-room-events';
+import { useAnnouncer } from '@/hooks/use-announcer';
+import { usePresenceHeartbeat } from '@/hooks/use-presence-heartbeat';
+import { useTicketMarks } from '@/hooks/use-ticket-marks';
 import { Header } from '@/components/layout/header';
 import { Background } from '@/components/layout/background';
 import { Footer } from '@/components/layout/footer';
-import type { Room, LotoTicket } from '@/types/loto';
+import type {
+  PublicRoom,
+  LotoTicket,
+  RoomEventPayloads,
+  WinClaim
+} from '@/types/loto';
 
 export default function PlayerRoomPage({
   params
@@ -18,23 +49,63 @@ export default function PlayerRoomPage({
 }) {
   const router = useRouter();
   const [roomId, setRoomId] = useState<string>('');
-  const [room, setRoom] = useState<Room | null>(null);
-  const [ticket, setTicket] = useState<LotoTicket | null>(null);
+  const [room, setRoom] = useState<PublicRoom | null>(null);
+  const [tickets, setTickets] = useState<LotoTicket[]>([]);
   const [calledNumbers, setCalledNumbers] = useState<number[]>([]);
-  const [manuallyMarkedNumbers, setManuallyMarkedNumbers] = useState<
-    Set<number>
-  >(new Set());
+  // Manual marking, or called numbers marked automatically
+  const [daubMode, setDaubMode] = useState<DaubMode>(getDaubMode);
+  // Marks (saved across refreshes), claims and claim state are kept per
+  // ticket ID
+  const { marks, restoreMarks, toggleMark, unmarkNumber } =
+    useTicketMarks(roomId);
+  const [claims, setClaims] = useState<Record<string, WinClaim>>({});
+  const [celebration, setCelebration] = useState<{
+    ticketId: string;
+    pattern: WinPattern;
+  } | null>(null);
+  const [claimingTicketId, setClaimingTicketId] = useState<string | null>(
+    null
+  );
+  const [claimErrors, setClaimErrors] = useState<Record<string, string>>({});
+  const [isAddingTicket, setIsAddingTicket] = useState(false);
+  const [addTicketError, setAddTicketError] = useState('');
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState('');
+  // Name entry before joining; a fresh attempt re-runs the join
+  const [joinName, setJoinName] = useState<string | null>(null);
+  const [joinAttempt, setJoinAttempt] = useState(0);
+  const [isNamePromptOpen, setIsNamePromptOpen] = useState(false);
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [isSavingName, setIsSavingName] = useState(false);
+  const [nameError, setNameError] = useState('');
+  // Private rooms ask new players for the PIN
+  const [isPinPromptOpen, setIsPinPromptOpen] = useState(false);
+  const [pinError, setPinError] = useState('');
+  const announcer = useAnnouncer();
+  const [voidNotice, setVoidNotice] = useState<
+    RoomEventPayloads['number_voided'] | null
+  >(null);
+  // Set when the host kicks or bans this player
+  const [removal, setRemoval] = useState<
+    RoomEventPayloads['player_removed'] | null
+  >(null);
 
-  // Unwrap params
+  // Unwrap params, then join with the saved name or ask for one
   useEffect(() => {
-    params.then((p) => setRoomId(p.id));
+    params.then((p) => {
+      const savedName = getGuestName();
+      setRoomId(p.id);
+      if (savedName) {
+        setJoinName(savedName);
+      } else {
+        setIsNamePromptOpen(true);
+      }
+    });
   }, [params]);
 
-  // Join room and get ticket
+  // Join room and get tickets
   useEffect(() => {
-    if (!roomId) return;
+    if (!roomId || !joinName) return;
 
     const joinRoom = async () => {
       try {
@@ -45,18 +116,41 @@ export default function PlayerRoomPage({
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             playerId: guest_id,
-            playerName: `Player ${guest_id.substring(0, 8)}`
+            playerName: joinName,
+            pin: getRoomPin(roomId) ?? undefined
           })
         });
 
         if (!response.ok) {
           const data = await response.json();
+
+          if (data.pin_required) {
+            // No error on the first prompt, only for a wrong PIN
+            setPinError(response.status === 401 ? '' : data.error);
+            setIsPinPromptOpen(true);
+            setIsLoading(false);
+            return;
+          }
+
           throw new Error(data.error || 'Failed to join room');
         }
 
+        clearRoomPin(roomId);
         const data = await response.json();
+
+        if (data.player_token) {
+          savePlayerToken(roomId, data.player_token);
+        }
+
+        // Late arrivals in a room closed to new players only watch
+        if (data.is_spectator) {
+          router.replace(`/room/${roomId}/watch`);
+          return;
+        }
+
         setRoom(data.room);
-        setTicket(data.ticket);
+        setTickets(data.tickets);
+        restoreMarks(data.tickets, data.marks);
         setIsLoading(false);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to join room');
@@ -65,51 +159,393 @@ export default function PlayerRoomPage({
     };
 
     joinRoom();
+  }, [roomId, joinName, joinAttempt, router, restoreMarks]);
+
+  const handleChooseJoinName = (name: string) => {
+    saveGuestName(name);
+    setJoinName(name);
+    setJoinAttempt((prev) => prev + 1);
+    setIsNamePromptOpen(false);
+    setError('');
+    setIsLoading(true);
+  };
+
+  // Kicked (not banned) players may come back with a new ticket
+  const handleRejoin = () => {
+    setRemoval(null);
+    setJoinAttempt((prev) => prev + 1);
+    setIsLoading(true);
+  };
+
+  const handleSubmitPin = (pin: string) => {
+    saveRoomPin(roomId, pin);
+    setJoinAttempt((prev) => prev + 1);
+    setIsPinPromptOpen(false);
+    setPinError('');
+    setIsLoading(true);
+  };
+
+  // Players can change their name until the game starts
+  const handleRename = async (name: string) => {
+    setIsSavingName(true);
+    setNameError('');
+
+    try {
+      const { guest_id } = getOrCreateGuestId();
+
+      const response = await fetch(
+        `/api/rooms/${roomId}/players/${guest_id}`,
+        {
+          method: 'PATCH',
+          headers: playerHeaders(roomId),
+          body: JSON.stringify({ name })
+        }
+      );
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to change name');
+      }
+
+      const data = await response.json();
+      setTickets(data.tickets);
+      saveGuestName(name);
+      setIsRenaming(false);
+    } catch (err) {
+      setNameError(
+        err instanceof Error ? err.message : 'Failed to change name'
+      );
+    } finally {
+      setIsSavingName(false);
+    }
+  };
+
+  // Fetch called numbers and room progress
+  const fetchNumbers = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/rooms/${roomId}/numbers`);
+      if (response.ok) {
+        const data = await response.json();
+        setCalledNumbers(data.numbers);
+      }
+    } catch (err) {
+      console.error('Failed to fetch numbers:', err);
+    }
+  }, [roomId]);
+
+  // The prize stage moves on as winners are confirmed
+  const fetchRoom = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/rooms/${roomId}`);
+      if (response.ok) {
+        const data = await response.json();
+        setRoom(data.room);
+      }
+    } catch (err) {
+      console.error('Failed to fetch room:', err);
+    }
   }, [roomId]);
 
-  // Fetch called numbers periodically
   useEffect(() => {
     if (!roomId) return;
+    fetchNumbers();
+  }, [roomId, fetchNumbers]);
 
-    const fetchNumbers = async () => {
-      try {
-        const response = await fetch(`/api/rooms/${roomId}/numbers`);
-        if (response.ok) {
-          const data = await response.json();
-          setCalledNumbers(data.numbers);
+  // Live updates (falls back to polling every 10s)
+  useRoomEvents(roomId, {
+    onEvent: (event) => {
+      switch (event.type) {
+        case 'number_called':
+          if (!calledNumbers.includes(event.payload.number)) {
+            announcer.announce(event.payload.number);
+          }
+          setCalledNumbers((prev) =>
+            prev.includes(event.payload.number)
+              ? prev
+              : [...prev, event.payload.number]
+          );
+          break;
+        case 'number_voided':
+          // The host retracted a number: drop it and any mark on it
+          setCalledNumbers((prev) =>
+            prev.filter((n) => n !== event.payload.number)
+          );
+          unmarkNumber(tickets, event.payload.number);
+          setVoidNotice(event.payload);
+          break;
+        case 'room_status_changed':
+        case 'stage_advanced':
+          fetchRoom();
+          break;
+        case 'claim_resolved': {
+          const resolved = event.payload.claim;
+          setClaims((prev) =>
+            prev[resolved.ticket_id]?.id === resolved.id
+              ? { ...prev, [resolved.ticket_id]: resolved }
+              : prev
+          );
+          break;
         }
-      } catch (err) {
-        console.error('Failed to fetch numbers:', err);
+        case 'player_removed':
+          // A removal only concerns tickets held before it; a kicked player
+          // who joined again has a new, valid ticket
+          if (
+            event.payload.player_id === tickets[0]?.player_id &&
+            tickets.every(
+              (ticket) =>
+                Date.parse(ticket.created_at) < Date.parse(event.created_at)
+            )
+          ) {
+            setRemoval(event.payload);
+          }
+          break;
       }
-    };
+    },
+    onPoll: () => {
+      fetchNumbers();
+      fetchRoom();
+    },
+    pollInterval: 10000
+  });
 
-    fetchNumbers();
-    const interval = setInterval(fetchNumbers, 10000);
-    return () => clearInterval(interval);
-  }, [roomId]);
+  const calledSet = new Set(calledNumbers);
+
+  // In auto mode a ticket's marks are simply its called numbers
+  const getMarks = (ticket: LotoTicket) =>
+    daubMode === 'auto'
+      ? new Set(
+          ticket.ticket_data
+            .flat()
+            .filter(
+              (cell): cell is number => cell !== null && calledSet.has(cell)
+            )
+        )
+      : marks[ticket.id]?.marked_numbers ?? new Set<number>();
+
+  const handleDaubModeChange = (mode: DaubMode) => {
+    setDaubMode(mode);
+    saveDaubMode(mode);
+  };
 
-  // Count marked numbers in ticket
-  const markedCount = manuallyMarkedNumbers.size;
+  // Show as online on the host's roster once joined
+  usePresenceHeartbeat(
+    roomId,
+    removal ? null : tickets[0]?.player_id ?? null
+  );
+
+  // Count marked numbers across all tickets
+  const markedCount = tickets.reduce(
+    (sum, ticket) => sum + getMarks(ticket).size,
+    0
+  );
   const totalNumbers =
-    ticket?.ticket_data.flat().filter((cell) => cell !== null).length || 15;
-
-  // Handle manual marking
-  const handleNumberClick = (number: number) => {
-    setManuallyMarkedNumbers((prev) => {
-      const newSet = new Set(prev);
-      if (newSet.has(number)) {
-        newSet.delete(number);
-      } else {
-        newSet.add(number);
+    tickets.reduce(
+      (sum, ticket) =>
+        sum + ticket.ticket_data.flat().filter((cell) => cell !== null).length,
+      0
+    ) || 15;
+
+  // Win detection using manually marked numbers against the current prize
+  const currentStage = room ? getCurrentStage(room) : null;
+  const getWinResult = (ticket: LotoTicket) =>
+    currentStage
+      ? checkWinCondition(ticket.ticket_data, getMarks(ticket), [
+          currentStage.win_type
+        ])
+      : { hasWon: false, completedRows: [], matches: [] };
+
+  // Numbers that would complete a row or full house on any ticket ("chờ"),
+  // from the called numbers so it never depends on missed marks
+  const waitingNumbers =
+    currentStage && room?.status !== 'completed'
+      ? [
+          ...new Set(
+            tickets.flatMap((ticket) =>
+              getWaitingNumbers(ticket.ticket_data, calledSet)
+            )
+          )
+        ].sort((a, b) => a - b)
+      : [];
+
+  // A verified claim only counts for the stage it was made in
+  const getClaimForStage = (ticketId: string) => {
+    const claim = claims[ticketId];
+    return claim && claim.stage_index === room?.current_stage ? claim : null;
+  };
+
+  // Submit a "Kinh!" claim - the server verifies it against called numbers
+  const handleClaimWin = async (ticket: LotoTicket) => {
+    const winResult = getWinResult(ticket);
+
+    setClaimingTicketId(ticket.id);
+    setClaimErrors((prev) => ({ ...prev, [ticket.id]: '' }));
+
+    try {
+      const { guest_id } = getOrCreateGuestId();
+
+      const response = await fetch(`/api/rooms/${roomId}/claims`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ticketId: ticket.id,
+          playerId: guest_id
+        })
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to submit claim');
       }
-      return newSet;
-    });
+
+      const data = await response.json();
+      setClaims((prev) => ({ ...prev, [ticket.id]: data.claim }));
+      if (data.claim.is_valid && winResult.pattern) {
+        setCelebration({ ticketId: ticket.id, pattern: winResult.pattern });
+      }
+    } catch (err) {
+      setClaimErrors((prev) => ({
+        ...prev,
+        [ticket.id]:
+          err instanceof Error ? err.message : 'Failed to submit claim'
+      }));
+    } finally {
+      setClaimingTicketId(null);
+    }
+  };
+
+  // Extra tickets can be bought until the first number is called
+  const handleAddTicket = async () => {
+    setIsAddingTicket(true);
+    setAddTicketError('');
+
+    try {
+      const { guest_id } = getOrCreateGuestId();
+
+      const response = await fetch(`/api/rooms/${roomId}/tickets`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ playerId: guest_id })
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to add ticket');
+      }
+
+      const data = await response.json();
+      setTickets(data.tickets);
+    } catch (err) {
+      setAddTicketError(
+        err instanceof Error ? err.message : 'Failed to add ticket'
+      );
+    } finally {
+      setIsAddingTicket(false);
+    }
   };
 
-  // Win detection using manually marked numbers
-  const winResult = ticket
-    ? checkWinCondition(ticket.ticket_data, manuallyMarkedNumbers)
-    : { hasWon: false, completedRows: [] };
+  const celebratedClaim = celebration ? claims[celebration.ticketId] : null;
+
+  if (isNamePromptOpen) {
+    return (
+      <Background>
+        <div className="flex min-h-screen items-center justify-center p-4">
+          <div className="w-full max-w-md bg-white/95 backdrop-blur rounded-xl p-8 shadow-xl border-4 border-red-600 space-y-4">
+            <h1 className="text-2xl font-bold text-red-700 text-center">
+              👤 Bạn tên gì?
+            </h1>
+            <p className="text-center text-gray-700">
+              Tên sẽ hiện cho chủ phòng và người chơi khác.
+            </p>
+            <PlayerNameForm
+              initialName={joinName ?? ''}
+              onSubmit={handleChooseJoinName}
+              error={error}
+              submitLabel="Vào phòng"
+            />
+            <button
+              onClick={() => router.push(`/room/${roomId}/watch`)}
+              className="w-full text-sm font-semibold text-red-700 hover:text-red-900"
+            >
+              👀 Chỉ xem, không chơi
+            </button>
+            <button
+              onClick={() => router.push('/')}
+              className="w-full text-sm font-semibold text-red-700 hover:text-red-900"
+            >
+              🏠 Về trang chủ
+            </button>
+          </div>
+        </div>
+      </Background>
+    );
+  }
+
+  if (isPinPromptOpen) {
+    return (
+      <Background>
+        <div className="flex min-h-screen items-center justify-center p-4">
+          <div className="w-full max-w-md bg-white/95 backdrop-blur rounded-xl p-8 shadow-xl border-4 border-red-600 space-y-4">
+            <h1 className="text-2xl font-bold text-red-700 text-center">
+              🔒 Phòng riêng
+            </h1>
+            <p className="text-center text-gray-700">
+              Nhập mã PIN chủ phòng đưa cho bạn để vào phòng.
+            </p>
+            <RoomPinForm
+              onSubmit={handleSubmitPin}
+              error={pinError}
+              submitLabel="Vào phòng"
+            />
+            <button
+              onClick={() => router.push('/')}
+              className="w-full text-sm font-semibold text-red-700 hover:text-red-900"
+            >
+              🏠 Về trang chủ
+            </button>
+          </div>
+        </div>
+      </Background>
+    );
+  }
+
+  if (removal) {
+    return (
+      <Background>
+        <div className="flex min-h-screen items-center justify-center p-4">
+          <div className="text-center bg-white/90 backdrop-blur rounded-xl p-8 shadow-xl border-4 border-red-600">
+            <h1 className="text-3xl font-bold text-red-600 mb-4">
+              {removal.banned
+                ? '⛔ Bạn đã bị cấm vào phòng'
+                : '🚪 Bạn đã bị mời ra khỏi phòng'}
+            </h1>
+            <p className="text-gray-700 mb-2 text-lg">
+              Vé của bạn không còn hiệu lực trong ván này.
+            </p>
+            {removal.reason && (
+              <p className="text-gray-600 mb-2 italic">
+                Lý do: {removal.reason}
+              </p>
+            )}
+            {/* A kick only takes the tickets; the player may join again */}
+            {!removal.banned && (
+              <button
+                onClick={handleRejoin}
+                className="mt-4 mr-2 rounded-lg border-2 border-red-600 px-8 py-3 text-red-700 font-bold hover:bg-red-50 transition-all"
+              >
+                🔄 Tham gia lại với vé mới
+              </button>
+            )}
+            <button
+              onClick={() => router.push('/')}
+              className="mt-4 rounded-lg bg-gradient-to-r from-red-600 to-red-700 px-8 py-3 text-white font-bold hover:from-red-700 hover:to-red-800 shadow-lg transform hover:-translate-y-0.5 transition-all"
+            >
+              🏠 Về trang chủ
+            </button>
+          </div>
+        </div>
+      </Background>
+    );
+  }
 
   if (isLoading) {
     return (
@@ -124,7 +560,7 @@ export default function PlayerRoomPage({
     );
   }
 
-  if (error || !room || !ticket) {
+  if (error || !room || tickets.length === 0) {
     return (
       <Background>
         <div className="flex min-h-screen items-center justify-center p-4">
@@ -133,6 +569,15 @@ export default function PlayerRoomPage({
             <p className="text-gray-700 mb-6 text-lg">
               {error || 'Không tìm thấy phòng'}
             </p>
+            {/* New players may be turned away for their name */}
+            {tickets.length === 0 && joinName && (
+              <button
+                onClick={() => setIsNamePromptOpen(true)}
+                className="mb-3 block w-full rounded-lg bg-yellow-400 px-8 py-3 font-bold text-red-900 hover:bg-yellow-500 shadow-lg"
+              >
+                ✏️ Chọn tên khác
+              </button>
+            )}
             <button
               onClick={() => router.push('/')}
               className="rounded-lg bg-gradient-to-r from-red-600 to-red-700 px-8 py-3 text-white font-bold hover:from-red-700 hover:to-red-800 shadow-lg transform hover:-translate-y-0.5 transition-all"
@@ -167,6 +612,58 @@ export default function PlayerRoomPage({
       />
 
       <div className="mx-auto max-w-4xl space-y-6 p-4">
+        {/* Retracted Number */}
+        {voidNotice && (
+          <div className="flex items-start justify-between gap-4 rounded-lg bg-yellow-100 border-2 border-yellow-400 p-4 text-yellow-900">
+            <div>
+              <p className="font-bold">
+                ↩️ Số {voidNotice.number} đã bị chủ phòng rút lại
+              </p>
+              {voidNotice.reason && (
+                <p className="text-sm">Lý do: {voidNotice.reason}</p>
+              )}
+            </div>
+            <button
+              onClick={() => setVoidNotice(null)}
+              className="font-bold text-yellow-900 hover:text-yellow-700"
+              aria-label="Đóng"
+            >
+              ✕
+            </button>
+          </div>
+        )}
+
+        {/* Display Name */}
+        <div className="rounded-xl bg-white/95 backdrop-blur p-4 shadow-xl border-2 border-red-300">
+          {isRenaming ? (
+            <PlayerNameForm
+              initialName={tickets[0].player_name ?? ''}
+              onSubmit={handleRename}
+              isSubmitting={isSavingName}
+              error={nameError}
+              submitLabel="Lưu tên"
+              onCancel={() => {
+                setIsRenaming(false);
+                setNameError('');
+              }}
+            />
+          ) : (
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-semibold text-red-800">
+                👤 {tickets[0].player_name || 'Người chơi'}
+              </span>
+              {room.status === 'waiting' && (
+                <button
+                  onClick={() => setIsRenaming(true)}
+                  className="rounded-lg bg-red-50 px-3 py-1 text-sm font-bold text-red-700 hover:bg-red-100"
+                >
+                  ✏️ Đổi tên
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+
         {/* Progress */}
         <div className="rounded-xl bg-white/95 backdrop-blur p-6 shadow-xl border-2 border-red-300">
           <div className="flex items-center justify-between mb-2">
@@ -185,11 +682,49 @@ export default function PlayerRoomPage({
           </div>
         </div>
 
-        {/* Win Celebration */}
-        {winResult.hasWon && winResult.pattern && (
-          <WinCelebration pattern={winResult.pattern} />
+        {/* Game Over */}
+        {room.status === 'completed' && (
+          <GameOverSummary
+            room={room}
+            calledCount={calledNumbers.length}
+            playerId={tickets[0].player_id}
+            historyHref={`/room/${roomId}/history`}
+          />
         )}
 
+        {/* Commit-reveal draw */}
+        {room.draw_commitment && (
+          <DrawAudit
+            commitment={room.draw_commitment}
+            seed={room.draw_seed}
+            calledNumbers={calledNumbers}
+          />
+        )}
+
+        {/* Current Prize */}
+        {room.status !== 'completed' && (
+          <div className="rounded-xl bg-white/95 backdrop-blur p-4 shadow-xl border-2 border-yellow-400 text-center">
+            <p className="text-sm font-medium text-red-800">Giải đang chơi</p>
+            <p className="text-2xl font-bold text-red-600">
+              {currentStage
+                ? `${room.current_stage + 1}/${room.prize_stages.length} • ${
+                    currentStage.label
+                  }`
+                : 'Tất cả giải đã có chủ'}
+            </p>
+            {currentStage?.prize && (
+              <p className="text-sm text-gray-700">{currentStage.prize}</p>
+            )}
+          </div>
+        )}
+
+        {/* Win Celebration (only once the server has verified the claim) */}
+        {celebration &&
+          celebratedClaim?.is_valid &&
+          celebratedClaim.status !== 'rejected' && (
+            <WinCelebration pattern={celebration.pattern} />
+          )}
+
         {/* Last Called Number */}
         {calledNumbers.length > 0 && (
           <div className="rounded-xl bg-gradient-to-br from-red-600 via-red-500 to-yellow-600 p-8 shadow-xl text-center border-4 border-yellow-400">
@@ -202,16 +737,99 @@ export default function PlayerRoomPage({
           </div>
         )}
 
-        {/* Ticket Display */}
-        <div className="rounded-lg md:p-0 p-0">
-          {/* Use TetLotoTicket Component */}
-          <TetLotoTicket
-            data={ticket.ticket_data}
-            markedNumbers={manuallyMarkedNumbers}
-            onCellClick={handleNumberClick}
+        {/* Near-win alert */}
+        <WaitingBanner numbers={waitingNumbers} />
+
+        {/* Voice Announcer */}
+        {room.status !== 'completed' && (
+          <AnnouncerControls
+            settings={announcer.settings}
+            onChange={announcer.updateSettings}
+            voices={announcer.voices}
+            onTest={announcer.announce}
           />
+        )}
+
+        {/* Daub Mode */}
+        {room.status !== 'completed' && (
+          <div className="flex items-center justify-between gap-2 rounded-xl bg-white/95 backdrop-blur p-4 shadow-xl border-2 border-red-300">
+            <span className="font-semibold text-red-800">Đánh dấu số</span>
+            <div className="flex gap-2">
+              {(
+                [
+                  ['manual', '✋ Tự đánh'],
+                  ['auto', '🤖 Tự động']
+                ] as const
+              ).map(([mode, label]) => (
+                <button
+                  key={mode}
+                  onClick={() => handleDaubModeChange(mode)}
+                  className={`rounded-lg px-3 py-1 text-sm font-bold transition-all ${
+                    daubMode === mode
+                      ? 'bg-red-600 text-white shadow'
+                      : 'bg-red-50 text-red-700 hover:bg-red-100'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Ticket Display - each ticket is marked and claimed on its own */}
+        <div className="space-y-8">
+          {tickets.map((ticket, index) => {
+            const claimForStage = getClaimForStage(ticket.id);
+
+            return (
+              <PlayerTicketPanel
+                key={ticket.id}
+                ticket={ticket}
+                index={index}
+                markedNumbers={getMarks(ticket)}
+                onCellClick={
+                  daubMode === 'manual'
+                    ? (number) => toggleMark(ticket, number)
+                    : undefined
+                }
+                calledNumbers={calledSet}
+                showHints={daubMode === 'manual'}
+                canClaim={
+                  getWinResult(ticket).hasWon &&
+                  room.status !== 'completed' &&
+                  !claimForStage?.is_valid
+                }
+                claim={claimForStage}
+                onClaim={() => handleClaimWin(ticket)}
+                isClaiming={claimingTicketId === ticket.id}
+                claimError={claimErrors[ticket.id]}
+              />
+            );
+          })}
         </div>
 
+        {/* Extra Tickets */}
+        {room.status === 'waiting' &&
+          tickets.length < room.max_tickets_per_player && (
+            <div className="text-center space-y-2">
+              <button
+                onClick={handleAddTicket}
+                disabled={isAddingTicket}
+                className="rounded-lg bg-gradient-to-r from-yellow-400 to-yellow-500 px-6 py-3 font-bold text-red-900 hover:from-yellow-500 hover:to-yellow-600 disabled:from-gray-300 disabled:to-gray-400 shadow-lg transition-all"
+              >
+                {isAddingTicket
+                  ? 'Đang lấy vé...'
+                  : `➕ Thêm vé (${tickets.length}/${room.max_tickets_per_player})`}
+              </button>
+              {addTicketError && (
+                <p className="text-sm text-red-800 font-medium">
+                  ⚠️ {addTicketError}
+                </p>
+              )}
+            </div>
+          )}
+
         {/* Called Numbers History */}
         <div className="rounded-xl bg-white/95 backdrop-blur p-6 shadow-xl border-2 border-red-300">
           <h2 className="text-xl font-semibold text-red-800 mb-4 flex items-center gap-2">
@@ -0,0 +1,229 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Header } from '@/components/layout/header';
+import { Background } from '@/components/layout/background';
+import { Footer } from '@/components/layout/footer';
+import { NumberBoard } from '@/components/loto/number-board';
+import { PrizeLadder } from '@/components/loto/prize-ladder';
+import { GameOverSummary } from '@/components/loto/game-over-summary';
+import { useRoomEvents } from '@/hooks/use-room-events';
+import { getCurrentStage } from '@/lib/loto/prize-ladder';
+import type { PublicRoom, WinClaim } from '@/types/loto';
+
+/**
+ * Spectator view: follows a room without joining it (no ticket is created)
+ */
+export default function WatchRoomPage({
+  params
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const router = useRouter();
+  const [roomId, setRoomId] = useState<string>('');
+  const [room, setRoom] = useState<PublicRoom | null>(null);
+  const [calledNumbers, setCalledNumbers] = useState<number[]>([]);
+  const [winners, setWinners] = useState<WinClaim[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  // Unwrap params
+  useEffect(() => {
+    params.then((p) => setRoomId(p.id));
+  }, [params]);
+
+  const fetchRoom = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/rooms/${roomId}`);
+      if (!response.ok) throw new Error('Room not found');
+
+      const data = await response.json();
+      setRoom(data.room);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load room');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [roomId]);
+
+  const fetchNumbers = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/rooms/${roomId}/numbers`);
+      if (response.ok) {
+        const data = await response.json();
+        setCalledNumbers(data.numbers);
+      }
+    } catch (err) {
+      console.error('Failed to fetch numbers:', err);
+    }
+  }, [roomId]);
+
+  // Accepted claims are the winners of each prize stage
+  const fetchWinners = useCallback(async () => {
+    try {
+      const response = await fetch(
+        `/api/rooms/${roomId}/claims?status=accepted`
+      );
+      if (response.ok) {
+        const data = await response.json();
+        setWinners(data.claims);
+      }
+    } catch (err) {
+      console.error('Failed to fetch winners:', err);
+    }
+  }, [roomId]);
+
+  useEffect(() => {
+    if (!roomId) return;
+    fetchRoom();
+    fetchNumbers();
+    fetchWinners();
+  }, [roomId, fetchRoom, fetchNumbers, fetchWinners]);
+
+  // Live updates (falls back to polling every 5s)
+  useRoomEvents(roomId, {
+    onEvent: (event) => {
+      switch (event.type) {
+        case 'number_called':
+          setCalledNumbers((prev) =>
+            prev.includes(event.payload.number)
+              ? prev
+              : [...prev, event.payload.number]
+          );
+          break;
+        case 'number_voided':
+          setCalledNumbers((prev) =>
+            prev.filter((n) => n !== event.payload.number)
+          );
+          break;
+        case 'room_status_changed':
+        case 'stage_advanced':
+          fetchRoom();
+          break;
+        case 'claim_resolved':
+          fetchWinners();
+          break;
+      }
+    },
+    onPoll: () => {
+      fetchNumbers();
+      fetchRoom();
+      fetchWinners();
+    }
+  });
+
+  if (isLoading) {
+    return (
+      <Background>
+        <div className="flex min-h-screen items-center justify-center">
+          <div className="text-center bg-white/90 backdrop-blur rounded-xl p-8 shadow-xl border-4 border-red-600">
+            <div className="mb-4 h-12 w-12 animate-spin rounded-full border-4 border-red-600 border-t-transparent mx-auto" />
+            <p className="text-red-800 font-semibold">Đang tải phòng...</p>
+          </div>
+        </div>
+      </Background>
+    );
+  }
+
+  if (error || !room) {
+    return (
+      <Background>
+        <div className="flex min-h-screen items-center justify-center p-4">
+          <div className="text-center bg-white/90 backdrop-blur rounded-xl p-8 shadow-xl border-4 border-red-600">
+            <h1 className="text-3xl font-bold text-red-600 mb-4">❌ Lỗi</h1>
+            <p className="text-gray-700 mb-6 text-lg">
+              {error || 'Không tìm thấy phòng'}
+            </p>
+            <button
+              onClick={() => router.push('/')}
+              className="rounded-lg bg-gradient-to-r from-red-600 to-red-700 px-8 py-3 text-white font-bold hover:from-red-700 hover:to-red-800 shadow-lg transform hover:-translate-y-0.5 transition-all"
+            >
+              🏠 Về trang chủ
+            </button>
+          </div>
+        </div>
+      </Background>
+    );
+  }
+
+  const currentStage = getCurrentStage(room);
+  const lastNumber = calledNumbers[calledNumbers.length - 1];
+
+  return (
+    <Background>
+      <Header
+        title={`Phòng: ${room.room_code}`}
+        subtitle="👀 Đang xem"
+        action={
+          <button
+            onClick={() => router.push('/')}
+            className="rounded-lg bg-white/90 backdrop-blur px-4 py-2 text-red-700 font-semibold hover:bg-white border-2 border-white/50 shadow-lg transition-all"
+          >
+            Rời phòng
+          </button>
+        }
+      />
+
+      <div className="mx-auto max-w-5xl space-y-6 p-4">
+        {/* Game Over */}
+        {room.status === 'completed' && (
+          <GameOverSummary
+            room={room}
+            calledCount={calledNumbers.length}
+            historyHref={`/room/${roomId}/history`}
+          />
+        )}
+
+        {/* Last Called Number */}
+        <div className="rounded-xl bg-gradient-to-br from-red-600 via-red-500 to-yellow-600 p-8 shadow-xl text-center border-4 border-yellow-400">
+          <p className="text-yellow-100 text-lg mb-2 font-semibold">
+            🎯 Số vừa gọi
+          </p>
+          <div className="text-9xl font-bold text-white drop-shadow-lg">
+            {lastNumber ?? '--'}
+          </div>
+          <p className="mt-2 text-yellow-100 font-medium">
+            Đã gọi {calledNumbers.length}/90 số
+          </p>
+        </div>
+
+        {/* Current Prize */}
+        {room.status !== 'completed' && (
+          <div className="rounded-xl bg-white/95 backdrop-blur p-4 shadow-xl border-2 border-yellow-400 text-center">
+            <p className="text-sm font-medium text-red-800">Giải đang chơi</p>
+            <p className="text-2xl font-bold text-red-600">
+              {room.status === 'waiting'
+                ? 'Đang chờ bắt đầu'
+                : currentStage
+                ? `${room.current_stage + 1}/${room.prize_stages.length} • ${
+                    currentStage.label
+                  }`
+                : 'Tất cả giải đã có chủ'}
+            </p>
+            {currentStage?.prize && (
+              <p className="text-sm text-gray-700">{currentStage.prize}</p>
+            )}
+          </div>
+        )}
+
+        {/* Called Board */}
+        <div className="rounded-xl bg-white/95 backdrop-blur p-6 shadow-xl border-2 border-red-300">
+          <h2 className="text-xl font-semibold text-red-800 mb-4 flex items-center gap-2">
+            <span>📋</span> Bảng số
+          </h2>
+          <NumberBoard calledNumbers={calledNumbers} />
+        </div>
+
+        {/* Prizes and Winners */}
+        <PrizeLadder
+          stages={room.prize_stages}
+          currentStage={room.current_stage}
+          winners={winners}
+        />
+      </div>
+
+      <Footer />
+    </Background>
+  );
+}
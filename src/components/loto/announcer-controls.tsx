@@ -0,0 +1,169 @@
+import { useState } from 'react';
+import { cn } from '@/lib/utils';
+import { DEFAULT_RHYMES } from '@/lib/loto/rhyme-bank';
+import type { AnnouncerSettings } from '@/utils/announcer-settings';
+
+interface AnnouncerControlsProps {
+  /** Current announcer settings */
+  settings: AnnouncerSettings;
+  /** Persists a settings change */
+  onChange: (changes: Partial<AnnouncerSettings>) => void;
+  /** Voices offered by the browser */
+  voices: SpeechSynthesisVoice[];
+  /** Plays a sample announcement */
+  onTest: (number: number) => void;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * AnnouncerControls Component
+ *
+ * Collapsible settings for the voice announcer: mute, volume, voice, rhymes
+ * and a small editor for custom rhymes.
+ */
+export function AnnouncerControls({
+  settings,
+  onChange,
+  voices,
+  onTest,
+  className
+}: AnnouncerControlsProps) {
+  const [rhymeNumber, setRhymeNumber] = useState(1);
+  const [rhymeText, setRhymeText] = useState('');
+
+  // Vietnamese voices first
+  const sortedVoices = [...voices].sort(
+    (a, b) =>
+      Number(b.lang.toLowerCase().startsWith('vi')) -
+      Number(a.lang.toLowerCase().startsWith('vi'))
+  );
+
+  const currentRhymes =
+    settings.customRhymes[rhymeNumber] ?? DEFAULT_RHYMES[rhymeNumber] ?? [];
+
+  const handleSaveRhyme = () => {
+    const lines = rhymeText
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean);
+    const customRhymes = { ...settings.customRhymes };
+
+    if (lines.length > 0) {
+      customRhymes[rhymeNumber] = lines;
+    } else {
+      delete customRhymes[rhymeNumber];
+    }
+
+    onChange({ customRhymes });
+    setRhymeText('');
+  };
+
+  return (
+    <details
+      className={cn(
+        'rounded-xl bg-white/95 backdrop-blur p-4 shadow-xl border-2 border-red-300',
+        className
+      )}
+    >
+      <summary className="cursor-pointer font-semibold text-red-800 flex items-center justify-between gap-2">
+        <span>🔊 Giọng rao số</span>
+        <button
+          onClick={(e) => {
+            e.preventDefault();
+            onChange({ muted: !settings.muted });
+          }}
+          className="rounded-lg bg-red-50 px-3 py-1 text-sm font-bold text-red-700 hover:bg-red-100"
+        >
+          {settings.muted ? '🔇 Đang tắt tiếng' : '🔊 Đang bật'}
+        </button>
+      </summary>
+
+      <div className="mt-4 space-y-4 text-sm text-gray-700">
+        <label className="block">
+          Âm lượng {Math.round(settings.volume * 100)}%
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.1}
+            value={settings.volume}
+            onChange={(e) => onChange({ volume: Number(e.target.value) })}
+            className="mt-1 w-full accent-red-600"
+          />
+        </label>
+
+        <label className="block">
+          Giọng đọc
+          <select
+            value={settings.voiceURI ?? ''}
+            onChange={(e) => onChange({ voiceURI: e.target.value || null })}
+            className="mt-1 w-full rounded-lg border-2 border-red-200 px-3 py-2"
+          >
+            <option value="">Tự chọn giọng tiếng Việt</option>
+            {sortedVoices.map((voice) => (
+              <option key={voice.voiceURI} value={voice.voiceURI}>
+                {voice.name} ({voice.lang})
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.withRhyme}
+            onChange={(e) => onChange({ withRhyme: e.target.checked })}
+            className="accent-red-600"
+          />
+          Rao câu vè trước khi đọc số
+        </label>
+
+        <fieldset className="rounded-lg border-2 border-red-100 p-3">
+          <legend className="px-1 font-medium text-red-800">Câu rao riêng</legend>
+          <div className="flex items-center gap-2 mb-2">
+            <span>Số</span>
+            <input
+              type="number"
+              min={1}
+              max={90}
+              value={rhymeNumber}
+              onChange={(e) =>
+                setRhymeNumber(
+                  Math.min(90, Math.max(1, Number(e.target.value) || 1))
+                )
+              }
+              className="w-20 rounded-lg border-2 border-red-200 px-2 py-1"
+            />
+            <button
+              onClick={() => onTest(rhymeNumber)}
+              className="ml-auto rounded-lg bg-red-600 px-3 py-1 font-semibold text-white hover:bg-red-700"
+            >
+              ▶️ Nghe thử
+            </button>
+          </div>
+          {currentRhymes.length > 0 && (
+            <ul className="mb-2 list-disc pl-5 italic text-gray-600">
+              {currentRhymes.map((rhyme) => (
+                <li key={rhyme}>{rhyme}</li>
+              ))}
+            </ul>
+          )}
+          <textarea
+            value={rhymeText}
+            onChange={(e) => setRhymeText(e.target.value)}
+            placeholder="Mỗi dòng một câu rao. Để trống rồi lưu để dùng lại câu mặc định."
+            rows={2}
+            className="w-full rounded-lg border-2 border-red-200 px-3 py-2"
+          />
+          <button
+            onClick={handleSaveRhyme}
+            className="mt-2 rounded-lg bg-yellow-400 px-3 py-1 font-semibold text-red-900 hover:bg-yellow-500"
+          >
+            Lưu câu rao
+          </button>
+        </fieldset>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,122 @@
+import { useEffect, useState } from 'react';
+import { cn } from '@/lib/utils';
+import {
+  AUTO_CALL_MAX_INTERVAL,
+  AUTO_CALL_MIN_INTERVAL,
+  getAutoCallDelay
+} from '@/lib/loto/auto-call';
+import type { AutoCallState, AutoCallStatus } from '@/types/loto';
+
+interface AutoCallPanelProps {
+  /** The room's automatic caller */
+  state: AutoCallState;
+  /** Change handler (status and interval in seconds) */
+  onChange: (status: AutoCallStatus, interval: number) => void;
+  /** Disables the controls while a request is in flight */
+  isUpdating?: boolean;
+  /** Disables starting (e.g. once every prize is won) */
+  disabled?: boolean;
+  /** Shown when the caller was paused by a win claim */
+  pausedForClaim?: boolean;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * AutoCallPanel Component
+ *
+ * Host controls for the automatic caller: interval, start / pause / resume /
+ * stop, and a countdown to the next call.
+ */
+export function AutoCallPanel({
+  state,
+  onChange,
+  isUpdating = false,
+  disabled = false,
+  pausedForClaim = false,
+  className
+}: AutoCallPanelProps) {
+  const [intervalSeconds, setIntervalSeconds] = useState(state.interval);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick the countdown while running
+  useEffect(() => {
+    if (state.status !== 'running') return;
+
+    const timer = window.setInterval(() => setNow(Date.now()), 250);
+    return () => window.clearInterval(timer);
+  }, [state.status]);
+
+  const delay = getAutoCallDelay(state, now);
+  const isRunning = state.status === 'running';
+
+  return (
+    <div
+      className={cn(
+        'rounded-xl bg-white/95 backdrop-blur p-6 shadow-xl border-2 border-red-300',
+        className
+      )}
+    >
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <h2 className="text-xl font-semibold text-red-800 flex items-center gap-2">
+          <span>⏱️</span> Tự động gọi số
+        </h2>
+        <span className="text-sm font-semibold text-gray-600">
+          {isRunning
+            ? `Số tiếp theo sau ${Math.ceil((delay ?? 0) / 1000)}s`
+            : state.status === 'paused'
+            ? 'Đang tạm dừng'
+            : 'Đang tắt'}
+        </span>
+      </div>
+
+      {pausedForClaim && state.status === 'paused' && (
+        <p className="mb-4 rounded-lg bg-yellow-100 border-2 border-yellow-400 p-3 text-sm font-semibold text-yellow-900">
+          📣 Tạm dừng vì có người kinh. Kiểm tra vé rồi tiếp tục.
+        </p>
+      )}
+
+      <label className="block text-sm font-medium text-gray-700 mb-4">
+        Mỗi {intervalSeconds} giây
+        <input
+          type="range"
+          min={AUTO_CALL_MIN_INTERVAL}
+          max={AUTO_CALL_MAX_INTERVAL}
+          value={intervalSeconds}
+          onChange={(e) => setIntervalSeconds(Number(e.target.value))}
+          onMouseUp={() => isRunning && onChange('running', intervalSeconds)}
+          onTouchEnd={() => isRunning && onChange('running', intervalSeconds)}
+          disabled={isUpdating}
+          className="mt-2 w-full accent-red-600"
+        />
+      </label>
+
+      <div className="grid grid-cols-2 gap-3">
+        {isRunning ? (
+          <button
+            onClick={() => onChange('paused', intervalSeconds)}
+            disabled={isUpdating}
+            className="rounded-lg bg-yellow-500 px-4 py-3 font-bold text-red-900 hover:bg-yellow-600 disabled:bg-gray-400"
+          >
+            ⏸️ Tạm dừng
+          </button>
+        ) : (
+          <button
+            onClick={() => onChange('running', intervalSeconds)}
+            disabled={isUpdating || disabled}
+            className="rounded-lg bg-green-600 px-4 py-3 font-bold text-white hover:bg-green-700 disabled:bg-gray-400"
+          >
+            {state.status === 'paused' ? '▶️ Tiếp tục' : '▶️ Bắt đầu'}
+          </button>
+        )}
+        <button
+          onClick={() => onChange('off', intervalSeconds)}
+          disabled={isUpdating || state.status === 'off'}
+          className="rounded-lg bg-gray-600 px-4 py-3 font-bold text-white hover:bg-gray-700 disabled:bg-gray-400"
+        >
+          ⏹️ Dừng hẳn
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { cn } from '@/lib/utils';
+import { TetLotoTicket } from '@/components/loto/tet-loto-ticket';
+import { getWinPattern } from '@/lib/loto/win-detection';
+import type { WinClaimWithTicket } from '@/types/loto';
+
+interface ClaimReviewCardProps {
+  /** The claim to review, with its ticket */
+  claim: WinClaimWithTicket;
+  /** Numbers called so far in the room */
+  calledNumbers: number[];
+  /** Accept/reject handler (omit for a read-only card) */
+  onResolve?: (claimId: string, status: 'accepted' | 'rejected') => void;
+  /** Disables the action buttons while a request is in flight */
+  isResolving?: boolean;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * ClaimReviewCard Component
+ *
+ * Shows a player's win claim with the server verdict and their ticket,
+ * highlighting the numbers that have actually been called.
+ */
+export function ClaimReviewCard({
+  claim,
+  calledNumbers,
+  onResolve,
+  isResolving = false,
+  className
+}: ClaimReviewCardProps) {
+  return (
+    <div
+      className={cn(
+        'rounded-xl bg-white/95 backdrop-blur p-4 shadow-xl border-4',
+        claim.is_valid ? 'border-green-500' : 'border-gray-400',
+        className
+      )}
+    >
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <div>
+          <p className="text-lg font-bold text-red-800">
+            {claim.player_name || 'Người chơi'}
+          </p>
+          <p className="text-sm text-gray-600">
+            Kinh lúc {new Date(claim.created_at).toLocaleTimeString('vi-VN')}{' '}
+            • sau {claim.called_count} số
+          </p>
+        </div>
+        <span
+          className={cn(
+            'rounded-full px-4 py-1 text-sm font-bold',
+            claim.is_valid
+              ? 'bg-green-100 text-green-800'
+              : 'bg-gray-200 text-gray-700'
+          )}
+        >
+          {claim.is_valid && claim.win_type
+            ? `✅ Kinh ${getWinPattern(claim.win_type)?.label.toLowerCase()}`
+            : '❌ Kinh hụt'}
+        </span>
+      </div>
+
+      <TetLotoTicket
+        data={claim.ticket.ticket_data}
+        markedNumbers={new Set(calledNumbers)}
+      />
+
+      {onResolve && (
+        <div className="mt-4 grid grid-cols-2 gap-3">
+          <button
+            onClick={() => onResolve(claim.id, 'accepted')}
+            disabled={isResolving || !claim.is_valid}
+            className="rounded-lg bg-green-600 px-4 py-3 font-bold text-white hover:bg-green-700 disabled:bg-gray-400"
+          >
+            Xác nhận
+          </button>
+          <button
+            onClick={() => onResolve(claim.id, 'rejected')}
+            disabled={isResolving}
+            className="rounded-lg bg-gray-600 px-4 py-3 font-bold text-white hover:bg-gray-700 disabled:bg-gray-400"
+          >
+            Bỏ qua
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { useEffect, useState } from 'react';
+import { cn } from '@/lib/utils';
+import { verifyDraw, type DrawVerification } from '@/lib/loto/draw';
+
+interface DrawAuditProps {
+  /** SHA-256 of the draw seed, published when the room was created */
+  commitment: string;
+  /** The revealed seed (null until the game ends) */
+  seed: string | null;
+  /** Numbers called in the room, in order */
+  calledNumbers: number[];
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * DrawAudit Component
+ *
+ * Shows a commit-reveal room's draw commitment. Once the seed is revealed,
+ * replays the draw order in the browser and checks it against the called
+ * numbers.
+ */
+export function DrawAudit({
+  commitment,
+  seed,
+  calledNumbers,
+  className
+}: DrawAuditProps) {
+  const [result, setResult] = useState<DrawVerification | null>(null);
+
+  useEffect(() => {
+    if (!seed) return;
+
+    let cancelled = false;
+    verifyDraw(seed, commitment, calledNumbers).then((verification) => {
+      if (!cancelled) setResult(verification);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [seed, commitment, calledNumbers]);
+
+  const isVerified = result?.commitmentMatches && result.orderMatches;
+
+  return (
+    <div
+      className={cn(
+        'rounded-xl bg-white/95 backdrop-blur p-4 shadow-xl border-2 border-red-300 text-sm',
+        className
+      )}
+    >
+      <p className="font-semibold text-red-800 mb-1">🔐 Bốc số minh bạch</p>
+      <p className="text-gray-600 break-all">
+        Mã cam kết: <span className="font-mono">{commitment}</span>
+      </p>
+
+      {!seed ? (
+        <p className="mt-2 text-gray-600 italic">
+          Hạt giống sẽ được công bố khi trò chơi kết thúc.
+        </p>
+      ) : (
+        <>
+          <p className="text-gray-600 break-all">
+            Hạt giống: <span className="font-mono">{seed}</span>
+          </p>
+          <p
+            className={cn(
+              'mt-2 font-bold',
+              !result
+                ? 'text-gray-600'
+                : isVerified
+                ? 'text-green-700'
+                : 'text-red-700'
+            )}
+          >
+            {!result
+              ? 'Đang kiểm tra...'
+              : isVerified
+              ? '✅ Thứ tự bốc số khớp với cam kết'
+              : '❌ Thứ tự bốc số không khớp với cam kết'}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import Link from 'next/link';
+import { cn } from '@/lib/utils';
+import type { PublicRoom } from '@/types/loto';
+
+interface GameOverSummaryProps {
+  /** The completed room */
+  room: PublicRoom;
+  /** How many numbers were called */
+  calledCount: number;
+  /** Highlights the current player's wins */
+  playerId?: string;
+  /** Links to the game's history and replay (e.g. /room/[id]/history) */
+  historyHref?: string;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Formats the time between two ISO timestamps as "12 phút"
+ */
+function formatDuration(start: string | null, end: string | null): string {
+  if (!start || !end) return '--';
+  const minutes = Math.max(
+    1,
+    Math.round((new Date(end).getTime() - new Date(start).getTime()) / 60000)
+  );
+  return `${minutes} phút`;
+}
+
+/**
+ * GameOverSummary Component
+ *
+ * Shown once a room is completed: the winners of each prize stage and a few
+ * game stats.
+ */
+export function GameOverSummary({
+  room,
+  calledCount,
+  playerId,
+  historyHref,
+  className
+}: GameOverSummaryProps) {
+  return (
+    <div
+      className={cn(
+        'rounded-xl bg-white/95 backdrop-blur p-8 shadow-2xl border-4 border-red-600 text-center',
+        className
+      )}
+    >
+      <div className="text-6xl mb-2">🏁</div>
+      <h2 className="text-3xl font-bold text-red-700 mb-6">Trò chơi kết thúc</h2>
+
+      <div className="grid grid-cols-2 gap-4 mb-6">
+        <div className="rounded-lg bg-red-50 p-3">
+          <p className="text-sm text-gray-600">Số đã gọi</p>
+          <p className="text-2xl font-bold text-red-600">{calledCount}/90</p>
+        </div>
+        <div className="rounded-lg bg-yellow-50 p-3">
+          <p className="text-sm text-gray-600">Thời gian</p>
+          <p className="text-2xl font-bold text-red-600">
+            {formatDuration(room.started_at, room.ended_at)}
+          </p>
+        </div>
+      </div>
+
+      <h3 className="text-xl font-semibold text-red-800 mb-3">
+        🏆 Người thắng
+      </h3>
+      <ol className="space-y-2 text-left">
+        {room.prize_stages.map((stage, index) => {
+          const winners = room.final_winners.filter(
+            (w) => w.stage_index === index
+          );
+
+          return (
+            <li key={index} className="rounded-lg bg-yellow-50 p-3">
+              <p className="font-bold text-red-800">{stage.label}</p>
+              {winners.length === 0 ? (
+                <p className="text-sm italic text-gray-500">Không có</p>
+              ) : (
+                <p className="text-sm text-green-800 font-medium">
+                  {winners.map((w) => (
+                    <span
+                      key={w.claim_id}
+                      className={cn(
+                        'mr-2',
+                        w.player_id === playerId && 'font-bold text-red-600'
+                      )}
+                    >
+                      {w.player_name || 'Người chơi'}
+                      {w.player_id === playerId && ' (bạn)'}
+                    </span>
+                  ))}
+                </p>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      {historyHref && (
+        <Link
+          href={historyHref}
+          className="mt-6 inline-block rounded-lg bg-gradient-to-r from-red-600 to-red-700 px-6 py-3 font-bold text-white hover:from-red-700 hover:to-red-800 shadow-lg"
+        >
+          📜 Xem lại ván chơi
+        </Link>
+      )}
+    </div>
+  );
+}
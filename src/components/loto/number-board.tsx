@@ -0,0 +1,63 @@
+import { cn } from '@/lib/utils';
+import { NUMBER_GROUPS } from '@/lib/loto/draw';
+
+interface NumberBoardProps {
+  /** Numbers called so far, in call order */
+  calledNumbers: number[];
+  /** Numbers players are waiting on (highlighted until called) */
+  waitingNumbers?: number[];
+  /** Larger cells for TVs and projectors */
+  size?: 'md' | 'lg';
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * NumberBoard Component
+ *
+ * The full 1-90 board, one row per ten, with called numbers lit up and the
+ * latest call ringed, for viewers following the game. Numbers that would
+ * complete someone's line can be highlighted to build the suspense.
+ */
+export function NumberBoard({
+  calledNumbers,
+  waitingNumbers = [],
+  size = 'md',
+  className
+}: NumberBoardProps) {
+  const called = new Set(calledNumbers);
+  const waiting = new Set(waitingNumbers);
+  const lastNumber = calledNumbers[calledNumbers.length - 1];
+
+  return (
+    <div className={cn(size === 'lg' ? 'space-y-3' : 'space-y-1', className)}>
+      {NUMBER_GROUPS.map((group) => (
+        <div
+          key={group.range}
+          className={cn(
+            'grid grid-cols-10',
+            size === 'lg' ? 'gap-3' : 'gap-1 sm:gap-2'
+          )}
+        >
+          {group.numbers.map((num) => (
+            <span
+              key={num}
+              className={cn(
+                'flex aspect-square items-center justify-center rounded-lg font-bold shadow-md transition-all',
+                size === 'lg' ? 'text-2xl sm:text-4xl' : 'text-sm sm:text-lg',
+                called.has(num)
+                  ? 'bg-gradient-to-br from-red-600 to-red-700 text-white'
+                  : waiting.has(num)
+                  ? 'bg-yellow-300 text-red-800 border-2 border-yellow-500 animate-pulse'
+                  : 'bg-white/80 text-red-300 border border-red-200',
+                num === lastNumber && 'ring-4 ring-yellow-400 scale-110'
+              )}
+            >
+              {num}
+            </span>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
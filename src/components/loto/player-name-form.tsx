@@ -0,0 +1,95 @@
+import { useState } from 'react';
+import { cn } from '@/lib/utils';
+import {
+  normalizePlayerName,
+  PLAYER_NAME_MAX_LENGTH,
+  validatePlayerName
+} from '@/lib/loto/player-name';
+
+interface PlayerNameFormProps {
+  /** Name to start with */
+  initialName?: string;
+  /** Called with the tidied name once it passes validation */
+  onSubmit: (name: string) => void;
+  /** Disables the form while a request is in flight */
+  isSubmitting?: boolean;
+  /** Error from the server (e.g. name already taken) */
+  error?: string;
+  /** Submit button text */
+  submitLabel: string;
+  /** Shows a cancel button when provided */
+  onCancel?: () => void;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * PlayerNameForm Component
+ *
+ * Display name input with the same checks the server runs, so most
+ * mistakes are caught before a request is made.
+ */
+export function PlayerNameForm({
+  initialName = '',
+  onSubmit,
+  isSubmitting = false,
+  error,
+  submitLabel,
+  onCancel,
+  className
+}: PlayerNameFormProps) {
+  const [name, setName] = useState(initialName);
+  const [localError, setLocalError] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validationError = validatePlayerName(name);
+    if (validationError) {
+      setLocalError(validationError);
+      return;
+    }
+
+    setLocalError('');
+    onSubmit(normalizePlayerName(name));
+  };
+
+  const shownError = localError || error;
+
+  return (
+    <form onSubmit={handleSubmit} className={cn('space-y-3', className)}>
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Tên của bạn"
+        maxLength={PLAYER_NAME_MAX_LENGTH + 10}
+        disabled={isSubmitting}
+        autoFocus
+        className="w-full rounded-lg border-2 border-red-300 px-4 py-3 text-lg text-red-900 focus:border-red-500 focus:outline-none"
+      />
+      {shownError && (
+        <p className="text-sm text-red-700 font-medium">⚠️ {shownError}</p>
+      )}
+      <div className="flex gap-2">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={isSubmitting}
+            className="flex-1 rounded-lg bg-gray-200 px-4 py-3 font-semibold text-gray-700 hover:bg-gray-300"
+          >
+            Hủy
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={isSubmitting || name.trim().length === 0}
+          className="flex-1 rounded-lg bg-gradient-to-r from-red-600 to-red-700 px-4 py-3 font-bold text-white hover:from-red-700 hover:to-red-800 disabled:from-gray-400 disabled:to-gray-500 shadow-lg transition-all"
+        >
+          {isSubmitting ? 'Đang lưu...' : submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+}
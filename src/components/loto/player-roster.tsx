@@ -0,0 +1,124 @@
+import { cn } from '@/lib/utils';
+import type { RosterPlayer } from '@/types/loto';
+
+interface PlayerRosterProps {
+  /** Players in join order */
+  players: RosterPlayer[];
+  /** The room's player limit, if any */
+  maxPlayers?: number | null;
+  /** Show how close each player is to the current prize */
+  showProgress?: boolean;
+  /** Removes a player (shows a kick button when set) */
+  onKick?: (player: RosterPlayer) => void;
+  /** Removes and bans a player (shows a ban button when set) */
+  onBan?: (player: RosterPlayer) => void;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+const formatJoinTime = (joinedAt: string) =>
+  new Date(joinedAt).toLocaleTimeString('vi-VN', {
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+/**
+ * PlayerRoster Component
+ *
+ * The host's list of players: presence, join time, ticket count and how
+ * many called numbers each is short of the current prize. With `onKick` /
+ * `onBan` it also offers moderation buttons.
+ */
+export function PlayerRoster({
+  players,
+  maxPlayers = null,
+  showProgress = false,
+  onKick,
+  onBan,
+  className
+}: PlayerRosterProps) {
+  const onlineCount = players.filter((player) => player.is_online).length;
+
+  return (
+    <div
+      className={cn(
+        'rounded-xl bg-white/95 backdrop-blur p-6 shadow-xl border-2 border-red-300',
+        className
+      )}
+    >
+      <h2 className="text-xl font-semibold text-red-800 mb-4 flex items-center justify-between gap-2">
+        <span>
+          👥 Người chơi ({players.length}
+          {maxPlayers !== null && `/${maxPlayers}`})
+        </span>
+        <span className="text-sm font-medium text-green-700">
+          {onlineCount} đang online
+        </span>
+      </h2>
+
+      {players.length === 0 ? (
+        <p className="text-gray-500 italic">Chưa có ai tham gia</p>
+      ) : (
+        <ul className="divide-y divide-red-100">
+          {players.map((player) => (
+            <li
+              key={player.player_id}
+              className="flex items-center justify-between gap-3 py-2"
+            >
+              <div className="flex items-center gap-2 min-w-0">
+                <span
+                  className={cn(
+                    'h-2.5 w-2.5 shrink-0 rounded-full',
+                    player.is_online ? 'bg-green-500' : 'bg-gray-300'
+                  )}
+                  title={player.is_online ? 'Đang online' : 'Offline'}
+                />
+                <span className="truncate font-semibold text-red-900">
+                  {player.player_name || 'Người chơi'}
+                </span>
+              </div>
+              <div className="flex shrink-0 items-center gap-3 text-sm text-gray-600">
+                <span>{formatJoinTime(player.joined_at)}</span>
+                <span>🎫 {player.ticket_count}</span>
+                {showProgress && player.numbers_away !== null && (
+                  <span
+                    className={cn(
+                      'rounded-full px-2 py-0.5 font-bold',
+                      player.numbers_away === 0
+                        ? 'bg-yellow-400 text-red-900'
+                        : player.numbers_away <= 2
+                        ? 'bg-red-100 text-red-700'
+                        : 'bg-gray-100 text-gray-700'
+                    )}
+                  >
+                    {player.numbers_away === 0
+                      ? 'Đủ giải!'
+                      : `Còn ${player.numbers_away} số`}
+                  </span>
+                )}
+                {onKick && (
+                  <button
+                    onClick={() => onKick(player)}
+                    className="rounded-lg bg-red-50 px-2 py-1 font-semibold text-red-700 hover:bg-red-100"
+                    title="Mời ra khỏi phòng"
+                  >
+                    🚪
+                  </button>
+                )}
+                {onBan && (
+                  <button
+                    onClick={() => onBan(player)}
+                    className="rounded-lg bg-red-600 px-2 py-1 font-semibold text-white hover:bg-red-700"
+                    title="Cấm vào phòng"
+                  >
+                    ⛔
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
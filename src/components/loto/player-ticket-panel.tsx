@@ -0,0 +1,113 @@
+import { cn } from '@/lib/utils';
+import { TetLotoTicket } from '@/components/loto/tet-loto-ticket';
+import type { LotoTicket, WinClaim } from '@/types/loto';
+
+interface PlayerTicketPanelProps {
+  /** The ticket */
+  ticket: LotoTicket;
+  /** Position among the player's tickets (0-based) */
+  index: number;
+  /** Numbers the player marked on this ticket */
+  markedNumbers: Set<number>;
+  /** Toggles a mark (omit when numbers are marked automatically) */
+  onCellClick?: (number: number) => void;
+  /** Numbers called so far */
+  calledNumbers: Set<number>;
+  /** Highlight called numbers the player hasn't marked yet */
+  showHints?: boolean;
+  /** Whether the marks complete the current prize */
+  canClaim: boolean;
+  /** The ticket's claim for the current stage, if any */
+  claim: WinClaim | null;
+  /** Submits a "Kinh!" claim for this ticket */
+  onClaim: () => void;
+  /** Disables the claim button while a request is in flight */
+  isClaiming?: boolean;
+  /** Error from the last claim attempt */
+  claimError?: string;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * PlayerTicketPanel Component
+ *
+ * One of a player's tickets with its own marks and "Kinh!" button. Marks on
+ * numbers that were never called are flagged so they can be undone.
+ */
+export function PlayerTicketPanel({
+  ticket,
+  index,
+  markedNumbers,
+  onCellClick,
+  calledNumbers,
+  showHints = false,
+  canClaim,
+  claim,
+  onClaim,
+  isClaiming = false,
+  claimError,
+  className
+}: PlayerTicketPanelProps) {
+  const totalNumbers = ticket.ticket_data
+    .flat()
+    .filter((cell) => cell !== null).length;
+  const uncalledMarks = [...markedNumbers]
+    .filter((number) => !calledNumbers.has(number))
+    .sort((a, b) => a - b);
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <div className="flex items-center justify-between rounded-lg bg-white/90 px-4 py-2 shadow border-2 border-red-200">
+        <span className="font-bold text-red-800">🎫 Vé {index + 1}</span>
+        <span className="text-sm font-semibold text-red-600">
+          {markedNumbers.size} / {totalNumbers}
+        </span>
+      </div>
+
+      <TetLotoTicket
+        data={ticket.ticket_data}
+        markedNumbers={markedNumbers}
+        onCellClick={onCellClick}
+        calledNumbers={showHints ? calledNumbers : undefined}
+      />
+
+      {uncalledMarks.length > 0 && (
+        <p className="rounded-lg bg-red-100 px-4 py-2 text-center text-sm font-semibold text-red-800 border-2 border-red-300">
+          ⚠️ Số {uncalledMarks.join(', ')} chưa được gọi - hãy bỏ đánh dấu
+        </p>
+      )}
+
+      {claim?.is_valid && claim.status === 'pending' && (
+        <p className="text-center font-semibold text-red-800">
+          Đã xác minh vé! Đang chờ chủ phòng xác nhận...
+        </p>
+      )}
+      {claim?.is_valid && claim.status === 'accepted' && (
+        <p className="text-center font-semibold text-green-800">
+          🏆 Chủ phòng đã xác nhận giải cho vé này!
+        </p>
+      )}
+
+      {canClaim && (
+        <div className="rounded-xl bg-white/95 backdrop-blur p-4 shadow-xl border-4 border-yellow-400 text-center space-y-3">
+          {claim && !claim.is_valid && (
+            <p className="text-red-700 font-semibold">
+              ❌ Kinh hụt! Một số bạn đánh dấu chưa được gọi.
+            </p>
+          )}
+          <button
+            onClick={onClaim}
+            disabled={isClaiming}
+            className="w-full rounded-lg bg-gradient-to-r from-red-600 to-red-700 px-8 py-4 text-3xl font-bold text-white hover:from-red-700 hover:to-red-800 disabled:from-gray-400 disabled:to-gray-500 shadow-2xl transform hover:scale-105 transition-all"
+          >
+            {isClaiming ? 'Đang kiểm tra...' : '📣 Kinh!'}
+          </button>
+          {claimError && (
+            <p className="text-sm text-red-800 font-medium">⚠️ {claimError}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { cn } from '@/lib/utils';
+import type { PrizeStage, WinClaim } from '@/types/loto';
+
+interface PrizeLadderProps {
+  /** Ordered prize stages of the room */
+  stages: PrizeStage[];
+  /** Index of the stage being played (= stages.length once all are won) */
+  currentStage: number;
+  /** Accepted claims, matched to stages by stage_index */
+  winners?: WinClaim[];
+  /** Advance handler (host only, omit for a read-only ladder) */
+  onAdvance?: () => void;
+  /** Disables the advance button while a request is in flight */
+  isAdvancing?: boolean;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * PrizeLadder Component
+ *
+ * Lists a room's prize stages in order, marking the stage being played and
+ * the winners of each stage.
+ */
+export function PrizeLadder({
+  stages,
+  currentStage,
+  winners = [],
+  onAdvance,
+  isAdvancing = false,
+  className
+}: PrizeLadderProps) {
+  const currentWinners = winners.filter((w) => w.stage_index === currentStage);
+
+  return (
+    <div
+      className={cn(
+        'rounded-xl bg-white/95 backdrop-blur p-6 shadow-xl border-2 border-red-300',
+        className
+      )}
+    >
+      <h2 className="text-xl font-semibold text-red-800 mb-4 flex items-center gap-2">
+        <span>🧧</span> Các giải thưởng
+      </h2>
+      <ol className="space-y-3">
+        {stages.map((stage, index) => {
+          const stageWinners = winners.filter((w) => w.stage_index === index);
+          const isCurrent = index === currentStage;
+          const isDone = index < currentStage;
+
+          return (
+            <li
+              key={index}
+              className={cn(
+                'rounded-lg p-3 border-2',
+                isCurrent
+                  ? 'border-yellow-400 bg-yellow-50'
+                  : isDone
+                  ? 'border-green-300 bg-green-50'
+                  : 'border-gray-200 bg-gray-50'
+              )}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-bold text-red-800">
+                  {index + 1}. {stage.label}
+                </span>
+                <span className="text-sm font-semibold text-gray-600">
+                  {isCurrent ? '🎯 Đang chơi' : isDone ? '✅ Đã trao' : ''}
+                </span>
+              </div>
+              {stage.prize && (
+                <p className="text-sm text-gray-700">{stage.prize}</p>
+              )}
+              {stageWinners.length > 0 && (
+                <p className="mt-1 text-sm text-green-800 font-medium">
+                  🏆{' '}
+                  {stageWinners
+                    .map((w) => w.player_name || 'Người chơi')
+                    .join(', ')}
+                </p>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      {onAdvance && currentStage < stages.length - 1 && (
+        <button
+          onClick={onAdvance}
+          disabled={isAdvancing || currentWinners.length === 0}
+          className="mt-4 w-full rounded-lg bg-gradient-to-r from-yellow-400 to-yellow-500 px-4 py-3 font-bold text-red-900 hover:from-yellow-500 hover:to-yellow-600 disabled:from-gray-300 disabled:to-gray-400 disabled:text-gray-600 shadow-lg transition-all"
+        >
+          {currentWinners.length === 0
+            ? 'Chưa có người thắng giải này'
+            : 'Sang giải tiếp theo ➜'}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import { cn } from '@/lib/utils';
+import { ROOM_CAPACITY_OPTIONS } from '@/lib/loto/room-capacity';
+import type { RoomSettingsInput } from '@/types/loto';
+
+interface RoomAccessSettingsProps {
+  /** Current player limit (null = no limit) */
+  maxPlayers: number | null;
+  /** Whether new players may join once the game is active */
+  allowLateJoin: boolean;
+  /** Saves a settings change */
+  onChange: (changes: RoomSettingsInput) => void;
+  /** Disables the controls while a request is in flight */
+  isSaving?: boolean;
+  /** Error from the last change */
+  error?: string;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * RoomAccessSettings Component
+ *
+ * Host controls for the room's player limit and whether late arrivals get a
+ * ticket or only watch.
+ */
+export function RoomAccessSettings({
+  maxPlayers,
+  allowLateJoin,
+  onChange,
+  isSaving = false,
+  error,
+  className
+}: RoomAccessSettingsProps) {
+  return (
+    <div
+      className={cn(
+        'rounded-xl bg-white/95 backdrop-blur p-6 shadow-xl border-2 border-red-300 space-y-3 text-sm text-red-900',
+        className
+      )}
+    >
+      <h2 className="text-xl font-semibold text-red-800">🚪 Vào phòng</h2>
+      <label className="flex items-center justify-between gap-2">
+        Số người chơi tối đa
+        <select
+          value={maxPlayers ?? ''}
+          onChange={(e) =>
+            onChange({
+              max_players: e.target.value ? Number(e.target.value) : null
+            })
+          }
+          disabled={isSaving}
+          className="rounded-lg border-2 border-red-200 bg-white px-2 py-1"
+        >
+          <option value="">Không giới hạn</option>
+          {ROOM_CAPACITY_OPTIONS.map((count) => (
+            <option key={count} value={count}>
+              {count} người
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-start gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={allowLateJoin}
+          onChange={(e) => onChange({ allow_late_join: e.target.checked })}
+          disabled={isSaving}
+          className="mt-0.5 accent-red-600"
+        />
+        <span>
+          Cho vào muộn
+          <span className="block text-xs text-gray-600">
+            Khi tắt, người đến sau khi ván bắt đầu chỉ được xem, không nhận vé
+          </span>
+        </span>
+      </label>
+      {error && <p className="font-medium text-red-700">⚠️ {error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { useState } from 'react';
+import { cn } from '@/lib/utils';
+import { isValidRoomPin } from '@/lib/loto/room-pin';
+
+interface RoomPinFormProps {
+  /** Called with the PIN once it is 4-8 digits */
+  onSubmit: (pin: string) => void;
+  /** Disables the form while a request is in flight */
+  isSubmitting?: boolean;
+  /** Error from the server (e.g. wrong PIN, locked out) */
+  error?: string;
+  /** Submit button text */
+  submitLabel: string;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * RoomPinForm Component
+ *
+ * Numeric PIN input for joining a private room.
+ */
+export function RoomPinForm({
+  onSubmit,
+  isSubmitting = false,
+  error,
+  submitLabel,
+  className
+}: RoomPinFormProps) {
+  const [pin, setPin] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isValidRoomPin(pin)) onSubmit(pin);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className={cn('space-y-3', className)}>
+      <input
+        type="password"
+        inputMode="numeric"
+        autoComplete="off"
+        value={pin}
+        onChange={(e) =>
+          setPin(e.target.value.replace(/\D/g, '').slice(0, 8))
+        }
+        placeholder="Mã PIN"
+        disabled={isSubmitting}
+        autoFocus
+        className="w-full rounded-lg border-2 border-red-300 px-4 py-3 text-center text-2xl font-mono tracking-widest text-red-900 focus:border-red-500 focus:outline-none bg-yellow-50"
+      />
+      {error && <p className="text-sm text-red-700 font-medium">⚠️ {error}</p>}
+      <button
+        type="submit"
+        disabled={isSubmitting || !isValidRoomPin(pin)}
+        className="w-full rounded-lg bg-gradient-to-r from-red-600 to-red-700 px-4 py-3 font-bold text-white hover:from-red-700 hover:to-red-800 disabled:from-gray-400 disabled:to-gray-500 shadow-lg transition-all"
+      >
+        {isSubmitting ? 'Đang kiểm tra...' : submitLabel}
+      </button>
+    </form>
+  );
+}
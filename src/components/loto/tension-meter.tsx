@@ -0,0 +1,78 @@
+import { cn } from '@/lib/utils';
+import type { RosterPlayer } from '@/types/loto';
+
+/** How many of the most awaited numbers are listed */
+const TOP_NUMBERS = 5;
+
+interface TensionMeterProps {
+  /** Players in the room, with the numbers each is waiting on */
+  players: RosterPlayer[];
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * TensionMeter Component
+ *
+ * For the host: how many players are one number away from a row or the full
+ * house ("chờ"), and which numbers most of them are waiting on.
+ */
+export function TensionMeter({ players, className }: TensionMeterProps) {
+  const waitingPlayers = players.filter(
+    (player) => player.waiting_numbers.length > 0
+  );
+  const percentage =
+    players.length > 0
+      ? Math.round((waitingPlayers.length / players.length) * 100)
+      : 0;
+
+  // Players waiting per number, most awaited first
+  const counts = new Map<number, number>();
+  for (const player of waitingPlayers) {
+    for (const number of player.waiting_numbers) {
+      counts.set(number, (counts.get(number) ?? 0) + 1);
+    }
+  }
+  const topNumbers = [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0] - b[0])
+    .slice(0, TOP_NUMBERS);
+
+  return (
+    <div
+      className={cn(
+        'rounded-xl bg-white/95 backdrop-blur p-4 shadow-xl border-2 border-red-300 space-y-3',
+        className
+      )}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-semibold text-red-800">🔥 Độ căng thẳng</span>
+        <span className="text-sm font-bold text-red-700">
+          {waitingPlayers.length > 0
+            ? `${waitingPlayers.length} người đang chờ`
+            : 'Chưa ai chờ'}
+        </span>
+      </div>
+
+      <div className="h-3 overflow-hidden rounded-full bg-red-100">
+        <div
+          className="h-full rounded-full bg-gradient-to-r from-yellow-400 to-red-600 transition-all"
+          style={{ width: `${percentage}%` }}
+        />
+      </div>
+
+      {topNumbers.length > 0 && (
+        <div className="flex flex-wrap gap-2 text-sm">
+          {topNumbers.map(([number, count]) => (
+            <span
+              key={number}
+              className="rounded-lg bg-yellow-100 px-2 py-1 font-semibold text-red-800 border border-yellow-400"
+            >
+              {number}
+              <span className="ml-1 text-xs text-red-600">×{count}</span>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -9,6 +9,8 @@ interface TetLotoTicketProps {
   markedNumbers?: Set<number>;
   /** Click handler for marking numbers */
   onCellClick?: (number: number) => void;
+  /** Called numbers (hints unmarked ones, flags marks never called) */
+  calledNumbers?: Set<number>;
   /** Additional CSS classes */
   className?: string;
 }
@@ -91,12 +93,20 @@ function ApricotBlossom() {
  *   markedNumbers={new Set([1, 23, 45])}
  *   onCellClick={handleMark}
  * />
+ * // with hints against the called numbers
+ * <TetLotoTicket
+ *   data={ticketData}
+ *   markedNumbers={marks}
+ *   calledNumbers={new Set(calledNumbers)}
+ *   onCellClick={handleMark}
+ * />
  * ```
  */
 export function TetLotoTicket({
   data,
   markedNumbers = new Set(),
   onCellClick,
+  calledNumbers,
   className
 }: TetLotoTicketProps) {
   // Validate data structure
@@ -135,6 +145,7 @@ export function TetLotoTicket({
             const isEmpty = cell === null;
             const isMarked = !isEmpty && markedNumbers.has(cell);
             const isClickable = !isEmpty && onCellClick;
+            const isCalled = !isEmpty && calledNumbers?.has(cell);
 
             return (
               <div
@@ -142,7 +153,9 @@ export function TetLotoTicket({
                 className={cn(
                   styles.cell,
                   isEmpty ? styles.empty : styles.hasNumber,
-                  isMarked && styles.marked
+                  isMarked && styles.marked,
+                  calledNumbers && isCalled && !isMarked && styles.hint,
+                  calledNumbers && isMarked && !isCalled && styles.wrongMark
                 )}
                 onClick={() => !isEmpty && onCellClick?.(cell)}
                 role={isClickable ? 'button' : undefined}
@@ -152,6 +165,8 @@ export function TetLotoTicket({
                     ? 'Ô trống'
                     : isMarked
                     ? `Số ${cell} - đã đánh dấu`
+                    : isCalled
+                    ? `Số ${cell} - đã gọi`
                     : `Số ${cell}`
                 }
               >
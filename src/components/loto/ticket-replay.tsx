@@ -0,0 +1,188 @@
+import { useEffect, useState } from 'react';
+import { cn } from '@/lib/utils';
+import { TetLotoTicket } from '@/components/loto/tet-loto-ticket';
+import type { LotoTicket, PrizeStage, WinClaim } from '@/types/loto';
+
+/** Delay between calls while the replay plays (ms) */
+const REPLAY_STEP_INTERVAL = 1200;
+
+interface TicketReplayProps {
+  /** Tickets that can be replayed */
+  tickets: LotoTicket[];
+  /** Numbers called in the game, in call order (voided calls left out) */
+  calledNumbers: number[];
+  /** The game's claims (accepted ones are shown as they happen) */
+  claims: WinClaim[];
+  /** The room's prize ladder */
+  stages: PrizeStage[];
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * TicketReplay Component
+ *
+ * Steps through a finished game call by call, marking the chosen ticket as
+ * the numbers come in. Plays on its own or one call at a time, and shows
+ * the prizes the ticket won along the way.
+ */
+export function TicketReplay({
+  tickets,
+  calledNumbers,
+  claims,
+  stages,
+  className
+}: TicketReplayProps) {
+  const [ticketId, setTicketId] = useState(tickets[0]?.id ?? '');
+  const [step, setStep] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  const isAtEnd = step >= calledNumbers.length;
+  const playing = isPlaying && !isAtEnd;
+
+  useEffect(() => {
+    if (!playing) return;
+
+    const timer = setInterval(
+      () => setStep((prev) => Math.min(prev + 1, calledNumbers.length)),
+      REPLAY_STEP_INTERVAL
+    );
+    return () => clearInterval(timer);
+  }, [playing, calledNumbers.length]);
+
+  const ticket = tickets.find((t) => t.id === ticketId);
+
+  if (!ticket) {
+    return null;
+  }
+
+  const marked = new Set(calledNumbers.slice(0, step));
+  const lastNumber = step > 0 ? calledNumbers[step - 1] : null;
+
+  // Prizes this ticket had won by this point of the game
+  const wins = claims.filter(
+    (claim) =>
+      claim.ticket_id === ticket.id &&
+      claim.status === 'accepted' &&
+      claim.called_count <= step
+  );
+
+  // Manual steps pause the replay
+  const goTo = (nextStep: number) => {
+    setIsPlaying(false);
+    setStep(Math.max(0, Math.min(nextStep, calledNumbers.length)));
+  };
+
+  const handlePlay = () => {
+    if (playing) {
+      setIsPlaying(false);
+      return;
+    }
+
+    if (isAtEnd) setStep(0);
+    setIsPlaying(true);
+  };
+
+  const controlClass =
+    'rounded-lg bg-red-50 px-3 py-2 font-bold text-red-700 hover:bg-red-100 disabled:opacity-40';
+
+  return (
+    <div
+      className={cn(
+        'rounded-xl bg-white/95 backdrop-blur p-6 shadow-xl border-2 border-red-300 space-y-4',
+        className
+      )}
+    >
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-xl font-semibold text-red-800">🎬 Xem lại vé</h2>
+        <select
+          value={ticket.id}
+          onChange={(e) => {
+            setTicketId(e.target.value);
+            goTo(0);
+          }}
+          className="rounded-lg border-2 border-red-200 px-3 py-2 text-sm"
+        >
+          {tickets.map((t) => {
+            const own = tickets.filter((o) => o.player_id === t.player_id);
+
+            return (
+              <option key={t.id} value={t.id}>
+                {t.player_name || 'Người chơi'}
+                {own.length > 1 && ` • Vé ${own.indexOf(t) + 1}`}
+              </option>
+            );
+          })}
+        </select>
+      </div>
+
+      <p className="text-center font-semibold text-red-800">
+        Lượt {step}/{calledNumbers.length}
+        {lastNumber !== null && ` • Số ${lastNumber}`}
+      </p>
+
+      <TetLotoTicket data={ticket.ticket_data} markedNumbers={marked} />
+
+      {wins.length > 0 && (
+        <p className="text-center font-semibold text-green-800">
+          🏆{' '}
+          {wins
+            .map((claim) => stages[claim.stage_index]?.label ?? 'Giải')
+            .join(', ')}
+        </p>
+      )}
+
+      <input
+        type="range"
+        min={0}
+        max={calledNumbers.length}
+        value={step}
+        onChange={(e) => goTo(Number(e.target.value))}
+        className="w-full accent-red-600"
+        aria-label="Lượt gọi số"
+      />
+
+      <div className="flex justify-center gap-2">
+        <button
+          onClick={() => goTo(0)}
+          disabled={step === 0}
+          className={controlClass}
+          aria-label="Về đầu"
+        >
+          ⏮
+        </button>
+        <button
+          onClick={() => goTo(step - 1)}
+          disabled={step === 0}
+          className={controlClass}
+          aria-label="Lượt trước"
+        >
+          ◀
+        </button>
+        <button
+          onClick={handlePlay}
+          disabled={calledNumbers.length === 0}
+          className="rounded-lg bg-red-600 px-5 py-2 font-bold text-white hover:bg-red-700 disabled:bg-gray-400"
+        >
+          {playing ? '⏸ Dừng' : '▶️ Phát'}
+        </button>
+        <button
+          onClick={() => goTo(step + 1)}
+          disabled={isAtEnd}
+          className={controlClass}
+          aria-label="Lượt sau"
+        >
+          ▶
+        </button>
+        <button
+          onClick={() => goTo(calledNumbers.length)}
+          disabled={isAtEnd}
+          className={controlClass}
+          aria-label="Về cuối"
+        >
+          ⏭
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { cn } from '@/lib/utils';
+
+interface WaitingBannerProps {
+  /** Numbers that would complete a row or the full house, ascending */
+  numbers: number[];
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * WaitingBanner Component
+ *
+ * The player's "chờ" alert: shown while one of their tickets is a single
+ * number away from a row or the full house. Renders nothing otherwise.
+ */
+export function WaitingBanner({ numbers, className }: WaitingBannerProps) {
+  if (numbers.length === 0) return null;
+
+  return (
+    <div
+      role="status"
+      className={cn(
+        'rounded-xl bg-gradient-to-r from-yellow-400 to-yellow-500 p-4 text-center shadow-xl border-4 border-red-600 animate-pulse',
+        className
+      )}
+    >
+      <p className="text-sm font-semibold text-red-800">⏳ Sắp kinh rồi!</p>
+      <p className="text-2xl font-bold text-red-900">
+        {numbers.length === 1
+          ? `Đang chờ số ${numbers[0]}`
+          : `Đang chờ: ${numbers.join(', ')}`}
+      </p>
+    </div>
+  );
+}
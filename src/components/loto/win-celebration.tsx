@@ -39,6 +39,34 @@ const patternConfig: Record<
     bgGradient: 'from-pink-400 to-pink-600',
     textColor: 'text-white'
   },
+  'two-lines': {
+    emoji: '🎇',
+    title: 'Kênh rồi bro ơi!',
+    subtitle: 'Bạn đã hoàn thành hai hàng!',
+    bgGradient: 'from-indigo-400 to-indigo-600',
+    textColor: 'text-white'
+  },
+  'four-corners': {
+    emoji: '🧧',
+    title: 'Kênh rồi bro ơi!',
+    subtitle: 'Bạn đã đánh đủ bốn góc!',
+    bgGradient: 'from-red-400 to-red-600',
+    textColor: 'text-white'
+  },
+  'outer-columns': {
+    emoji: '🏮',
+    title: 'Kênh rồi bro ơi!',
+    subtitle: 'Bạn đã hoàn thành cột đầu và cột cuối!',
+    bgGradient: 'from-emerald-400 to-emerald-600',
+    textColor: 'text-white'
+  },
+  diagonal: {
+    emoji: '✨',
+    title: 'Kênh rồi bro ơi!',
+    subtitle: 'Bạn đã đánh đủ hình chữ X!',
+    bgGradient: 'from-teal-400 to-teal-600',
+    textColor: 'text-white'
+  },
   'full-house': {
     emoji: '🏆',
     title: 'Kênh rồi bro ơi!',
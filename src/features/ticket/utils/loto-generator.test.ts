@@ -0,0 +1,164 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  COLUMN_RANGES,
+  STRIP_SIZE,
+  generateLotoStrip,
+  generateLotoStripFromSeed,
+  generateLotoTicketFromSeed,
+  isValidStrip,
+  regenerateTicket,
+  serializeTicket,
+  verifyTicketSeed,
+  type TicketGrid
+} from '@/features/ticket/utils/loto-generator';
+import { createSeededRandom } from '@/features/ticket/utils/seeded-random';
+
+const SEEDS = ['strip-1', 'strip-2', 'strip-3', 'strip-4', 'strip-5'];
+
+const numbersOf = (grids: TicketGrid[]) =>
+  grids.flat(2).filter((cell): cell is number => cell !== null);
+
+describe('generateLotoStrip', () => {
+  for (const seed of SEEDS) {
+    describe(`seed ${seed}`, () => {
+      const strip = generateLotoStrip(createSeededRandom(seed));
+
+      it('deals 6 tickets', () => {
+        assert.equal(strip.length, STRIP_SIZE);
+      });
+
+      it('uses each of 1-90 exactly once', () => {
+        const numbers = numbersOf(strip).sort((a, b) => a - b);
+
+        assert.deepEqual(numbers, Array.from({ length: 90 }, (_, i) => i + 1));
+      });
+
+      it('fills every column with its whole range', () => {
+        COLUMN_RANGES.forEach(([min, max], col) => {
+          const column = strip.flatMap((grid) =>
+            grid.map((row) => row[col]).filter((cell) => cell !== null)
+          ) as number[];
+
+          assert.equal(column.length, max - min + 1, `column ${col}`);
+          assert.ok(
+            column.every((n) => n >= min && n <= max),
+            `column ${col} out of range`
+          );
+        });
+      });
+
+      it('gives every ticket 1-3 numbers per column, sorted', () => {
+        for (const grid of strip) {
+          COLUMN_RANGES.forEach((_, col) => {
+            const column = grid
+              .map((row) => row[col])
+              .filter((cell) => cell !== null) as number[];
+
+            assert.ok(column.length >= 1 && column.length <= 3);
+            assert.deepEqual(column, [...column].sort((a, b) => a - b));
+          });
+        }
+      });
+
+      it('puts 5 numbers in every row', () => {
+        for (const grid of strip) {
+          assert.equal(grid.length, 3);
+          for (const row of grid) {
+            assert.equal(row.length, 9);
+            assert.equal(row.filter((cell) => cell !== null).length, 5);
+          }
+        }
+      });
+
+      it('passes isValidStrip', () => {
+        assert.equal(isValidStrip(strip), true);
+      });
+    });
+  }
+
+  it('deals the same strip for the same random sequence', () => {
+    assert.deepEqual(
+      generateLotoStrip(createSeededRandom('same')),
+      generateLotoStrip(createSeededRandom('same'))
+    );
+  });
+});
+
+describe('isValidStrip', () => {
+  const strip = generateLotoStrip(createSeededRandom('strip-1'));
+
+  it('needs exactly 6 tickets', () => {
+    assert.equal(isValidStrip(strip.slice(0, 5)), false);
+    assert.equal(isValidStrip([...strip, strip[0]]), false);
+  });
+
+  it('rejects a number used twice', () => {
+    const copy = strip.map((grid) => grid.map((row) => [...row]));
+    const [first, second] = [copy[0][0], copy[1][0]];
+    const col = first.findIndex(
+      (cell, i) => cell !== null && second[i] !== null
+    );
+    second[col] = first[col];
+
+    assert.equal(isValidStrip(copy), false);
+  });
+});
+
+describe('generateLotoTicketFromSeed', () => {
+  it('deals the same ticket for the same seed', () => {
+    assert.deepEqual(
+      generateLotoTicketFromSeed('abc'),
+      generateLotoTicketFromSeed('abc')
+    );
+  });
+
+  it('deals different tickets for different seeds', () => {
+    const tickets = SEEDS.map((seed) =>
+      serializeTicket(generateLotoTicketFromSeed(seed))
+    );
+
+    assert.equal(new Set(tickets).size, SEEDS.length);
+  });
+
+  it('follows the ticket layout', () => {
+    for (const seed of SEEDS) {
+      const grid = generateLotoTicketFromSeed(seed);
+      const numbers = numbersOf([grid]);
+
+      assert.equal(grid.length, 3);
+      for (const row of grid) {
+        assert.equal(row.length, 9);
+        assert.equal(row.filter((cell) => cell !== null).length, 5);
+      }
+
+      assert.equal(new Set(numbers).size, 15);
+      COLUMN_RANGES.forEach(([min, max], col) => {
+        const column = grid
+          .map((row) => row[col])
+          .filter((cell) => cell !== null) as number[];
+
+        assert.ok(column.length >= 1 && column.length <= 3);
+        assert.ok(column.every((n) => n >= min && n <= max));
+        assert.deepEqual(column, [...column].sort((a, b) => a - b));
+      });
+    }
+  });
+});
+
+describe('verifyTicketSeed', () => {
+  it('matches a ticket against its own seed only', () => {
+    const grid = generateLotoTicketFromSeed('abc');
+
+    assert.equal(verifyTicketSeed(grid, 'abc'), true);
+    assert.equal(verifyTicketSeed(grid, 'abd'), false);
+  });
+
+  it('picks strip tickets out by position', () => {
+    const strip = generateLotoStripFromSeed('abc');
+
+    assert.deepEqual(regenerateTicket('abc', 4), strip[4]);
+    assert.equal(verifyTicketSeed(strip[4], 'abc', 4), true);
+    assert.equal(verifyTicketSeed(strip[4], 'abc', 3), false);
+  });
+});
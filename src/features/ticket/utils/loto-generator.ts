@@ -8,8 +8,19 @@
  * - Each column must have at least 1 number (max 3)
  * - Numbers in each column sorted ascending (top to bottom)
  * - Total 15 unique numbers per ticket
+ *
+ * Tickets can also be generated as a strip of 6 where every number 1-90
+ * appears exactly once across the strip.
+ *
+ * Every generator takes an optional random source; pass a seeded one (or use
+ * the `...FromSeed` helpers) to get the same tickets every time.
  */
 
+import {
+  createSeededRandom,
+  type RandomSource
+} from '@/features/ticket/utils/seeded-random';
+
 export type TicketCell = number | null;
 export type TicketGrid = TicketCell[][];
 
@@ -33,10 +44,17 @@ const ROWS = 3;
 const COLS = 9;
 const NUMBERS_PER_ROW = 5;
 const TOTAL_NUMBERS = 15;
+const MAX_PER_COLUMN = 3;
+
+/**
+ * Number of tickets in a strip (6 × 15 = 90 numbers)
+ */
+export const STRIP_SIZE = 6;
 
 /**
  * Generates a valid 3x9 Loto ticket
  *
+ * @param random - Random source (defaults to `Math.random`)
  * @returns A 3x9 grid where each cell is either a number (1-90) or null (blank)
  *
  * @example
@@ -48,12 +66,14 @@ const TOTAL_NUMBERS = 15;
  * //   [8, null, 29, null, 49, null, 69, null, 88]
  * // ]
  */
-export function generateLotoTicket(): TicketGrid {
+export function generateLotoTicket(
+  random: RandomSource = Math.random
+): TicketGrid {
   const maxAttempts = 100;
 
   for (let attempt = 0; attempt < maxAttempts; attempt++) {
     try {
-      const grid = createTicketGrid();
+      const grid = createTicketGrid(random);
       if (isValidTicket(grid)) {
         return grid;
       }
@@ -66,18 +86,31 @@ export function generateLotoTicket(): TicketGrid {
   throw new Error('Failed to generate valid ticket after maximum attempts');
 }
 
+/**
+ * Regenerates the ticket for a seed
+ *
+ * @param seed - The ticket's seed
+ * @returns The same grid for the same seed
+ *
+ * @example
+ * generateLotoTicketFromSeed('abc'); // deep-equals the next call with 'abc'
+ */
+export function generateLotoTicketFromSeed(seed: string): TicketGrid {
+  return generateLotoTicket(createSeededRandom(seed));
+}
+
 /**
  * Creates a ticket grid following all Loto rules
  */
-function createTicketGrid(): TicketGrid {
+function createTicketGrid(random: RandomSource): TicketGrid {
   // Step 1: Determine how many numbers each column will have (1-3)
-  const columnCounts = distributeNumbersAcrossColumns();
+  const columnCounts = distributeNumbersAcrossColumns(random);
 
   // Step 2: Determine which rows get numbers in each column
-  const columnRowAssignments = assignRowsToColumns(columnCounts);
+  const columnRowAssignments = assignRowsToColumns(columnCounts, random);
 
   // Step 3: Generate random numbers for each column
-  const columnNumbers = generateNumbersForColumns(columnCounts);
+  const columnNumbers = generateNumbersForColumns(columnCounts, random);
 
   // Step 4: Build the grid
   const grid = buildGrid(columnRowAssignments, columnNumbers);
@@ -90,7 +123,7 @@ function createTicketGrid(): TicketGrid {
  * Each column gets 1-3 numbers
  * Returns array of counts [col0_count, col1_count, ..., col8_count]
  */
-function distributeNumbersAcrossColumns(): number[] {
+function distributeNumbersAcrossColumns(random: RandomSource): number[] {
   const counts = new Array(COLS).fill(0);
   let remaining = TOTAL_NUMBERS;
 
@@ -102,7 +135,7 @@ function distributeNumbersAcrossColumns(): number[] {
 
   // Second pass: Distribute remaining 6 numbers (max 2 more per column)
   while (remaining > 0) {
-    const col = Math.floor(Math.random() * COLS);
+    const col = Math.floor(random() * COLS);
     if (counts[col] < 3) {
       counts[col]++;
       remaining--;
@@ -116,7 +149,10 @@ function distributeNumbersAcrossColumns(): number[] {
  * For each column, determine which rows will have numbers
  * Returns a 2D array: columnRowAssignments[col] = [row indices]
  */
-function assignRowsToColumns(columnCounts: number[]): number[][] {
+function assignRowsToColumns(
+  columnCounts: number[],
+  random: RandomSource
+): number[][] {
   const assignments: number[][] = [];
   const rowCounts = [0, 0, 0]; // Track how many numbers each row has
 
@@ -138,7 +174,7 @@ function assignRowsToColumns(columnCounts: number[]): number[][] {
       }
 
       // Pick a random valid row
-      const rowIndex = Math.floor(Math.random() * validRows.length);
+      const rowIndex = Math.floor(random() * validRows.length);
       const selectedRow = validRows[rowIndex];
 
       rows.push(selectedRow);
@@ -166,7 +202,10 @@ function assignRowsToColumns(columnCounts: number[]): number[][] {
  * Generate random unique numbers for each column within its range
  * Returns array where columnNumbers[col] = [sorted numbers]
  */
-function generateNumbersForColumns(columnCounts: number[]): number[][] {
+function generateNumbersForColumns(
+  columnCounts: number[],
+  random: RandomSource
+): number[][] {
   const columnNumbers: number[][] = [];
 
   for (let col = 0; col < COLS; col++) {
@@ -181,7 +220,7 @@ function generateNumbersForColumns(columnCounts: number[]): number[][] {
     );
 
     for (let i = 0; i < count; i++) {
-      const randomIndex = Math.floor(Math.random() * availableNumbers.length);
+      const randomIndex = Math.floor(random() * availableNumbers.length);
       numbers.push(availableNumbers[randomIndex]);
       availableNumbers.splice(randomIndex, 1);
     }
@@ -278,6 +317,225 @@ function isValidTicket(grid: TicketGrid): boolean {
   return true;
 }
 
+/**
+ * Generates a strip of 6 tickets covering every number 1-90 exactly once
+ *
+ * Each ticket follows the same rules as `generateLotoTicket`; together the
+ * 6 tickets use each column's whole range (9 numbers in column 0, 11 in
+ * column 8, 10 elsewhere).
+ *
+ * @param random - Random source (defaults to `Math.random`)
+ * @returns 6 ticket grids
+ *
+ * @example
+ * const strip = generateLotoStrip();
+ * // strip.flat(2).filter((cell) => cell !== null).length === 90
+ */
+export function generateLotoStrip(
+  random: RandomSource = Math.random
+): TicketGrid[] {
+  const maxAttempts = 100;
+
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    try {
+      const strip = createStripGrids(random);
+      if (isValidStrip(strip)) {
+        return strip;
+      }
+    } catch {
+      // Retry on generation failure
+      continue;
+    }
+  }
+
+  throw new Error('Failed to generate valid strip after maximum attempts');
+}
+
+/**
+ * Regenerates the strip for a seed
+ *
+ * @param seed - The strip's seed
+ * @returns The same 6 grids for the same seed
+ */
+export function generateLotoStripFromSeed(seed: string): TicketGrid[] {
+  return generateLotoStrip(createSeededRandom(seed));
+}
+
+/**
+ * Regenerates a stored ticket from its seed
+ *
+ * Strip tickets share their strip's seed and are picked out by position.
+ *
+ * @param seed - The seed stored with the ticket
+ * @param stripPosition - Position in the strip (null for standalone tickets)
+ * @returns The ticket grid the seed produces
+ */
+export function regenerateTicket(
+  seed: string,
+  stripPosition: number | null = null
+): TicketGrid {
+  return stripPosition === null
+    ? generateLotoTicketFromSeed(seed)
+    : generateLotoStripFromSeed(seed)[stripPosition];
+}
+
+/**
+ * Checks that a stored ticket grid is the one its seed produces
+ *
+ * @example
+ * verifyTicketSeed(ticket.ticket_data, ticket.seed, ticket.strip_position);
+ */
+export function verifyTicketSeed(
+  grid: TicketGrid,
+  seed: string,
+  stripPosition: number | null = null
+): boolean {
+  return (
+    serializeTicket(regenerateTicket(seed, stripPosition)) ===
+    serializeTicket(grid)
+  );
+}
+
+/**
+ * Creates the 6 grids of a strip
+ */
+function createStripGrids(random: RandomSource): TicketGrid[] {
+  // Step 1: Split each column's numbers between the tickets (1-3 each)
+  const stripCounts = distributeColumnsAcrossStrip(random);
+
+  // Step 2: Deal each column's numbers out in random order
+  const stripNumbers: number[][][] = stripCounts.map(() => []);
+
+  for (let col = 0; col < COLS; col++) {
+    const [min, max] = COLUMN_RANGES[col];
+    const numbers = shuffle(
+      Array.from({ length: max - min + 1 }, (_, i) => min + i),
+      random
+    );
+
+    stripCounts.forEach((counts, ticket) => {
+      stripNumbers[ticket].push(
+        numbers.splice(0, counts[col]).sort((a, b) => a - b)
+      );
+    });
+  }
+
+  // Step 3: Place each ticket's numbers into rows and build the grids
+  return stripCounts.map((counts, ticket) =>
+    buildGrid(
+      assignRowsToColumnsBalanced(counts, random),
+      stripNumbers[ticket]
+    )
+  );
+}
+
+/**
+ * Decides how many numbers each ticket of a strip gets in each column
+ * Returns stripCounts[ticket][col], each 1-3, rows summing to 15 and
+ * columns summing to the size of the column's range
+ */
+function distributeColumnsAcrossStrip(random: RandomSource): number[][] {
+  // Every ticket starts with one number per column (9 of its 15)
+  const counts = Array.from({ length: STRIP_SIZE }, () =>
+    new Array(COLS).fill(1)
+  );
+  const needed = new Array(STRIP_SIZE).fill(TOTAL_NUMBERS - COLS);
+
+  // Hand out the remaining numbers, largest columns first, to the
+  // tickets that still need the most (random order among equals)
+  const columns = COLUMN_RANGES.map(([min, max], col) => ({
+    col,
+    extra: max - min + 1 - STRIP_SIZE
+  })).sort((a, b) => b.extra - a.extra);
+
+  for (const { col, extra } of columns) {
+    for (let i = 0; i < extra; i++) {
+      const candidates = shuffle(
+        counts
+          .map((_, ticket) => ticket)
+          .filter(
+            (ticket) =>
+              needed[ticket] > 0 && counts[ticket][col] < MAX_PER_COLUMN
+          ),
+        random
+      ).sort((a, b) => needed[b] - needed[a]);
+
+      if (candidates.length === 0) {
+        throw new Error(
+          'Cannot distribute strip columns - constraint violation'
+        );
+      }
+
+      counts[candidates[0]][col]++;
+      needed[candidates[0]]--;
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * Picks rows for each column so every row ends up with 5 numbers
+ *
+ * Unlike `assignRowsToColumns` this cannot fail: fuller columns are placed
+ * first, always into the rows with the most space left.
+ */
+function assignRowsToColumnsBalanced(
+  columnCounts: number[],
+  random: RandomSource
+): number[][] {
+  const assignments: number[][] = new Array(COLS);
+  const space = new Array(ROWS).fill(NUMBERS_PER_ROW);
+  const order = shuffle(
+    columnCounts.map((_, col) => col),
+    random
+  ).sort(
+    (a, b) => columnCounts[b] - columnCounts[a]
+  );
+
+  for (const col of order) {
+    const rows = shuffle([0, 1, 2], random)
+      .sort((a, b) => space[b] - space[a])
+      .slice(0, columnCounts[col])
+      .sort((a, b) => a - b);
+
+    rows.forEach((row) => space[row]--);
+    assignments[col] = rows;
+  }
+
+  if (space.some((left) => left !== 0)) {
+    throw new Error('Cannot assign rows - constraint violation');
+  }
+
+  return assignments;
+}
+
+/**
+ * Shuffles an array in place (Fisher-Yates) and returns it
+ */
+function shuffle<T>(items: T[], random: RandomSource): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+/**
+ * Validates that a strip has 6 valid tickets using each of 1-90 once
+ */
+export function isValidStrip(strip: TicketGrid[]): boolean {
+  if (strip.length !== STRIP_SIZE) return false;
+  if (!strip.every(isValidTicket)) return false;
+
+  const numbers = strip.flat(2).filter((cell) => cell !== null) as number[];
+  return (
+    numbers.length === 90 &&
+    new Set(numbers).size === 90 &&
+    numbers.every((n) => n >= 1 && n <= 90)
+  );
+}
+
 /**
  * Formats a ticket grid for display (useful for debugging)
  */
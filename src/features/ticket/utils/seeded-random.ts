@@ -0,0 +1,57 @@
+/**
+ * Seeded Random Numbers
+ *
+ * Small deterministic PRNG so tickets can be regenerated from a seed.
+ * Not cryptographically secure - seeds themselves should come from a secure
+ * source (see `generateTicketSeed`).
+ */
+
+/**
+ * Returns a float in [0, 1), like `Math.random`
+ */
+export type RandomSource = () => number;
+
+/**
+ * Creates a PRNG that yields the same sequence for the same seed
+ *
+ * The seed string is hashed (xmur3) into the 32-bit state of a mulberry32
+ * generator.
+ *
+ * @param seed - Any string
+ * @returns A `Math.random`-compatible function
+ *
+ * @example
+ * const random = createSeededRandom('abc');
+ * random(); // Same value every time for 'abc'
+ */
+export function createSeededRandom(seed: string): RandomSource {
+  // xmur3 string hash
+  let h = 1779033703 ^ seed.length;
+  for (let i = 0; i < seed.length; i++) {
+    h = Math.imul(h ^ seed.charCodeAt(i), 3432918353);
+    h = (h << 13) | (h >>> 19);
+  }
+  h = Math.imul(h ^ (h >>> 16), 2246822507);
+  h = Math.imul(h ^ (h >>> 13), 3266489909);
+  let state = (h ^= h >>> 16) >>> 0;
+
+  // mulberry32
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generates a fresh random ticket seed
+ *
+ * @returns 32 lowercase hex characters
+ */
+export function generateTicketSeed(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
@@ -0,0 +1,107 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  buildAnnouncement,
+  toSpokenText,
+  type Announcement
+} from '@/lib/loto/announcer';
+import {
+  getAnnouncerSettings,
+  saveAnnouncerSettings,
+  type AnnouncerSettings
+} from '@/utils/announcer-settings';
+
+const isSpeechSupported = () =>
+  typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+/**
+ * Reads called numbers out loud
+ *
+ * Plays through the Web Speech API. Settings are persisted in localStorage.
+ *
+ * @example
+ * const announcer = useAnnouncer();
+ * // when a number is called
+ * announcer.announce(42);
+ */
+export function useAnnouncer() {
+  const [settings, setSettings] =
+    useState<AnnouncerSettings>(getAnnouncerSettings);
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>(() =>
+    isSpeechSupported() ? window.speechSynthesis.getVoices() : []
+  );
+  const settingsRef = useRef(settings);
+  const voicesRef = useRef(voices);
+
+  // Keep the latest values for announce() without re-creating it
+  useEffect(() => {
+    settingsRef.current = settings;
+    voicesRef.current = voices;
+  });
+
+  // Voices load asynchronously in most browsers
+  useEffect(() => {
+    if (!isSpeechSupported()) return;
+
+    const synth = window.speechSynthesis;
+    const handleVoicesChanged = () => setVoices(synth.getVoices());
+
+    synth.addEventListener('voiceschanged', handleVoicesChanged);
+    return () => {
+      synth.removeEventListener('voiceschanged', handleVoicesChanged);
+      synth.cancel();
+    };
+  }, []);
+
+  const speak = useCallback((announcement: Announcement) => {
+    if (!isSpeechSupported()) return;
+
+    const { volume, voiceURI } = settingsRef.current;
+    const utterance = new SpeechSynthesisUtterance(toSpokenText(announcement));
+    const voice =
+      voicesRef.current.find((v) => v.voiceURI === voiceURI) ??
+      voicesRef.current.find((v) => v.lang.toLowerCase().startsWith('vi'));
+
+    utterance.lang = voice?.lang ?? 'vi-VN';
+    utterance.voice = voice ?? null;
+    utterance.volume = volume;
+
+    // Stay in step with the board rather than queueing behind old numbers
+    window.speechSynthesis.cancel();
+    window.speechSynthesis.speak(utterance);
+  }, []);
+
+  const announce = useCallback(
+    (number: number) => {
+      const current = settingsRef.current;
+      if (current.muted) return;
+
+      const announcement = buildAnnouncement(number, {
+        withRhyme: current.withRhyme,
+        customRhymes: current.customRhymes
+      });
+
+      speak(announcement);
+    },
+    [speak]
+  );
+
+  const updateSettings = useCallback(
+    (changes: Partial<AnnouncerSettings>) => {
+      const next = { ...settingsRef.current, ...changes };
+      settingsRef.current = next;
+      setSettings(next);
+      saveAnnouncerSettings(next);
+    },
+    []
+  );
+
+  return {
+    settings,
+    updateSettings,
+    voices,
+    announce,
+    isSupported: isSpeechSupported()
+  };
+}
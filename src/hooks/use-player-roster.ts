@@ -0,0 +1,60 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { PRESENCE_HEARTBEAT_INTERVAL } from '@/lib/loto/presence';
+import { hostHeaders } from '@/utils/host-session';
+import type { RosterPlayer } from '@/types/loto';
+
+const fetchRoster = async (roomId: string): Promise<RosterPlayer[] | null> => {
+  try {
+    const response = await fetch(`/api/rooms/${roomId}/players`, {
+      headers: hostHeaders(roomId)
+    });
+    if (!response.ok) return null;
+
+    const data = await response.json();
+    return data.players;
+  } catch (err) {
+    console.error('Failed to fetch players:', err);
+    return null;
+  }
+};
+
+/**
+ * Loads a room's player roster and keeps presence fresh (host pages only)
+ *
+ * The roster is refetched on the heartbeat interval so players drop to
+ * offline on their own; call `refresh` on room events (joins, renames,
+ * calls) for immediate updates.
+ *
+ * @example
+ * const { players, refresh } = usePlayerRoster(roomId);
+ */
+export function usePlayerRoster(roomId: string) {
+  const [players, setPlayers] = useState<RosterPlayer[]>([]);
+
+  const refresh = useCallback(async () => {
+    const roster = await fetchRoster(roomId);
+    if (roster) setPlayers(roster);
+  }, [roomId]);
+
+  useEffect(() => {
+    if (!roomId) return;
+
+    let cancelled = false;
+    const load = () =>
+      fetchRoster(roomId).then((roster) => {
+        if (!cancelled && roster) setPlayers(roster);
+      });
+
+    load();
+    const timer = setInterval(load, PRESENCE_HEARTBEAT_INTERVAL);
+
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [roomId]);
+
+  return { players, refresh };
+}
@@ -0,0 +1,42 @@
+'use client';
+
+import { useEffect } from 'react';
+import { PRESENCE_HEARTBEAT_INTERVAL } from '@/lib/loto/presence';
+
+/**
+ * Tells the server a player's page is open
+ *
+ * Sends a heartbeat right away, then every PRESENCE_HEARTBEAT_INTERVAL and
+ * whenever the tab becomes visible again. Does nothing until both IDs are
+ * known.
+ *
+ * @example
+ * usePresenceHeartbeat(roomId, joined ? guestId : null);
+ */
+export function usePresenceHeartbeat(
+  roomId: string,
+  playerId: string | null
+): void {
+  useEffect(() => {
+    if (!roomId || !playerId) return;
+
+    const beat = () => {
+      fetch(`/api/rooms/${roomId}/players/${playerId}/presence`, {
+        method: 'POST'
+      }).catch((err) => console.error('Presence heartbeat failed:', err));
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') beat();
+    };
+
+    beat();
+    const timer = setInterval(beat, PRESENCE_HEARTBEAT_INTERVAL);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [roomId, playerId]);
+}
@@ -0,0 +1,119 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { RoomEvent } from '@/types/loto';
+
+interface UseRoomEventsOptions {
+  /** Called for every event pushed by the server, in order */
+  onEvent: (event: RoomEvent) => void;
+  /** Fallback refresh, called on an interval while the stream is down */
+  onPoll: () => void;
+  /** Fallback polling interval in ms (default 5000) */
+  pollInterval?: number;
+}
+
+/**
+ * Subscribes to a room's Server-Sent Events stream
+ *
+ * EventSource reconnects on its own and resumes from the last event id it
+ * received. A new stream starts at the room's latest event rather than
+ * replaying old ones, and `onPoll` is called once it is ready so nothing
+ * between the page's first load and the stream is missed. While the stream
+ * is down (or unsupported), `onPoll` is called on an interval so the page
+ * keeps refreshing the old way.
+ *
+ * @returns Whether the live stream is currently connected
+ *
+ * @example
+ * const isLive = useRoomEvents(roomId, {
+ *   onEvent: (event) => {
+ *     if (event.type === 'number_called') {
+ *       setCalledNumbers((prev) => [...prev, event.payload.number]);
+ *     }
+ *   },
+ *   onPoll: fetchNumbers
+ * });
+ */
+export function useRoomEvents(
+  roomId: string,
+  { onEvent, onPoll, pollInterval = 5000 }: UseRoomEventsOptions
+): boolean {
+  const [isLive, setIsLive] = useState(false);
+  const onEventRef = useRef(onEvent);
+  const onPollRef = useRef(onPoll);
+
+  // Keep the latest handlers without reopening the stream
+  useEffect(() => {
+    onEventRef.current = onEvent;
+    onPollRef.current = onPoll;
+  });
+
+  // Live stream
+  useEffect(() => {
+    if (!roomId || typeof EventSource === 'undefined') return;
+
+    // Null until the server says where a new stream starts
+    let lastEventId: number | null = null;
+    let source: EventSource | null = null;
+    let reopenTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const open = () => {
+      const query =
+        lastEventId !== null ? `?lastEventId=${lastEventId}` : '';
+      source = new EventSource(`/api/rooms/${roomId}/events${query}`);
+
+      source.onopen = () => setIsLive(true);
+
+      source.addEventListener('ready', (message) => {
+        const isNewStream = lastEventId === null;
+        lastEventId = Number((message as MessageEvent).data) || 0;
+
+        // Catch up on anything that happened before the stream's start
+        if (isNewStream) onPollRef.current();
+      });
+
+      source.onmessage = (message) => {
+        try {
+          const event = JSON.parse(message.data) as RoomEvent;
+
+          // Already handled, or older than the state the page loaded
+          if (lastEventId === null || event.id <= lastEventId) return;
+
+          lastEventId = event.id;
+          onEventRef.current(event);
+        } catch (err) {
+          console.error('Failed to parse room event:', err);
+        }
+      };
+
+      source.onerror = () => {
+        setIsLive(false);
+
+        // EventSource retries by itself unless the server refused the
+        // stream outright; in that case reopen manually after a pause
+        if (source?.readyState === EventSource.CLOSED) {
+          source.close();
+          reopenTimer = setTimeout(open, 10000);
+        }
+      };
+    };
+
+    open();
+
+    return () => {
+      clearTimeout(reopenTimer);
+      source?.close();
+      setIsLive(false);
+    };
+  }, [roomId]);
+
+  // Polling fallback while the stream is down
+  useEffect(() => {
+    if (!roomId || isLive) return;
+
+    const interval = setInterval(() => onPollRef.current(), pollInterval);
+    return () => clearInterval(interval);
+  }, [roomId, isLive, pollInterval]);
+
+  return isLive;
+}
@@ -0,0 +1,179 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  getLocalTicketMarks,
+  getUnsyncedTicketMarks,
+  saveLocalTicketMarks,
+  type LocalTicketMarks
+} from '@/utils/ticket-marks';
+import type {
+  LotoTicket,
+  TicketMarkingState,
+  TicketMarks
+} from '@/types/loto';
+
+const toMarkingState = (marks: TicketMarks): TicketMarkingState => ({
+  ticket_id: marks.ticket_id,
+  marked_numbers: new Set(marks.marked_numbers),
+  last_updated: marks.updated_at
+});
+
+// The server formats timestamps differently, so compare them as dates
+const isNewer = (a: string, b: string) => Date.parse(a) > Date.parse(b);
+
+/**
+ * Sends a ticket's marks to the server
+ *
+ * @returns The marks the server now holds, or null if they stay queued
+ */
+async function pushTicketMarks(
+  local: LocalTicketMarks
+): Promise<TicketMarks | null> {
+  try {
+    const response = await fetch(
+      `/api/rooms/${local.room_id}/tickets/${local.ticket_id}/marks`,
+      {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          playerId: local.player_id,
+          markedNumbers: local.marked_numbers,
+          updatedAt: local.updated_at
+        })
+      }
+    );
+
+    if (!response.ok) return null;
+
+    const data = await response.json();
+    return data.marks;
+  } catch (err) {
+    console.error('Failed to sync ticket marks:', err);
+    return null;
+  }
+}
+
+/**
+ * Keeps a player's ticket marks across refreshes and reconnects
+ *
+ * Offline-first: every change is stored in localStorage right away, then
+ * synced to the server. Changes that couldn't be sent stay queued and go out
+ * when the browser is back online or the page is reopened. restoreMarks()
+ * merges the marks returned by the join with the local ones, keeping
+ * whichever changed last.
+ *
+ * @example
+ * const { marks, restoreMarks, toggleMark } = useTicketMarks(roomId);
+ * // after joining
+ * restoreMarks(data.tickets, data.marks);
+ */
+export function useTicketMarks(roomId: string) {
+  const [marks, setMarks] = useState<Record<string, TicketMarkingState>>({});
+
+  const sync = useCallback(async (local: LocalTicketMarks) => {
+    const stored = await pushTicketMarks(local);
+    if (!stored) return;
+
+    // A newer change was made meanwhile; its own sync will follow
+    const latest = getLocalTicketMarks(local.ticket_id);
+    if (latest?.updated_at !== local.updated_at) return;
+
+    saveLocalTicketMarks({ ...local, ...stored, synced: true });
+
+    // The server had newer marks (e.g. from another tab)
+    if (isNewer(stored.updated_at, local.updated_at)) {
+      setMarks((prev) => ({
+        ...prev,
+        [stored.ticket_id]: toMarkingState(stored)
+      }));
+    }
+  }, []);
+
+  // Send changes queued while offline once the connection is back
+  useEffect(() => {
+    if (!roomId) return;
+
+    const handleOnline = () => {
+      getUnsyncedTicketMarks(roomId).forEach(sync);
+    };
+
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [roomId, sync]);
+
+  const restoreMarks = useCallback(
+    (tickets: LotoTicket[], saved: TicketMarks[]) => {
+      const restored: Record<string, TicketMarkingState> = {};
+
+      for (const ticket of tickets) {
+        const local = getLocalTicketMarks(ticket.id);
+        const remote = saved.find((marks) => marks.ticket_id === ticket.id);
+
+        const isLocalNewer =
+          local && (!remote || isNewer(local.updated_at, remote.updated_at));
+
+        if (local && isLocalNewer) {
+          restored[ticket.id] = toMarkingState(local);
+          if (!local.synced) sync(local);
+        } else if (remote) {
+          restored[ticket.id] = toMarkingState(remote);
+          saveLocalTicketMarks({
+            ...remote,
+            room_id: ticket.room_id,
+            player_id: ticket.player_id,
+            synced: true
+          });
+        }
+      }
+
+      setMarks(restored);
+    },
+    [sync]
+  );
+
+  const setTicketMarks = useCallback(
+    (ticket: LotoTicket, markedNumbers: Set<number>) => {
+      const local: LocalTicketMarks = {
+        ticket_id: ticket.id,
+        room_id: ticket.room_id,
+        player_id: ticket.player_id,
+        marked_numbers: [...markedNumbers].sort((a, b) => a - b),
+        updated_at: new Date().toISOString(),
+        synced: false
+      };
+
+      saveLocalTicketMarks(local);
+      setMarks((prev) => ({ ...prev, [ticket.id]: toMarkingState(local) }));
+      sync(local);
+    },
+    [sync]
+  );
+
+  /** Marks or unmarks a number on a ticket */
+  const toggleMark = (ticket: LotoTicket, number: number) => {
+    const next = new Set(marks[ticket.id]?.marked_numbers);
+
+    if (next.has(number)) {
+      next.delete(number);
+    } else {
+      next.add(number);
+    }
+
+    setTicketMarks(ticket, next);
+  };
+
+  /** Removes a number from every ticket it is marked on (voided calls) */
+  const unmarkNumber = (tickets: LotoTicket[], number: number) => {
+    for (const ticket of tickets) {
+      const current = marks[ticket.id]?.marked_numbers;
+      if (!current?.has(number)) continue;
+
+      const next = new Set(current);
+      next.delete(number);
+      setTicketMarks(ticket, next);
+    }
+  };
+
+  return { marks, restoreMarks, toggleMark, unmarkNumber };
+}
@@ -0,0 +1,22 @@
+/**
+ * Errors shared by the service layer and the API routes
+ */
+
+/**
+ * An action the room's rules don't allow (limits, game status, taken names)
+ *
+ * Thrown by the service layer; routes answer with its status and message
+ * instead of a 500.
+ *
+ * @example
+ * throw new RoomRuleError('Tickets can only be added before the game starts.');
+ */
+export class RoomRuleError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'RoomRuleError';
+    this.status = status;
+  }
+}
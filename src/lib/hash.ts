@@ -0,0 +1,71 @@
+/**
+ * Hashing helpers (Web Crypto, works in the browser and on the server)
+ */
+
+/**
+ * Computes the SHA-256 hash of a string
+ *
+ * @param value - The text to hash
+ * @returns Lowercase hex digest (64 characters)
+ */
+export async function sha256Hex(value: string): Promise<string> {
+  const data = new TextEncoder().encode(value);
+  const hashBuffer = await crypto.subtle.digest('SHA-256', data);
+  return toHex(new Uint8Array(hashBuffer));
+}
+
+/**
+ * Computes an HMAC-SHA-256 of a message
+ *
+ * @param key - Secret key
+ * @param message - The text to sign
+ * @returns Lowercase hex digest (64 characters)
+ */
+export async function hmacSha256Hex(
+  key: string,
+  message: string
+): Promise<string> {
+  const encoder = new TextEncoder();
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(key),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign(
+    'HMAC',
+    cryptoKey,
+    encoder.encode(message)
+  );
+  return toHex(new Uint8Array(signature));
+}
+
+/**
+ * Generates a random secret token
+ *
+ * @param byteLength - Number of random bytes (default 32)
+ * @returns Lowercase hex string (2 characters per byte)
+ */
+export function generateSecretToken(byteLength = 32): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+/**
+ * Compares two strings in constant time (for secret hashes)
+ */
+export function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isHostTokenValid } from '@/services/database.service';
+import { HOST_TOKEN_HEADER } from '@/utils/host-session';
+import type { Room } from '@/types/loto';
+
+/**
+ * Checks that a request comes from the room's host
+ *
+ * @param request - The incoming request (token in the x-host-token header)
+ * @param room - The room being controlled
+ * @param forbiddenMessage - Error shown when the token does not match
+ * @returns An error response to return as-is, or null if the host is verified
+ *
+ * @example
+ * const denied = await requireHost(request, room, 'Only the host can call numbers');
+ * if (denied) return denied;
+ */
+export async function requireHost(
+  request: NextRequest,
+  room: Room,
+  forbiddenMessage: string
+): Promise<NextResponse | null> {
+  const token = request.headers.get(HOST_TOKEN_HEADER);
+
+  if (!token) {
+    return NextResponse.json(
+      { error: 'Host token is required' },
+      { status: 401 }
+    );
+  }
+
+  if (!(await isHostTokenValid(room, token))) {
+    return NextResponse.json({ error: forbiddenMessage }, { status: 403 });
+  }
+
+  return null;
+}
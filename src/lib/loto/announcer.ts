@@ -0,0 +1,95 @@
+import { DEFAULT_RHYMES, type RhymeBank } from '@/lib/loto/rhyme-bank';
+
+const DIGITS = [
+  'không',
+  'một',
+  'hai',
+  'ba',
+  'bốn',
+  'năm',
+  'sáu',
+  'bảy',
+  'tám',
+  'chín'
+];
+
+/**
+ * Spells a Loto number (1-90) in Vietnamese
+ *
+ * Follows spoken usage: "mười" for the teens, "mốt" for a trailing one after
+ * twenty, and "lăm" for a trailing five after ten.
+ *
+ * @example
+ * numberToVietnamese(15); // 'mười lăm'
+ * numberToVietnamese(21); // 'hai mươi mốt'
+ * numberToVietnamese(90); // 'chín mươi'
+ */
+export function numberToVietnamese(number: number): string {
+  if (!Number.isInteger(number) || number < 1 || number > 90) {
+    throw new Error('Number must be between 1 and 90');
+  }
+
+  const tens = Math.floor(number / 10);
+  const units = number % 10;
+
+  if (tens === 0) return DIGITS[units];
+
+  const tensWord = tens === 1 ? 'mười' : `${DIGITS[tens]} mươi`;
+
+  if (units === 0) return tensWord;
+  if (units === 1 && tens > 1) return `${tensWord} mốt`;
+  if (units === 5) return `${tensWord} lăm`;
+  return `${tensWord} ${DIGITS[units]}`;
+}
+
+/**
+ * What the announcer says for a called number
+ */
+export interface Announcement {
+  number: number;
+  text: string; // The number in words
+  rhyme: string | null; // Optional rhyme sung before the number
+}
+
+/**
+ * Builds the announcement for a called number
+ *
+ * Custom rhymes override the default bank; when a number has several
+ * rhymes one is picked at random so repeated games don't sound the same.
+ *
+ * @param number - The called number (1-90)
+ * @param options - Whether to include a rhyme and any custom rhymes
+ *
+ * @example
+ * buildAnnouncement(7, { withRhyme: true });
+ * // { number: 7, text: 'bảy', rhyme: 'Bảy ...' }
+ */
+export function buildAnnouncement(
+  number: number,
+  options: { withRhyme?: boolean; customRhymes?: RhymeBank } = {}
+): Announcement {
+  const { withRhyme = true, customRhymes = {} } = options;
+  const rhymes = customRhymes[number]?.length
+    ? customRhymes[number]
+    : DEFAULT_RHYMES[number] ?? [];
+
+  return {
+    number,
+    text: numberToVietnamese(number),
+    rhyme:
+      withRhyme && rhymes.length > 0
+        ? rhymes[Math.floor(Math.random() * rhymes.length)]
+        : null
+  };
+}
+
+/**
+ * Joins an announcement into the sentence the speech engine reads
+ *
+ * @example
+ * toSpokenText({ number: 7, text: 'bảy', rhyme: null }); // 'Số bảy'
+ */
+export function toSpokenText(announcement: Announcement): string {
+  const call = `Số ${announcement.text}`;
+  return announcement.rhyme ? `${announcement.rhyme}. ${call}` : call;
+}
@@ -0,0 +1,46 @@
+import type { AutoCallState, PublicRoom } from '@/types/loto';
+
+/** Shortest allowed delay between automatic calls (seconds) */
+export const AUTO_CALL_MIN_INTERVAL = 3;
+
+/** Longest allowed delay between automatic calls (seconds) */
+export const AUTO_CALL_MAX_INTERVAL = 20;
+
+/** Delay used until the host picks one (seconds) */
+export const AUTO_CALL_DEFAULT_INTERVAL = 5;
+
+/**
+ * Checks that an auto-call interval is a whole number of seconds in range
+ */
+export function isValidAutoCallInterval(interval: unknown): interval is number {
+  return (
+    typeof interval === 'number' &&
+    Number.isInteger(interval) &&
+    interval >= AUTO_CALL_MIN_INTERVAL &&
+    interval <= AUTO_CALL_MAX_INTERVAL
+  );
+}
+
+/**
+ * Gets the automatic caller state of a room
+ */
+export function getAutoCallState(room: PublicRoom): AutoCallState {
+  return {
+    status: room.auto_call_status,
+    interval: room.auto_call_interval,
+    next_at: room.auto_call_next_at
+  };
+}
+
+/**
+ * Gets how long until the next automatic call is due
+ *
+ * @returns Milliseconds (0 if overdue), or null when the caller is not running
+ */
+export function getAutoCallDelay(
+  state: AutoCallState,
+  now: number = Date.now()
+): number | null {
+  if (state.status !== 'running' || !state.next_at) return null;
+  return Math.max(0, new Date(state.next_at).getTime() - now);
+}
@@ -0,0 +1,138 @@
+import { sha256Hex } from '@/lib/hash';
+
+/**
+ * Every number in a Loto game (1-90)
+ */
+export const ALL_NUMBERS: number[] = Array.from({ length: 90 }, (_, i) => i + 1);
+
+/**
+ * The numbers 1-90 grouped by tens, as laid out on caller boards
+ */
+export const NUMBER_GROUPS: { range: string; numbers: number[] }[] =
+  Array.from({ length: 9 }, (_, i) => ({
+    range: `${i * 10 + 1}-${i * 10 + 10}`,
+    numbers: ALL_NUMBERS.slice(i * 10, i * 10 + 10)
+  }));
+
+/**
+ * Picks a uniformly random integer in [0, max) with a secure RNG
+ *
+ * Uses rejection sampling so no value is more likely than another.
+ */
+export function secureRandomInt(max: number): number {
+  if (!Number.isInteger(max) || max <= 0 || max > 0x100000000) {
+    throw new Error('max must be an integer between 1 and 2^32');
+  }
+
+  const limit = Math.floor(0x100000000 / max) * max;
+  const buffer = new Uint32Array(1);
+
+  do {
+    crypto.getRandomValues(buffer);
+  } while (buffer[0] >= limit);
+
+  return buffer[0] % max;
+}
+
+/**
+ * Picks a random number that has not been called yet
+ *
+ * @param calledNumbers - Numbers already called in the room
+ * @returns The next number, or null once all 90 have been called
+ */
+export function pickRandomNumber(calledNumbers: number[]): number | null {
+  const called = new Set(calledNumbers);
+  const available = ALL_NUMBERS.filter((n) => !called.has(n));
+
+  if (available.length === 0) return null;
+  return available[secureRandomInt(available.length)];
+}
+
+/**
+ * Derives the full draw order of a committed room from its seed
+ *
+ * A Fisher-Yates shuffle of 1-90 driven by SHA-256(seed:counter) blocks.
+ * Deterministic, so anyone holding the revealed seed can replay it.
+ *
+ * @param seed - The revealed draw seed (hex)
+ * @returns All 90 numbers in draw order
+ */
+export async function deriveDrawOrder(seed: string): Promise<number[]> {
+  const order = [...ALL_NUMBERS];
+  let counter = 0;
+  let pool: number[] = [];
+
+  // Next 32-bit value from the seeded stream
+  const next = async (): Promise<number> => {
+    if (pool.length === 0) {
+      const block = await sha256Hex(`${seed}:${counter++}`);
+      pool = (block.match(/.{8}/g) ?? []).map((chunk) => parseInt(chunk, 16));
+    }
+    return pool.shift() as number;
+  };
+
+  for (let i = order.length - 1; i > 0; i--) {
+    const range = i + 1;
+    const limit = Math.floor(0x100000000 / range) * range;
+    let value = await next();
+    while (value >= limit) {
+      value = await next();
+    }
+
+    const j = value % range;
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+
+  return order;
+}
+
+/**
+ * Gets the next number of a committed room
+ *
+ * @param seed - The room's (secret) draw seed
+ * @param calledNumbers - Numbers already called, in order
+ * @returns The next number, or null once all 90 have been called
+ */
+export async function getNextCommittedNumber(
+  seed: string,
+  calledNumbers: number[]
+): Promise<number | null> {
+  const order = await deriveDrawOrder(seed);
+  return order[calledNumbers.length] ?? null;
+}
+
+/**
+ * Result of verifying a committed draw
+ */
+export interface DrawVerification {
+  commitmentMatches: boolean; // SHA-256(seed) equals the published commitment
+  orderMatches: boolean; // Called numbers are exactly the seeded order
+}
+
+/**
+ * Verifies a committed room's draw after the seed is revealed
+ *
+ * @param seed - The revealed draw seed
+ * @param commitment - The commitment published when the room was created
+ * @param calledNumbers - Numbers called in the room, in order
+ *
+ * @example
+ * const { commitmentMatches, orderMatches } = await verifyDraw(
+ *   room.draw_seed,
+ *   room.draw_commitment,
+ *   calledNumbers
+ * );
+ */
+export async function verifyDraw(
+  seed: string,
+  commitment: string,
+  calledNumbers: number[]
+): Promise<DrawVerification> {
+  const commitmentMatches = (await sha256Hex(seed)) === commitment;
+  const order = await deriveDrawOrder(seed);
+
+  return {
+    commitmentMatches,
+    orderMatches: calledNumbers.every((number, i) => order[i] === number)
+  };
+}
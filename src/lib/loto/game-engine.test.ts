@@ -0,0 +1,488 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  applyGameEvent,
+  getCallableNumbers,
+  getGameStateFromRoom,
+  rebuildRoomState,
+  replayGameEvents,
+  replayRoomEvents,
+  validateGameEvent,
+  type GameEvent,
+  type GameState
+} from '@/lib/loto/game-engine';
+import type {
+  LotoTicket,
+  PrizeStage,
+  PublicRoom,
+  RoomEvent,
+  TicketGrid
+} from '@/types/loto';
+
+const at = '2026-01-01T00:00:00.000Z';
+
+const STAGES: PrizeStage[] = [
+  { win_type: 'full_row', label: 'Một hàng' },
+  { win_type: 'full_house', label: 'Cả vé' }
+];
+
+const GRID: TicketGrid = [
+  [1, 12, 23, 34, 45, null, null, null, null],
+  [2, null, null, null, null, 56, 67, 78, 89],
+  [null, 13, 24, 35, 47, null, null, null, 90]
+];
+const FIRST_ROW = [1, 12, 23, 34, 45];
+const TICKET_NUMBERS = GRID.flat().filter((cell) => cell !== null);
+
+const created: GameEvent = {
+  type: 'RoomCreated',
+  roomId: 'room-1',
+  prizeStages: STAGES,
+  drawCommitted: false,
+  at
+};
+
+const joined = (ticketId = 't1', playerId = 'p1'): GameEvent => ({
+  type: 'PlayerJoined',
+  playerId,
+  playerName: playerId,
+  ticketId,
+  ticketData: GRID,
+  at
+});
+
+const called = (number: number): GameEvent => ({
+  type: 'NumberCalled',
+  number,
+  at
+});
+
+const claimed = (claimId: string, ticketId = 't1'): GameEvent => ({
+  type: 'ClaimMade',
+  claimId,
+  ticketId,
+  at
+});
+
+const verified = (
+  claimId: string,
+  status: 'accepted' | 'rejected' = 'accepted'
+): GameEvent => ({ type: 'ClaimVerified', claimId, status, at });
+
+/** A room with one player holding ticket t1 */
+const setup = (...events: GameEvent[]): GameState =>
+  replayGameEvents([created, joined(), ...events]);
+
+describe('validateGameEvent', () => {
+  it('requires the room to be created first, and only once', () => {
+    assert.equal(
+      validateGameEvent(null, called(1)),
+      'Room has not been created'
+    );
+    assert.equal(validateGameEvent(null, created), null);
+    assert.equal(
+      validateGameEvent(setup(), created),
+      'Room has already been created'
+    );
+  });
+
+  it('rejects every event once the game has ended', () => {
+    const state = setup({ type: 'GameEnded', at });
+
+    for (const event of [called(1), joined('t2'), { type: 'GameEnded', at }]) {
+      assert.equal(
+        validateGameEvent(state, event as GameEvent),
+        'Game has already ended'
+      );
+    }
+  });
+
+  it('deals each ticket once', () => {
+    assert.equal(
+      validateGameEvent(setup(), joined()),
+      'This ticket has already been dealt'
+    );
+  });
+
+  it('only removes players holding a live ticket', () => {
+    const removed: GameEvent = { type: 'PlayerRemoved', playerId: 'p1', at };
+
+    assert.equal(
+      validateGameEvent(setup(), { ...removed, playerId: 'p2' }),
+      'Player not found in this room'
+    );
+    assert.equal(validateGameEvent(setup(), removed), null);
+    assert.equal(
+      validateGameEvent(setup(removed), removed),
+      'Player not found in this room'
+    );
+  });
+
+  it('only calls whole, uncalled numbers from 1 to 90', () => {
+    const state = setup(called(7));
+
+    assert.equal(
+      validateGameEvent(state, called(1.5)),
+      'Valid number is required'
+    );
+    assert.equal(
+      validateGameEvent(state, called(0)),
+      'Number must be between 1 and 90'
+    );
+    assert.equal(
+      validateGameEvent(state, called(91)),
+      'Number must be between 1 and 90'
+    );
+    assert.equal(
+      validateGameEvent(state, called(7)),
+      'This number has already been called'
+    );
+    assert.equal(validateGameEvent(state, called(8)), null);
+  });
+
+  it('stops calling once every prize is won', () => {
+    const state = setup(
+      ...TICKET_NUMBERS.map(called),
+      claimed('c1'),
+      verified('c1'),
+      { type: 'StageAdvanced', at },
+      claimed('c2'),
+      verified('c2')
+    );
+
+    assert.equal(
+      validateGameEvent(state, called(3)),
+      'All prizes have already been won'
+    );
+    assert.equal(
+      validateGameEvent(state, claimed('c3')),
+      'All prizes have already been won'
+    );
+    assert.equal(
+      validateGameEvent(state, { type: 'StageAdvanced', at }),
+      'All prizes have already been won'
+    );
+    assert.deepEqual(getCallableNumbers(state), []);
+  });
+
+  it('only voids the last call, and never in committed draws', () => {
+    const voided = (number: number): GameEvent => ({
+      type: 'NumberVoided',
+      number,
+      reason: null,
+      at
+    });
+
+    assert.equal(
+      validateGameEvent(setup(), voided(1)),
+      'No number has been called yet'
+    );
+    assert.equal(
+      validateGameEvent(setup(called(1), called(2)), voided(1)),
+      'Only the last called number can be voided'
+    );
+    assert.equal(
+      validateGameEvent(setup(called(1), called(2)), voided(2)),
+      null
+    );
+
+    const committed = replayGameEvents([
+      { ...created, drawCommitted: true } as GameEvent,
+      called(1)
+    ]);
+    assert.equal(
+      validateGameEvent(committed, voided(1)),
+      'Numbers drawn from a committed order cannot be voided'
+    );
+  });
+
+  it('checks claims against tickets and earlier claims', () => {
+    assert.equal(
+      validateGameEvent(setup(), claimed('c1', 't9')),
+      'Ticket not found'
+    );
+    assert.equal(
+      validateGameEvent(setup(claimed('c1')), claimed('c1')),
+      'This claim has already been made'
+    );
+    assert.equal(
+      validateGameEvent(setup(claimed('c1')), claimed('c2')),
+      'This ticket already has a claim for the current prize'
+    );
+    // A rejected claim may be followed by a new one
+    assert.equal(
+      validateGameEvent(
+        setup(claimed('c1'), verified('c1', 'rejected')),
+        claimed('c2')
+      ),
+      null
+    );
+    assert.equal(
+      validateGameEvent(
+        setup({ type: 'PlayerRemoved', playerId: 'p1', at }),
+        claimed('c1')
+      ),
+      'This ticket was removed from the game'
+    );
+  });
+
+  it('resolves each claim once', () => {
+    assert.equal(validateGameEvent(setup(), verified('c1')), 'Claim not found');
+    assert.equal(
+      validateGameEvent(setup(claimed('c1'), verified('c1')), verified('c1')),
+      'This claim has already been resolved'
+    );
+  });
+
+  it('only advances a stage that has a winner', () => {
+    const advanced: GameEvent = { type: 'StageAdvanced', at };
+
+    assert.equal(
+      validateGameEvent(setup(claimed('c1')), advanced),
+      'The current prize has no winner yet'
+    );
+    assert.equal(
+      validateGameEvent(setup(claimed('c1'), verified('c1')), advanced),
+      null
+    );
+  });
+});
+
+describe('applyGameEvent', () => {
+  it('throws on events that break a rule', () => {
+    assert.throws(() => applyGameEvent(setup(called(5)), called(5)), {
+      message: 'This number has already been called'
+    });
+  });
+
+  it('starts the game on the first call', () => {
+    const state = setup(called(5));
+
+    assert.equal(state.status, 'active');
+    assert.equal(state.startedAt, at);
+    assert.deepEqual(state.calledNumbers, [5]);
+  });
+
+  it('verifies claims against the called numbers', () => {
+    const early = setup(called(1), claimed('c1'));
+    assert.equal(early.claims.c1.isValid, false);
+
+    const state = setup(...FIRST_ROW.map(called), claimed('c1'));
+    assert.equal(state.claims.c1.isValid, true);
+    assert.equal(state.claims.c1.winType, 'full_row');
+    assert.deepEqual(state.claims.c1.winningRows, [0]);
+    assert.equal(state.claims.c1.calledCount, FIRST_ROW.length);
+  });
+
+  it('re-verifies pending claims when a number is voided', () => {
+    const state = setup(...FIRST_ROW.map(called), claimed('c1'), {
+      type: 'NumberVoided',
+      number: 45,
+      reason: 'mis-tap',
+      at
+    });
+
+    assert.deepEqual(state.calledNumbers, [1, 12, 23, 34]);
+    assert.equal(state.claims.c1.isValid, false);
+  });
+
+  it('rejects the pending claims of a removed player', () => {
+    const state = setup(...FIRST_ROW.map(called), claimed('c1'), {
+      type: 'PlayerRemoved',
+      playerId: 'p1',
+      at
+    });
+
+    assert.equal(state.tickets.t1.removed, true);
+    assert.equal(state.claims.c1.status, 'rejected');
+    assert.equal(state.claims.c1.isValid, false);
+  });
+
+  it('completes the ladder when the final prize is accepted', () => {
+    const state = setup(
+      ...TICKET_NUMBERS.map(called),
+      claimed('c1'),
+      verified('c1'),
+      { type: 'StageAdvanced', at },
+      claimed('c2')
+    );
+    assert.equal(state.currentStage, 1);
+
+    assert.equal(applyGameEvent(state, verified('c2')).currentStage, 2);
+  });
+
+  it('never modifies the previous state', () => {
+    const before = setup(called(1));
+    const after = applyGameEvent(before, called(2));
+
+    assert.deepEqual(before.calledNumbers, [1]);
+    assert.deepEqual(after.calledNumbers, [1, 2]);
+  });
+});
+
+describe('replayGameEvents', () => {
+  it('needs a RoomCreated event', () => {
+    assert.throws(() => replayGameEvents([]), {
+      message: 'Room has not been created'
+    });
+  });
+});
+
+describe('replayRoomEvents', () => {
+  const room = {
+    id: 'room-1',
+    prize_stages: STAGES,
+    draw_commitment: null,
+    created_at: at
+  } as PublicRoom;
+
+  const ticket = { id: 't1', ticket_data: GRID } as LotoTicket;
+
+  let nextId = 1;
+  const logged = <T extends RoomEvent['type']>(
+    type: T,
+    payload: Extract<RoomEvent, { type: T }>['payload']
+  ) =>
+    ({
+      id: nextId++,
+      room_id: room.id,
+      type,
+      payload,
+      created_at: at
+    }) as RoomEvent;
+
+  const claim = (id: string, status: 'pending' | 'accepted', stage: number) =>
+    ({
+      id,
+      ticket_id: 't1',
+      stage_index: stage,
+      status,
+      created_at: at,
+      resolved_at: status === 'pending' ? null : at
+    }) as never;
+
+  it('rebuilds a finished game from the room log', () => {
+    const events = [
+      logged('player_joined', {
+        player_id: 'p1',
+        player_name: 'An',
+        ticket_id: 't1'
+      }),
+      logged('player_renamed', { player_id: 'p1', player_name: 'Bình' }),
+      logged('room_status_changed', { status: 'active' }),
+      ...TICKET_NUMBERS.map((number) =>
+        logged('number_called', { number, called_at: at })
+      ),
+      logged('claim_submitted', { claim: claim('c1', 'pending', 0) }),
+      logged('claim_resolved', { claim: claim('c1', 'accepted', 0) }),
+      logged('stage_advanced', { current_stage: 1 }),
+      logged('claim_submitted', { claim: claim('c2', 'pending', 1) }),
+      logged('claim_resolved', { claim: claim('c2', 'accepted', 1) }),
+      // Already applied by accepting the final prize
+      logged('stage_advanced', { current_stage: 2 }),
+      logged('room_status_changed', { status: 'completed' })
+    ];
+
+    const state = replayRoomEvents(room, events, [ticket]);
+
+    assert.equal(state.status, 'completed');
+    assert.equal(state.currentStage, 2);
+    assert.deepEqual(state.calledNumbers, TICKET_NUMBERS);
+    assert.equal(state.claims.c2.status, 'accepted');
+  });
+
+  it('needs every dealt ticket', () => {
+    const events = [
+      logged('player_joined', {
+        player_id: 'p1',
+        player_name: 'An',
+        ticket_id: 't2'
+      })
+    ];
+
+    assert.throws(() => replayRoomEvents(room, events, [ticket]), {
+      message: 'Ticket t2 not found'
+    });
+  });
+
+  it('skips bans of players without a ticket', () => {
+    const events = [
+      logged('player_removed', { player_id: 'p9', banned: true, reason: null })
+    ];
+
+    assert.deepEqual(replayRoomEvents(room, events, [ticket]).tickets, {});
+  });
+});
+
+describe('rebuildRoomState', () => {
+  const room = {
+    id: 'room-1',
+    prize_stages: STAGES,
+    draw_commitment: null,
+    status: 'active',
+    current_stage: 0,
+    started_at: at,
+    ended_at: null,
+    created_at: at
+  } as PublicRoom;
+
+  const ticket = {
+    id: 't1',
+    player_id: 'p1',
+    player_name: 'An',
+    ticket_data: GRID,
+    invalidated_at: null
+  } as LotoTicket;
+
+  const logged = <T extends RoomEvent['type']>(
+    id: number,
+    type: T,
+    payload: Extract<RoomEvent, { type: T }>['payload']
+  ) => ({ id, room_id: room.id, type, payload, created_at: at }) as RoomEvent;
+
+  const joinedEvent = logged(1, 'player_joined', {
+    player_id: 'p1',
+    player_name: 'An',
+    ticket_id: 't1'
+  });
+  const calls = [1, 12].map((number, i) =>
+    logged(i + 2, 'number_called', { number, called_at: at })
+  );
+
+  const snapshot = getGameStateFromRoom(room, [1, 12], { tickets: [ticket] });
+
+  it('uses the event log when it matches the tables', () => {
+    const { state, source } = rebuildRoomState(
+      room,
+      [joinedEvent, ...calls],
+      [ticket],
+      snapshot
+    );
+
+    assert.equal(source, 'event_log');
+    assert.deepEqual(state.calledNumbers, [1, 12]);
+  });
+
+  it('falls back to the tables when an event is missing', () => {
+    const { state, source } = rebuildRoomState(
+      room,
+      [joinedEvent, calls[1]],
+      [ticket],
+      snapshot
+    );
+
+    assert.equal(source, 'tables');
+    assert.equal(state, snapshot);
+  });
+
+  it('falls back to the tables when the replay breaks a rule', () => {
+    const { source } = rebuildRoomState(
+      room,
+      [joinedEvent, calls[0], calls[0], calls[1]],
+      [ticket],
+      snapshot
+    );
+
+    assert.equal(source, 'tables');
+  });
+});
@@ -0,0 +1,719 @@
+import type {
+  ClaimStatus,
+  LotoTicket,
+  PrizeStage,
+  PublicRoom,
+  RoomEvent,
+  RoomStatus,
+  TicketGrid,
+  WinClaim,
+  WinType
+} from '@/types/loto';
+import { ALL_NUMBERS } from '@/lib/loto/draw';
+import { checkWinCondition } from '@/lib/loto/win-detection';
+
+/**
+ * Game Engine
+ *
+ * Models a room as a reducer over a log of game events, with no dependency
+ * on React or Supabase. Every event is checked against the rules of the game
+ * before it is applied, so replaying a room's log rebuilds its full state and
+ * the same checks guard the API routes and the host UI.
+ */
+
+// ============================================================================
+// Events
+// ============================================================================
+
+/**
+ * Something that happened in a room
+ * Events are applied in order; `at` is an ISO timestamp.
+ */
+export type GameEvent =
+  | {
+      type: 'RoomCreated';
+      roomId: string;
+      prizeStages: PrizeStage[];
+      drawCommitted: boolean; // Numbers come from a committed draw order
+      at: string;
+    }
+  | {
+      type: 'PlayerJoined';
+      playerId: string;
+      playerName: string | null;
+      ticketId: string;
+      ticketData: TicketGrid;
+      at: string;
+    }
+  | { type: 'PlayerRemoved'; playerId: string; at: string }
+  | { type: 'NumberCalled'; number: number; at: string }
+  | { type: 'NumberVoided'; number: number; reason: string | null; at: string }
+  | { type: 'ClaimMade'; claimId: string; ticketId: string; at: string }
+  | {
+      type: 'ClaimVerified';
+      claimId: string;
+      status: Exclude<ClaimStatus, 'pending'>; // Host decision
+      at: string;
+    }
+  | { type: 'StageAdvanced'; at: string }
+  | { type: 'GameEnded'; at: string };
+
+export type GameEventType = GameEvent['type'];
+
+// ============================================================================
+// State
+// ============================================================================
+
+/**
+ * A ticket in play
+ */
+export interface GameTicket {
+  id: string;
+  playerId: string;
+  playerName: string | null;
+  ticketData: TicketGrid;
+  removed: boolean; // The host removed the player; the ticket never wins
+}
+
+/**
+ * A "Kinh!" claim with the engine's verdict
+ */
+export interface GameClaim {
+  id: string;
+  ticketId: string;
+  playerId: string;
+  stageIndex: number;
+  isValid: boolean; // Verdict against the numbers called so far
+  winType: WinType | null;
+  winningRows: number[];
+  calledCount: number; // Numbers called when the claim was made
+  status: ClaimStatus;
+}
+
+/**
+ * Full state of a room, rebuilt by applying its events in order
+ */
+export interface GameState {
+  roomId: string;
+  status: RoomStatus;
+  prizeStages: PrizeStage[];
+  currentStage: number; // Index into prizeStages (= length once all won)
+  drawCommitted: boolean;
+  calledNumbers: number[]; // In call order, voided numbers left out
+  tickets: Record<string, GameTicket>;
+  claims: Record<string, GameClaim>;
+  startedAt: string | null;
+  endedAt: string | null;
+}
+
+/**
+ * Checks whether every prize in the ladder has been won
+ */
+function isLadderWon(state: GameState): boolean {
+  return state.currentStage >= state.prizeStages.length;
+}
+
+/**
+ * Verifies a ticket against the called numbers for a prize stage
+ */
+function verifyTicket(
+  state: GameState,
+  ticket: GameTicket,
+  stageIndex: number,
+  calledNumbers: number[] = state.calledNumbers
+): Pick<GameClaim, 'isValid' | 'winType' | 'winningRows'> {
+  const stage = state.prizeStages[stageIndex];
+  const result = checkWinCondition(ticket.ticketData, new Set(calledNumbers), [
+    stage.win_type
+  ]);
+
+  return {
+    // Tickets of removed players never win
+    isValid: result.hasWon && !ticket.removed,
+    winType: result.winType ?? null,
+    winningRows: result.completedRows
+  };
+}
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+/**
+ * Checks an event against the rules of the game
+ *
+ * @param state - Current state (null before the room is created)
+ * @param event - The event to check
+ * @returns Why the event is not allowed, or null if it may be applied
+ *
+ * @example
+ * const violation = validateGameEvent(state, {
+ *   type: 'NumberCalled',
+ *   number: 42,
+ *   at: new Date().toISOString()
+ * });
+ * if (violation) throw new Error(violation);
+ */
+export function validateGameEvent(
+  state: GameState | null,
+  event: GameEvent
+): string | null {
+  if (!state) {
+    return event.type === 'RoomCreated' ? null : 'Room has not been created';
+  }
+
+  if (event.type === 'RoomCreated') {
+    return 'Room has already been created';
+  }
+
+  if (state.status === 'completed') {
+    return 'Game has already ended';
+  }
+
+  switch (event.type) {
+    case 'PlayerJoined':
+      return state.tickets[event.ticketId]
+        ? 'This ticket has already been dealt'
+        : null;
+
+    case 'PlayerRemoved':
+      return Object.values(state.tickets).some(
+        (ticket) => ticket.playerId === event.playerId && !ticket.removed
+      )
+        ? null
+        : 'Player not found in this room';
+
+    case 'NumberCalled':
+      if (!Number.isInteger(event.number)) {
+        return 'Valid number is required';
+      }
+      if (event.number < 1 || event.number > 90) {
+        return 'Number must be between 1 and 90';
+      }
+      if (isLadderWon(state)) {
+        return 'All prizes have already been won';
+      }
+      return state.calledNumbers.includes(event.number)
+        ? 'This number has already been called'
+        : null;
+
+    case 'NumberVoided':
+      if (state.drawCommitted) {
+        return 'Numbers drawn from a committed order cannot be voided';
+      }
+      if (state.calledNumbers.length === 0) {
+        return 'No number has been called yet';
+      }
+      return state.calledNumbers[state.calledNumbers.length - 1] ===
+        event.number
+        ? null
+        : 'Only the last called number can be voided';
+
+    case 'ClaimMade': {
+      if (isLadderWon(state)) {
+        return 'All prizes have already been won';
+      }
+      if (state.claims[event.claimId]) {
+        return 'This claim has already been made';
+      }
+
+      const ticket = state.tickets[event.ticketId];
+      if (!ticket) return 'Ticket not found';
+      if (ticket.removed) return 'This ticket was removed from the game';
+
+      return Object.values(state.claims).some(
+        (claim) =>
+          claim.ticketId === event.ticketId &&
+          claim.stageIndex === state.currentStage &&
+          claim.status !== 'rejected'
+      )
+        ? 'This ticket already has a claim for the current prize'
+        : null;
+    }
+
+    case 'ClaimVerified': {
+      const claim = state.claims[event.claimId];
+      if (!claim) return 'Claim not found';
+      return claim.status === 'pending'
+        ? null
+        : 'This claim has already been resolved';
+    }
+
+    case 'StageAdvanced':
+      if (isLadderWon(state)) {
+        return 'All prizes have already been won';
+      }
+      return Object.values(state.claims).some(
+        (claim) =>
+          claim.stageIndex === state.currentStage &&
+          claim.status === 'accepted'
+      )
+        ? null
+        : 'The current prize has no winner yet';
+
+    case 'GameEnded':
+      return null;
+  }
+}
+
+// ============================================================================
+// Reducer
+// ============================================================================
+
+/**
+ * Applies an event to the state
+ *
+ * Pure: the previous state is never modified, so the result can be stored
+ * straight into React state.
+ *
+ * @param state - Current state (null before the room is created)
+ * @param event - The event to apply
+ * @returns The next state
+ * @throws Error if the event breaks a rule (see validateGameEvent)
+ */
+export function applyGameEvent(
+  state: GameState | null,
+  event: GameEvent
+): GameState {
+  const violation = validateGameEvent(state, event);
+
+  if (violation) {
+    throw new Error(violation);
+  }
+
+  if (event.type === 'RoomCreated') {
+    return {
+      roomId: event.roomId,
+      status: 'waiting',
+      prizeStages: event.prizeStages,
+      currentStage: 0,
+      drawCommitted: event.drawCommitted,
+      calledNumbers: [],
+      tickets: {},
+      claims: {},
+      startedAt: null,
+      endedAt: null
+    };
+  }
+
+  // validateGameEvent only lets RoomCreated through without a state
+  const current = state!;
+
+  switch (event.type) {
+    case 'PlayerJoined':
+      return {
+        ...current,
+        tickets: {
+          ...current.tickets,
+          [event.ticketId]: {
+            id: event.ticketId,
+            playerId: event.playerId,
+            playerName: event.playerName,
+            ticketData: event.ticketData,
+            removed: false
+          }
+        }
+      };
+
+    case 'PlayerRemoved': {
+      const tickets = { ...current.tickets };
+      const claims = { ...current.claims };
+
+      for (const ticket of Object.values(tickets)) {
+        if (ticket.playerId === event.playerId) {
+          tickets[ticket.id] = { ...ticket, removed: true };
+        }
+      }
+
+      // Their pending claims are dismissed along with them
+      for (const claim of Object.values(claims)) {
+        if (claim.playerId === event.playerId && claim.status === 'pending') {
+          claims[claim.id] = { ...claim, isValid: false, status: 'rejected' };
+        }
+      }
+
+      return { ...current, tickets, claims };
+    }
+
+    case 'NumberCalled':
+      return {
+        ...current,
+        status: 'active',
+        startedAt: current.startedAt ?? event.at,
+        calledNumbers: [...current.calledNumbers, event.number]
+      };
+
+    case 'NumberVoided': {
+      const calledNumbers = current.calledNumbers.slice(0, -1);
+      const claims = { ...current.claims };
+
+      // Pending claims may have relied on the voided number
+      for (const claim of Object.values(claims)) {
+        const ticket = current.tickets[claim.ticketId];
+        if (claim.status !== 'pending' || !ticket) continue;
+
+        claims[claim.id] = {
+          ...claim,
+          ...verifyTicket(current, ticket, claim.stageIndex, calledNumbers)
+        };
+      }
+
+      return { ...current, calledNumbers, claims };
+    }
+
+    case 'ClaimMade': {
+      const ticket = current.tickets[event.ticketId];
+
+      return {
+        ...current,
+        claims: {
+          ...current.claims,
+          [event.claimId]: {
+            id: event.claimId,
+            ticketId: ticket.id,
+            playerId: ticket.playerId,
+            stageIndex: current.currentStage,
+            ...verifyTicket(current, ticket, current.currentStage),
+            calledCount: current.calledNumbers.length,
+            status: 'pending'
+          }
+        }
+      };
+    }
+
+    case 'ClaimVerified': {
+      const claim = { ...current.claims[event.claimId], status: event.status };
+      const finalStage = current.prizeStages.length - 1;
+
+      // Accepting the final prize completes the ladder; earlier stages are
+      // advanced by the host so several winners can share a stage
+      const completesLadder =
+        event.status === 'accepted' &&
+        claim.stageIndex === finalStage &&
+        current.currentStage === finalStage;
+
+      return {
+        ...current,
+        currentStage: completesLadder
+          ? current.currentStage + 1
+          : current.currentStage,
+        claims: { ...current.claims, [claim.id]: claim }
+      };
+    }
+
+    case 'StageAdvanced':
+      return { ...current, currentStage: current.currentStage + 1 };
+
+    case 'GameEnded':
+      return { ...current, status: 'completed', endedAt: event.at };
+  }
+}
+
+/**
+ * Rebuilds a room's state from its event log
+ *
+ * @param events - The room's events, oldest first (starting with RoomCreated)
+ * @returns The state after the last event
+ * @throws Error if the log is empty or an event breaks a rule
+ *
+ * @example
+ * const state = replayGameEvents([
+ *   { type: 'RoomCreated', roomId, prizeStages, drawCommitted: false, at },
+ *   { type: 'NumberCalled', number: 42, at }
+ * ]);
+ * state.calledNumbers; // [42]
+ */
+export function replayGameEvents(events: GameEvent[]): GameState {
+  const state = events.reduce<GameState | null>(applyGameEvent, null);
+
+  if (!state) {
+    throw new Error('Room has not been created');
+  }
+
+  return state;
+}
+
+// ============================================================================
+// Room Event Log
+// ============================================================================
+
+/**
+ * Converts an entry of a room's event log (room_events) into a game event
+ *
+ * The log also holds events the engine has no use for (renames, the
+ * automatic caller) and some the engine derives itself, such as the prize
+ * ladder completing when the final prize is accepted.
+ *
+ * @param event - The logged event
+ * @param state - State before the event
+ * @param tickets - The room's tickets, removed ones included (the log only
+ *   holds their ids)
+ * @returns The game event, or null if it changes nothing the engine tracks
+ * @throws Error if a dealt ticket is missing from `tickets`
+ */
+export function roomEventToGameEvent(
+  event: RoomEvent,
+  state: GameState,
+  tickets: LotoTicket[]
+): GameEvent | null {
+  const at = event.created_at;
+
+  switch (event.type) {
+    case 'player_joined': {
+      const { player_id, player_name, ticket_id } = event.payload;
+      const ticket = tickets.find((t) => t.id === ticket_id);
+
+      if (!ticket) {
+        throw new Error(`Ticket ${ticket_id} not found`);
+      }
+
+      return {
+        type: 'PlayerJoined',
+        playerId: player_id,
+        playerName: player_name,
+        ticketId: ticket_id,
+        ticketData: ticket.ticket_data,
+        at
+      };
+    }
+
+    case 'player_removed': {
+      const { player_id } = event.payload;
+
+      // Banning a player who holds no ticket only keeps them out
+      const holdsTicket = Object.values(state.tickets).some(
+        (ticket) => ticket.playerId === player_id && !ticket.removed
+      );
+      return holdsTicket
+        ? { type: 'PlayerRemoved', playerId: player_id, at }
+        : null;
+    }
+
+    case 'number_called':
+      return {
+        type: 'NumberCalled',
+        number: event.payload.number,
+        at: event.payload.called_at
+      };
+
+    case 'number_voided':
+      return {
+        type: 'NumberVoided',
+        number: event.payload.number,
+        reason: event.payload.reason,
+        at: event.payload.voided_at
+      };
+
+    case 'claim_submitted':
+      return {
+        type: 'ClaimMade',
+        claimId: event.payload.claim.id,
+        ticketId: event.payload.claim.ticket_id,
+        at: event.payload.claim.created_at
+      };
+
+    case 'claim_resolved': {
+      const { claim } = event.payload;
+
+      return claim.status === 'pending'
+        ? null
+        : {
+            type: 'ClaimVerified',
+            claimId: claim.id,
+            status: claim.status,
+            at: claim.resolved_at ?? at
+          };
+    }
+
+    case 'stage_advanced':
+      // Accepting the final prize already moved the ladder on
+      return event.payload.current_stage > state.currentStage
+        ? { type: 'StageAdvanced', at }
+        : null;
+
+    case 'room_status_changed':
+      // The game starts with its first call
+      return event.payload.status === 'completed'
+        ? { type: 'GameEnded', at }
+        : null;
+
+    case 'player_renamed':
+    case 'auto_call_changed':
+      return null;
+  }
+}
+
+/**
+ * Rebuilds a room's state from its event log (room_events)
+ *
+ * @param room - The room (its creation is not in the log)
+ * @param events - The room's events, oldest first
+ * @param tickets - The room's tickets, removed ones included
+ * @returns The state after the last event
+ * @throws Error if an event breaks a rule or a dealt ticket is missing
+ *
+ * @example
+ * const state = replayRoomEvents(
+ *   room,
+ *   await getRoomEventLog(room.id),
+ *   await getRoomTickets(room.id, { includeRemoved: true })
+ * );
+ */
+export function replayRoomEvents(
+  room: PublicRoom,
+  events: RoomEvent[],
+  tickets: LotoTicket[]
+): GameState {
+  const created = applyGameEvent(null, {
+    type: 'RoomCreated',
+    roomId: room.id,
+    prizeStages: room.prize_stages,
+    drawCommitted: room.draw_commitment !== null,
+    at: room.created_at
+  });
+
+  return events.reduce((state, event) => {
+    const gameEvent = roomEventToGameEvent(event, state, tickets);
+    return gameEvent ? applyGameEvent(state, gameEvent) : state;
+  }, created);
+}
+
+// ============================================================================
+// Snapshots
+// ============================================================================
+
+/**
+ * Builds the engine state from a room as stored in the database
+ *
+ * Tickets and claims are optional: pass the ones the caller has loaded and
+ * the rules that depend on them will see them.
+ *
+ * @param room - The room
+ * @param calledNumbers - Called numbers, in call order
+ * @param options - Tickets and claims of the room, if loaded
+ *
+ * @example
+ * const state = getGameStateFromRoom(room, await getCalledNumbers(room.id));
+ */
+export function getGameStateFromRoom(
+  room: PublicRoom,
+  calledNumbers: number[],
+  options: { tickets?: LotoTicket[]; claims?: WinClaim[] } = {}
+): GameState {
+  const { tickets = [], claims = [] } = options;
+
+  return {
+    roomId: room.id,
+    status: room.status,
+    prizeStages: room.prize_stages,
+    currentStage: room.current_stage,
+    drawCommitted: room.draw_commitment !== null,
+    calledNumbers,
+    tickets: Object.fromEntries(
+      tickets.map((ticket) => [
+        ticket.id,
+        {
+          id: ticket.id,
+          playerId: ticket.player_id,
+          playerName: ticket.player_name,
+          ticketData: ticket.ticket_data,
+          removed: ticket.invalidated_at !== null
+        }
+      ])
+    ),
+    claims: Object.fromEntries(
+      claims.map((claim) => [
+        claim.id,
+        {
+          id: claim.id,
+          ticketId: claim.ticket_id,
+          playerId: claim.player_id,
+          stageIndex: claim.stage_index,
+          isValid: claim.is_valid,
+          winType: claim.win_type,
+          winningRows: claim.winning_rows,
+          calledCount: claim.called_count,
+          status: claim.status
+        }
+      ])
+    ),
+    startedAt: room.started_at,
+    endedAt: room.ended_at
+  };
+}
+
+/**
+ * Checks that a replayed state ends where the stored room is
+ *
+ * Compares what the log drives: calls, the ladder, the end of the game,
+ * dealt and removed tickets, and claim verdicts.
+ */
+function matchesSnapshot(replayed: GameState, snapshot: GameState): boolean {
+  const ticketsOf = (state: GameState) =>
+    Object.values(state.tickets)
+      .map((ticket) => `${ticket.id}:${ticket.removed}`)
+      .sort()
+      .join();
+  const claimsOf = (state: GameState) =>
+    Object.values(state.claims)
+      .map((claim) => `${claim.id}:${claim.status}`)
+      .sort()
+      .join();
+
+  return (
+    replayed.calledNumbers.join() === snapshot.calledNumbers.join() &&
+    replayed.currentStage === snapshot.currentStage &&
+    (replayed.status === 'completed') === (snapshot.status === 'completed') &&
+    ticketsOf(replayed) === ticketsOf(snapshot) &&
+    claimsOf(replayed) === claimsOf(snapshot)
+  );
+}
+
+/**
+ * Rebuilds a room's state from its event log, or from its tables if the log
+ * has gaps
+ *
+ * Events are published best-effort, so a lost one can make the replay break
+ * a rule or end somewhere other than the stored room. Either way the
+ * snapshot of the tables is used instead.
+ *
+ * @param room - The room
+ * @param events - The room's events, oldest first
+ * @param tickets - The room's tickets, removed ones included
+ * @param snapshot - The room's state from its tables (see
+ *   `getGameStateFromRoom`), with every ticket and claim
+ * @returns The state, and whether it came from the log or the tables
+ *
+ * @example
+ * const { state, source } = rebuildRoomState(room, events, snapshot);
+ */
+export function rebuildRoomState(
+  room: PublicRoom,
+  events: RoomEvent[],
+  tickets: LotoTicket[],
+  snapshot: GameState
+): { state: GameState; source: 'event_log' | 'tables' } {
+  try {
+    const replayed = replayRoomEvents(room, events, tickets);
+
+    if (matchesSnapshot(replayed, snapshot)) {
+      return { state: replayed, source: 'event_log' };
+    }
+  } catch {
+    // Fall through to the tables
+  }
+
+  return { state: snapshot, source: 'tables' };
+}
+
+/**
+ * Gets the numbers that may be called next
+ *
+ * @returns Uncalled numbers, or none once the game or the ladder is over
+ */
+export function getCallableNumbers(state: GameState): number[] {
+  if (state.status === 'completed' || isLadderWon(state)) return [];
+
+  const called = new Set(state.calledNumbers);
+  return ALL_NUMBERS.filter((number) => !called.has(number));
+}
@@ -0,0 +1,100 @@
+/** Shortest allowed display name (characters) */
+export const PLAYER_NAME_MIN_LENGTH = 2;
+
+/** Longest allowed display name (characters) */
+export const PLAYER_NAME_MAX_LENGTH = 20;
+
+// Letters (including Vietnamese), digits, spaces and a little punctuation
+const ALLOWED_NAME = /^[\p{L}\p{M}\p{N} ._'-]+$/u;
+
+/**
+ * Words a display name may not contain
+ *
+ * Matched against whole words, so "các" or "lớn" stay allowed. Longer
+ * English stems are also matched inside words ("fucker").
+ */
+const BLOCKED_WORDS = [
+  'địt',
+  'đụ',
+  'lồn',
+  'cặc',
+  'buồi',
+  'đéo',
+  'đĩ',
+  'dm',
+  'đm',
+  'dcm',
+  'đcm',
+  'vcl',
+  'vkl',
+  'clgt',
+  'fuck',
+  'shit',
+  'bitch',
+  'cunt',
+  'dick',
+  'asshole'
+];
+const BLOCKED_STEMS = ['fuck', 'shit', 'bitch', 'cunt', 'asshole'];
+
+/**
+ * Tidies a display name: trims, collapses spaces, normalizes Unicode (NFC)
+ *
+ * @example
+ * normalizePlayerName('  Lan   Anh '); // 'Lan Anh'
+ */
+export function normalizePlayerName(name: string): string {
+  return name.normalize('NFC').trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Checks a display name's length, characters and language
+ *
+ * Uniqueness within a room is checked by the database service.
+ *
+ * @param name - The name as entered
+ * @returns An error message, or null if the name is acceptable
+ *
+ * @example
+ * validatePlayerName('Lan Anh'); // null
+ * validatePlayerName('A'); // 'Name must be 2-20 characters'
+ */
+export function validatePlayerName(name: unknown): string | null {
+  if (typeof name !== 'string') {
+    return 'Name is required';
+  }
+
+  const normalized = normalizePlayerName(name);
+  const length = [...normalized].length;
+
+  if (length < PLAYER_NAME_MIN_LENGTH || length > PLAYER_NAME_MAX_LENGTH) {
+    return `Name must be ${PLAYER_NAME_MIN_LENGTH}-${PLAYER_NAME_MAX_LENGTH} characters`;
+  }
+
+  if (!ALLOWED_NAME.test(normalized)) {
+    return 'Name may only contain letters, numbers, spaces and . _ \' -';
+  }
+
+  const lower = normalized.toLocaleLowerCase('vi');
+  const words = lower.split(/[\s._'-]+/);
+
+  if (
+    words.some((word) => BLOCKED_WORDS.includes(word)) ||
+    BLOCKED_STEMS.some((stem) => lower.includes(stem))
+  ) {
+    return 'Please choose a different name';
+  }
+
+  return null;
+}
+
+/**
+ * Compares two display names the way uniqueness is enforced
+ * (after normalizing, ignoring case)
+ */
+export function isSamePlayerName(a: string, b: string): boolean {
+  return (
+    normalizePlayerName(a).toLocaleLowerCase('vi') ===
+    normalizePlayerName(b).toLocaleLowerCase('vi')
+  );
+}
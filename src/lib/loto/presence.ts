@@ -0,0 +1,21 @@
+/** How often a player's page reports that it is still open (ms) */
+export const PRESENCE_HEARTBEAT_INTERVAL = 20000;
+
+/** A player counts as online if seen within this window (ms) */
+export const PRESENCE_TIMEOUT = 45000;
+
+/**
+ * Checks whether a player was seen recently enough to count as online
+ *
+ * @param lastSeenAt - ISO timestamp of the last heartbeat (null if never)
+ * @param now - Current time in ms (defaults to Date.now())
+ */
+export function isPresenceOnline(
+  lastSeenAt: string | null,
+  now: number = Date.now()
+): boolean {
+  return (
+    lastSeenAt !== null &&
+    now - new Date(lastSeenAt).getTime() < PRESENCE_TIMEOUT
+  );
+}
@@ -0,0 +1,67 @@
+import type { PrizeStage, PublicRoom, WinType } from '@/types/loto';
+import { getWinPattern } from '@/lib/loto/win-detection';
+
+/**
+ * Builds the default prize ladder for a set of win types
+ *
+ * One stage per win type, easiest (lowest rank) first, so a room playing
+ * "one row" and "full house" awards the row prize before the full house.
+ *
+ * @example
+ * buildDefaultPrizeStages(['full_house', 'full_row']);
+ * // [{ win_type: 'full_row', label: 'Một hàng' },
+ * //  { win_type: 'full_house', label: 'Cả vé' }]
+ */
+export function buildDefaultPrizeStages(winTypes: WinType[]): PrizeStage[] {
+  return [...new Set(winTypes)]
+    .map((winType) => getWinPattern(winType))
+    .filter((definition) => definition !== undefined)
+    .sort((a, b) => a.rank - b.rank)
+    .map((definition) => ({
+      win_type: definition.winType,
+      label: definition.label
+    }));
+}
+
+/**
+ * Checks that a prize ladder is non-empty and only uses enabled win types
+ */
+export function isValidPrizeStageList(
+  stages: unknown,
+  enabledWinTypes: WinType[]
+): stages is PrizeStage[] {
+  return (
+    Array.isArray(stages) &&
+    stages.length > 0 &&
+    stages.every(
+      (stage) =>
+        typeof stage === 'object' &&
+        stage !== null &&
+        enabledWinTypes.includes(stage.win_type) &&
+        typeof stage.label === 'string' &&
+        stage.label.trim().length > 0 &&
+        (stage.prize === undefined || typeof stage.prize === 'string')
+    )
+  );
+}
+
+/**
+ * Gets the stage currently being played, or null once every prize is won
+ */
+export function getCurrentStage(room: PublicRoom): PrizeStage | null {
+  return room.prize_stages[room.current_stage] ?? null;
+}
+
+/**
+ * Checks whether the room's current stage is the last one
+ */
+export function isFinalStage(room: PublicRoom): boolean {
+  return room.current_stage === room.prize_stages.length - 1;
+}
+
+/**
+ * Checks whether every prize in the ladder has been won
+ */
+export function isLadderComplete(room: PublicRoom): boolean {
+  return room.current_stage >= room.prize_stages.length;
+}
@@ -0,0 +1,37 @@
+/**
+ * Rhymes ("câu rao") the announcer can sing before a number
+ *
+ * Keyed by number; a number may have several rhymes. Numbers without an
+ * entry are simply read out. Hosts can add their own rhymes from the
+ * announcer settings, which take precedence over this bank.
+ */
+export type RhymeBank = Partial<Record<number, string[]>>;
+
+/**
+ * Default rhyme bank
+ *
+ * Edit freely: each line should lead into the number that follows it.
+ */
+export const DEFAULT_RHYMES: RhymeBank = {
+  1: ['Một mình một bóng, ngồi chờ người thương'],
+  2: ['Hai người chung bước, một đường về quê'],
+  3: ['Ba gian nhà nhỏ, mái lá đơn sơ'],
+  4: ['Bốn mùa xuân hạ, thu đông xoay vần'],
+  5: ['Năm canh thức trắng, đợi chờ tin ai'],
+  7: ['Bảy sắc cầu vồng, vắt ngang trời xanh'],
+  9: ['Chín con rồng nhỏ, về chầu Cửu Long'],
+  10: ['Mười phân vẹn mười, ai người nên đôi'],
+  12: ['Mười hai bến nước, biết bến nào trong'],
+  15: ['Rằm tháng Giêng, trăng sáng đầy sân'],
+  18: ['Mười tám tuổi xuân, má hồng môi thắm'],
+  20: ['Hai mươi năm lẻ, vẫn nhớ quê nhà'],
+  30: ['Ba mươi Tết đến, nhà nhà sum vầy'],
+  36: ['Ba mươi sáu phố, phường xưa Hà Nội'],
+  45: ['Bốn lăm năm ấy, mùa thu cách mạng'],
+  49: ['Bốn chín chưa qua, năm ba đã tới'],
+  53: ['Năm ba đã tới, bốn chín vừa qua'],
+  69: ['Sáu chín sáu chín, lộn đầu vẫn vậy'],
+  77: ['Bảy với bảy, đôi én chao nghiêng'],
+  88: ['Tám tám phát phát, tiền vô như nước'],
+  90: ['Chín mươi hết số, ai kinh thì la']
+};
@@ -0,0 +1,25 @@
+/**
+ * Room capacity (players holding tickets)
+ */
+
+/** Smallest player limit a host may set */
+export const MIN_ROOM_PLAYERS = 2;
+
+/** Largest player limit a host may set */
+export const MAX_ROOM_PLAYERS = 100;
+
+/** Player limits offered when creating a room */
+export const ROOM_CAPACITY_OPTIONS = [5, 10, 20, 30, 50, 100];
+
+/**
+ * Checks a room's player limit (null means no limit)
+ */
+export function isValidRoomCapacity(value: unknown): value is number | null {
+  return (
+    value === null ||
+    (typeof value === 'number' &&
+      Number.isInteger(value) &&
+      value >= MIN_ROOM_PLAYERS &&
+      value <= MAX_ROOM_PLAYERS)
+  );
+}
@@ -0,0 +1,29 @@
+/**
+ * Join PINs for private rooms
+ */
+
+/** Wrong PINs a guest may enter before being locked out */
+export const MAX_PIN_ATTEMPTS = 5;
+
+/** How long a guest is locked out after too many wrong PINs (ms) */
+export const PIN_LOCKOUT_DURATION = 5 * 60 * 1000;
+
+/**
+ * Checks that a PIN is 4-8 digits
+ */
+export function isValidRoomPin(pin: unknown): pin is string {
+  return typeof pin === 'string' && /^\d{4,8}$/.test(pin);
+}
+
+/**
+ * Checks whether a guest is still locked out of a room
+ *
+ * @param lockedUntil - The lockout end recorded for the guest
+ * @param now - Current time in ms (defaults to Date.now())
+ */
+export function isPinLockedOut(
+  lockedUntil: string | null,
+  now: number = Date.now()
+): boolean {
+  return lockedUntil !== null && new Date(lockedUntil).getTime() > now;
+}
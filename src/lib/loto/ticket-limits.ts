@@ -0,0 +1,17 @@
+/** Most tickets a room may allow each player to hold */
+export const MAX_TICKETS_PER_PLAYER = 6;
+
+/** Tickets per player until the host raises the limit */
+export const DEFAULT_TICKETS_PER_PLAYER = 1;
+
+/**
+ * Checks that a per-player ticket limit is a whole number in range
+ */
+export function isValidTicketLimit(limit: unknown): limit is number {
+  return (
+    typeof limit === 'number' &&
+    Number.isInteger(limit) &&
+    limit >= 1 &&
+    limit <= MAX_TICKETS_PER_PLAYER
+  );
+}
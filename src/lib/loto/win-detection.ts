@@ -1,4 +1,4 @@
-import type { TicketGrid } from '@/types/loto';
+import type { TicketGrid, WinType } from '@/types/loto';
 
 /**
  * Win pattern types for Loto game
@@ -7,12 +7,79 @@ export type WinPattern =
   | 'top-line' // Top row complete
   | 'middle-line' // Middle row complete
   | 'bottom-line' // Bottom row complete
+  | 'two-lines' // Any two rows complete
+  | 'four-corners' // First and last number of the top and bottom rows
+  | 'outer-columns' // Every number in the first and last columns
+  | 'diagonal' // Four corners plus the centre number of the middle row
   | 'full-house'; // All numbers marked
 
 export interface WinResult {
   hasWon: boolean;
   pattern?: WinPattern;
+  winType?: WinType;
   completedRows: number[];
+  matches: WinMatch[]; // Every enabled pattern that matched, best first
+}
+
+/**
+ * A single pattern matched on a ticket
+ */
+export interface WinMatch {
+  winType: WinType;
+  pattern: WinPattern;
+}
+
+/**
+ * A registered win pattern
+ *
+ * Rooms enable patterns by their `winType`. When several enabled patterns
+ * match at once, the one with the highest `rank` is reported as the win.
+ * `numbersAway` counts the unmarked numbers still needed for the pattern
+ * (0 once it matches).
+ */
+export interface WinPatternDefinition {
+  winType: WinType;
+  label: string;
+  description: string;
+  rank: number;
+  detect: (
+    ticketData: TicketGrid,
+    markedNumbers: Set<number>,
+    completedRows: number[]
+  ) => WinPattern | null;
+  numbersAway: (ticketData: TicketGrid, markedNumbers: Set<number>) => number;
+}
+
+/**
+ * Win types enabled when a room doesn't choose its own
+ */
+export const DEFAULT_WIN_TYPES: WinType[] = ['full_row', 'full_house'];
+
+const ROW_PATTERNS: WinPattern[] = ['top-line', 'middle-line', 'bottom-line'];
+
+/**
+ * Gets the numbers in a row, left to right
+ */
+function getRowNumbers(row: (number | null)[]): number[] {
+  return row.filter((cell): cell is number => cell !== null);
+}
+
+/**
+ * Gets the numbers in a column, top to bottom
+ */
+function getColumnNumbers(ticketData: TicketGrid, col: number): number[] {
+  return ticketData
+    .map((row) => row[col])
+    .filter((cell): cell is number => cell !== null);
+}
+
+/**
+ * Gets the four corner numbers: first and last of the top and bottom rows
+ */
+function getCornerNumbers(ticketData: TicketGrid): number[] {
+  const top = getRowNumbers(ticketData[0]);
+  const bottom = getRowNumbers(ticketData[ticketData.length - 1]);
+  return [top[0], top[top.length - 1], bottom[0], bottom[bottom.length - 1]];
 }
 
 /**
@@ -22,28 +89,204 @@ function isRowComplete(
   row: (number | null)[],
   markedNumbers: Set<number>
 ): boolean {
-  const rowNumbers = row.filter((cell): cell is number => cell !== null);
+  const rowNumbers = getRowNumbers(row);
   return (
     rowNumbers.length > 0 && rowNumbers.every((num) => markedNumbers.has(num))
   );
 }
 
+/**
+ * Counts the numbers in a list that are not marked yet
+ */
+function countUnmarked(numbers: number[], markedNumbers: Set<number>): number {
+  return numbers.filter((num) => !markedNumbers.has(num)).length;
+}
+
+/**
+ * Unmarked counts of each row, fewest first
+ */
+function getRowShortfalls(
+  ticketData: TicketGrid,
+  markedNumbers: Set<number>
+): number[] {
+  return ticketData
+    .map((row) => countUnmarked(getRowNumbers(row), markedNumbers))
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Gets the four corners plus the centre number of the middle row
+ */
+function getDiagonalNumbers(ticketData: TicketGrid): number[] {
+  const middle = getRowNumbers(ticketData[1]);
+  const centre = middle[Math.floor(middle.length / 2)];
+  return [...getCornerNumbers(ticketData), centre];
+}
+
+/**
+ * Gets every number in the first and last columns
+ */
+function getOuterColumnNumbers(ticketData: TicketGrid): number[] {
+  return [
+    ...getColumnNumbers(ticketData, 0),
+    ...getColumnNumbers(ticketData, ticketData[0].length - 1)
+  ];
+}
+
+/**
+ * Checks if every number in a list is marked
+ */
+function allMarked(numbers: number[], markedNumbers: Set<number>): boolean {
+  return (
+    numbers.length > 0 &&
+    numbers.every((num) => num !== undefined && markedNumbers.has(num))
+  );
+}
+
+const registry = new Map<WinType, WinPatternDefinition>();
+
+/**
+ * Registers (or replaces) a win pattern
+ *
+ * @example
+ * ```typescript
+ * registerWinPattern({
+ *   winType: 'four_corners',
+ *   label: 'Bốn góc',
+ *   description: 'Four corner numbers',
+ *   rank: 2,
+ *   detect: (ticket, marked) => ...,
+ *   numbersAway: (ticket, marked) => ...
+ * });
+ * ```
+ */
+export function registerWinPattern(definition: WinPatternDefinition): void {
+  registry.set(definition.winType, definition);
+}
+
+/**
+ * Gets a registered win pattern by its win type
+ */
+export function getWinPattern(
+  winType: WinType
+): WinPatternDefinition | undefined {
+  return registry.get(winType);
+}
+
+/**
+ * Gets all registered win patterns, lowest rank first
+ */
+export function getWinPatterns(): WinPatternDefinition[] {
+  return [...registry.values()].sort((a, b) => a.rank - b.rank);
+}
+
+/**
+ * Checks that a list of win types is non-empty and fully registered
+ */
+export function isValidWinTypeList(winTypes: unknown): winTypes is WinType[] {
+  return (
+    Array.isArray(winTypes) &&
+    winTypes.length > 0 &&
+    winTypes.every((type) => registry.has(type as WinType))
+  );
+}
+
+registerWinPattern({
+  winType: 'full_row',
+  label: 'Một hàng',
+  description: 'Any row complete',
+  rank: 1,
+  detect: (_ticketData, _markedNumbers, completedRows) =>
+    completedRows.length > 0 ? ROW_PATTERNS[completedRows[0]] : null,
+  numbersAway: (ticketData, markedNumbers) =>
+    getRowShortfalls(ticketData, markedNumbers)[0]
+});
+
+registerWinPattern({
+  winType: 'four_corners',
+  label: 'Bốn góc',
+  description: 'First and last numbers of the top and bottom rows',
+  rank: 2,
+  detect: (ticketData, markedNumbers) =>
+    allMarked(getCornerNumbers(ticketData), markedNumbers)
+      ? 'four-corners'
+      : null,
+  numbersAway: (ticketData, markedNumbers) =>
+    countUnmarked(getCornerNumbers(ticketData), markedNumbers)
+});
+
+registerWinPattern({
+  winType: 'outer_columns',
+  label: 'Cột đầu và cột cuối',
+  description: 'Every number in the first and last columns',
+  rank: 3,
+  detect: (ticketData, markedNumbers) =>
+    allMarked(getOuterColumnNumbers(ticketData), markedNumbers)
+      ? 'outer-columns'
+      : null,
+  numbersAway: (ticketData, markedNumbers) =>
+    countUnmarked(getOuterColumnNumbers(ticketData), markedNumbers)
+});
+
+registerWinPattern({
+  winType: 'diagonal',
+  label: 'Chéo chữ X',
+  description: 'The four corners plus the centre number of the middle row',
+  rank: 3,
+  detect: (ticketData, markedNumbers) =>
+    allMarked(getDiagonalNumbers(ticketData), markedNumbers)
+      ? 'diagonal'
+      : null,
+  numbersAway: (ticketData, markedNumbers) =>
+    countUnmarked(getDiagonalNumbers(ticketData), markedNumbers)
+});
+
+registerWinPattern({
+  winType: 'two_rows',
+  label: 'Hai hàng',
+  description: 'Any two rows complete',
+  rank: 4,
+  detect: (_ticketData, _markedNumbers, completedRows) =>
+    completedRows.length >= 2 ? 'two-lines' : null,
+  numbersAway: (ticketData, markedNumbers) => {
+    const [first, second] = getRowShortfalls(ticketData, markedNumbers);
+    return first + second;
+  }
+});
+
+registerWinPattern({
+  winType: 'full_house',
+  label: 'Cả vé',
+  description: 'All numbers marked',
+  rank: 10,
+  detect: (ticketData, _markedNumbers, completedRows) =>
+    completedRows.length === ticketData.length ? 'full-house' : null,
+  numbersAway: (ticketData, markedNumbers) =>
+    countUnmarked(
+      ticketData.flatMap((row) => getRowNumbers(row)),
+      markedNumbers
+    )
+});
+
 /**
  * Checks for winning patterns in a Loto ticket
  *
- * Win conditions:
- * - Top Line: All numbers in row 1 are marked
- * - Middle Line: All numbers in row 2 are marked
- * - Bottom Line: All numbers in row 3 are marked
- * - Full House: All numbers in all rows are marked
+ * Only the enabled win types are considered. When several match, the
+ * highest-ranked one is reported as `pattern`; all matches are listed in
+ * `matches`, best first.
  *
  * @param ticketData - The 3x9 ticket grid
  * @param markedNumbers - Set of called/marked numbers
+ * @param enabledWinTypes - Win types allowed in this room
  * @returns Win result with pattern and completed rows
  *
  * @example
  * ```typescript
- * const result = checkWinCondition(ticket.ticket_data, new Set([1, 2, 3, 15, 23, 45]));
+ * const result = checkWinCondition(
+ *   ticket.ticket_data,
+ *   new Set([1, 2, 3, 15, 23, 45]),
+ *   room.win_patterns
+ * );
  * if (result.hasWon) {
  *   console.log(`Won with pattern: ${result.pattern}`);
  * }
@@ -51,7 +294,8 @@ function isRowComplete(
  */
 export function checkWinCondition(
   ticketData: TicketGrid,
-  markedNumbers: Set<number>
+  markedNumbers: Set<number>,
+  enabledWinTypes: WinType[] = DEFAULT_WIN_TYPES
 ): WinResult {
   const completedRows: number[] = [];
 
@@ -62,55 +306,53 @@ export function checkWinCondition(
     }
   });
 
-  // No wins
-  if (completedRows.length === 0) {
-    return { hasWon: false, completedRows: [] };
-  }
+  const matches: WinMatch[] = [];
+  const definitions = enabledWinTypes
+    .map((winType) => registry.get(winType))
+    .filter((def): def is WinPatternDefinition => def !== undefined)
+    .sort((a, b) => b.rank - a.rank);
 
-  // Full house - all 3 rows complete
-  if (completedRows.length === 3) {
-    return {
-      hasWon: true,
-      pattern: 'full-house',
-      completedRows
-    };
+  for (const definition of definitions) {
+    const pattern = definition.detect(ticketData, markedNumbers, completedRows);
+    if (pattern) {
+      matches.push({ winType: definition.winType, pattern });
+    }
   }
 
-  // Single line wins
-  if (completedRows.length === 1) {
-    const rowIndex = completedRows[0];
-    const pattern: WinPattern =
-      rowIndex === 0
-        ? 'top-line'
-        : rowIndex === 1
-        ? 'middle-line'
-        : 'bottom-line';
-
-    return {
-      hasWon: true,
-      pattern,
-      completedRows
-    };
+  // No wins
+  if (matches.length === 0) {
+    return { hasWon: false, completedRows, matches };
   }
 
-  // Multiple lines (but not full house)
-  // For now, return the first completed line as the win
-  // You can customize this logic based on game rules
-  const firstRow = completedRows[0];
-  const pattern: WinPattern =
-    firstRow === 0
-      ? 'top-line'
-      : firstRow === 1
-      ? 'middle-line'
-      : 'bottom-line';
-
   return {
     hasWon: true,
-    pattern,
-    completedRows
+    pattern: matches[0].pattern,
+    winType: matches[0].winType,
+    completedRows,
+    matches
   };
 }
 
+/**
+ * Counts how many more numbers a ticket needs for a win type
+ *
+ * @param ticketData - The 3x9 ticket grid
+ * @param markedNumbers - Set of called/marked numbers
+ * @param winType - The win type being played
+ * @returns Numbers still needed (0 = won), or null for an unknown win type
+ *
+ * @example
+ * getNumbersAway(ticket.ticket_data, new Set(calledNumbers), 'full_row'); // 2
+ */
+export function getNumbersAway(
+  ticketData: TicketGrid,
+  markedNumbers: Set<number>,
+  winType: WinType
+): number | null {
+  const definition = registry.get(winType);
+  return definition ? definition.numbersAway(ticketData, markedNumbers) : null;
+}
+
 /**
  * Gets a display message for a win pattern
  */
@@ -122,6 +364,14 @@ export function getWinMessage(pattern: WinPattern): string {
       return '🎉 Middle Line!';
     case 'bottom-line':
       return '🎉 Bottom Line!';
+    case 'two-lines':
+      return '🎉 Two Lines!';
+    case 'four-corners':
+      return '🎉 Four Corners!';
+    case 'outer-columns':
+      return '🎉 Outer Columns!';
+    case 'diagonal':
+      return '🎉 Diagonal!';
     case 'full-house':
       return '🏆 FULL HOUSE!';
   }
@@ -179,3 +429,41 @@ export function getNumbersToWin(
       ).length
   };
 }
+
+/**
+ * Gets the numbers a ticket is waiting on ("chờ")
+ *
+ * A ticket waits on a number when marking it would complete a row or the
+ * full house.
+ *
+ * @param ticketData - The 3x9 ticket grid
+ * @param markedNumbers - Set of called/marked numbers
+ * @returns The numbers, ascending (empty when nothing is one number away)
+ *
+ * @example
+ * getWaitingNumbers(ticket.ticket_data, new Set(calledNumbers)); // [37]
+ */
+export function getWaitingNumbers(
+  ticketData: TicketGrid,
+  markedNumbers: Set<number>
+): number[] {
+  const remaining = getNumbersToWin(ticketData, markedNumbers);
+  const lines: [number, (number | null)[]][] = [
+    [remaining.topLine, ticketData[0]],
+    [remaining.middleLine, ticketData[1]],
+    [remaining.bottomLine, ticketData[2]],
+    [remaining.fullHouse, ticketData.flat()]
+  ];
+  const waiting = new Set<number>();
+
+  for (const [count, cells] of lines) {
+    if (count !== 1) continue;
+
+    const missing = cells.find(
+      (cell): cell is number => cell !== null && !markedNumbers.has(cell)
+    );
+    if (missing !== undefined) waiting.add(missing);
+  }
+
+  return [...waiting].sort((a, b) => a - b);
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isPlayerTokenValid } from '@/services/database.service';
+import { PLAYER_TOKEN_HEADER } from '@/utils/player-session';
+import type { Room } from '@/types/loto';
+
+/**
+ * Checks that a request comes from the player it acts for
+ *
+ * @param request - The incoming request (token in the x-player-token header)
+ * @param room - The player's room
+ * @param playerId - The player the request acts for
+ * @param forbiddenMessage - Error shown when the token does not match
+ * @returns An error response to return as-is, or null if the player is verified
+ *
+ * @example
+ * const denied = await requirePlayer(request, room, playerId, 'You can only rename yourself');
+ * if (denied) return denied;
+ */
+export async function requirePlayer(
+  request: NextRequest,
+  room: Room,
+  playerId: string,
+  forbiddenMessage: string
+): Promise<NextResponse | null> {
+  const token = request.headers.get(PLAYER_TOKEN_HEADER);
+
+  if (!token) {
+    return NextResponse.json(
+      { error: 'Player token is required' },
+      { status: 401 }
+    );
+  }
+
+  if (!(await isPlayerTokenValid(room.id, playerId, token))) {
+    return NextResponse.json({ error: forbiddenMessage }, { status: 403 });
+  }
+
+  return null;
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { checkRoomPin, getPlayerTickets } from '@/services/database.service';
+import type { Room } from '@/types/loto';
+
+/**
+ * Checks that a new player knows a private room's PIN
+ *
+ * Public rooms and players who already hold a ticket pass straight through.
+ * Error responses carry `pin_required: true` so the client can ask for it.
+ *
+ * @param room - The room being joined
+ * @param playerId - The guest's ID
+ * @param pin - The PIN sent by the client, if any
+ * @returns An error response to return as-is, or null if the player may join
+ *
+ * @example
+ * const denied = await requireRoomPin(room, playerId, pin);
+ * if (denied) return denied;
+ */
+export async function requireRoomPin(
+  room: Room,
+  playerId: string,
+  pin: unknown
+): Promise<NextResponse | null> {
+  if (!room.is_private) return null;
+
+  const tickets = await getPlayerTickets(room.id, playerId);
+  if (tickets.length > 0) return null;
+
+  if (typeof pin !== 'string' || pin.length === 0) {
+    return NextResponse.json(
+      { error: 'This room requires a PIN', pin_required: true },
+      { status: 401 }
+    );
+  }
+
+  const check = await checkRoomPin(room, playerId, pin);
+
+  if (check.locked_until) {
+    return NextResponse.json(
+      {
+        error: 'Too many wrong PINs. Please try again later.',
+        pin_required: true,
+        locked_until: check.locked_until
+      },
+      { status: 403 }
+    );
+  }
+
+  if (!check.is_valid) {
+    return NextResponse.json(
+      {
+        error: `Wrong PIN. ${check.attempts_left} attempt(s) left.`,
+        pin_required: true,
+        attempts_left: check.attempts_left
+      },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
@@ -6,17 +6,82 @@
  */
 
 import { supabase } from '@/utils/supabase/client';
+import { RoomRuleError } from '@/lib/errors';
 import {
-  generateLotoTicket,
-  serializeTicket
+  generateSecretToken,
+  hmacSha256Hex,
+  safeEqual,
+  sha256Hex
+} from '@/lib/hash';
+import {
+  generateLotoStripFromSeed,
+  generateLotoTicketFromSeed,
+  serializeTicket,
+  STRIP_SIZE
 } from '@/features/ticket/utils/loto-generator';
+import { generateTicketSeed } from '@/features/ticket/utils/seeded-random';
+import {
+  checkWinCondition,
+  DEFAULT_WIN_TYPES,
+  getNumbersAway,
+  getWaitingNumbers,
+  isValidWinTypeList
+} from '@/lib/loto/win-detection';
+import { getNextCommittedNumber, pickRandomNumber } from '@/lib/loto/draw';
+import {
+  buildDefaultPrizeStages,
+  getCurrentStage,
+  isLadderComplete,
+  isValidPrizeStageList
+} from '@/lib/loto/prize-ladder';
+import { getAutoCallState } from '@/lib/loto/auto-call';
+import {
+  isSamePlayerName,
+  normalizePlayerName
+} from '@/lib/loto/player-name';
+import { isPresenceOnline } from '@/lib/loto/presence';
+import {
+  isPinLockedOut,
+  isValidRoomPin,
+  MAX_PIN_ATTEMPTS,
+  PIN_LOCKOUT_DURATION
+} from '@/lib/loto/room-pin';
+import {
+  DEFAULT_TICKETS_PER_PLAYER,
+  isValidTicketLimit
+} from '@/lib/loto/ticket-limits';
+import { isValidRoomCapacity } from '@/lib/loto/room-capacity';
 import type {
   Room,
+  PublicRoom,
+  RoomPinCheck,
+  AutoCallChangeReason,
+  AutoCallState,
+  AutoCallStatus,
   LotoTicket,
+  RosterPlayer,
+  TicketStrip,
+  CalledNumber,
   CreateRoomInput,
+  CreateRoomResult,
   JoinRoomResult,
+  RoomSettingsInput,
   RoomStatus,
-  TicketGrid
+  TicketGrid,
+  WinClaim,
+  WinClaimWithTicket,
+  ClaimStatus,
+  FinalWinner,
+  SubmitClaimResult,
+  RoomEvent,
+  RoomEventPayloads,
+  RoomEventType,
+  DbJoinAttempt,
+  DbPlayerToken,
+  HistoryCall,
+  Player,
+  RoomHistory,
+  TicketMarks
 } from '@/types/loto';
 import type { Database } from '@/types/supabase';
 
@@ -36,25 +101,229 @@ function generateRoomCode(): string {
   return code;
 }
 
+/**
+ * Strips host identity and secrets from a room before sending it to clients
+ */
+export function toPublicRoom(room: Room): PublicRoom {
+  const publicRoom: Partial<Room> = { ...room };
+  delete publicRoom.host_id;
+  delete publicRoom.host_token_hash;
+  delete publicRoom.pin_hash;
+  return publicRoom as PublicRoom;
+}
+
+/**
+ * Checks a host token against the hash stored on the room
+ *
+ * @param room - The room being controlled
+ * @param token - The token sent by the client (x-host-token header)
+ * @returns true if the token belongs to the room's host
+ */
+export async function isHostTokenValid(
+  room: Room,
+  token: string | null
+): Promise<boolean> {
+  if (!token || !room.host_token_hash) return false;
+  return safeEqual(await sha256Hex(token), room.host_token_hash);
+}
+
+/**
+ * Issues a player their secret token for a room
+ *
+ * Each player gets one token per room, returned only when it is issued.
+ * Only its SHA-256 hash is stored.
+ *
+ * @param roomId - The room UUID
+ * @param playerId - The player's guest ID
+ * @returns The new token, or null if the player already has one
+ */
+export async function issuePlayerToken(
+  roomId: string,
+  playerId: string
+): Promise<string | null> {
+  const token = generateSecretToken();
+
+  const { error } = await supabase
+    .from('player_tokens')
+    // @ts-expect-error - Supabase types will be correctly inferred once DB is connected
+    .insert({
+      room_id: roomId,
+      player_id: playerId,
+      token_hash: await sha256Hex(token)
+    });
+
+  if (error) {
+    if (error.code === '23505') return null;
+    console.error('Issue player token error:', error);
+    throw new Error(`Failed to issue player token: ${error.message}`);
+  }
+
+  return token;
+}
+
+/**
+ * Checks a player token against the hash stored for the player
+ *
+ * @param roomId - The room UUID
+ * @param playerId - The player the request acts for
+ * @param token - The token sent by the client (x-player-token header)
+ * @returns true if the token was issued to this player in this room
+ */
+export async function isPlayerTokenValid(
+  roomId: string,
+  playerId: string,
+  token: string | null
+): Promise<boolean> {
+  if (!token) return false;
+
+  const { data, error } = await supabase
+    .from('player_tokens')
+    .select('*')
+    .eq('room_id', roomId)
+    .eq('player_id', playerId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Get player token error:', error);
+    throw new Error(`Failed to check player token: ${error.message}`);
+  }
+
+  const issued = data as DbPlayerToken | null;
+  if (!issued) return false;
+
+  return safeEqual(await sha256Hex(token), issued.token_hash);
+}
+
+/**
+ * Hashes a private room's join PIN
+ *
+ * HMAC(LOTO_PIN_SECRET, roomId:pin): a short PIN's plain hash in the publicly
+ * readable rooms table could be brute-forced offline.
+ *
+ * @throws Error if LOTO_PIN_SECRET is not configured
+ */
+async function hashRoomPin(roomId: string, pin: string): Promise<string> {
+  const secret = process.env.LOTO_PIN_SECRET;
+
+  if (!secret) {
+    throw new Error(
+      'Private rooms are not available: LOTO_PIN_SECRET is not set.'
+    );
+  }
+
+  return hmacSha256Hex(secret, `${roomId}:${pin}`);
+}
+
 /**
  * Creates a new game room
  *
+ * A random host token is generated for the room. Only its hash is stored;
+ * the token itself is returned once so the host can keep it.
+ *
  * @param input - Room creation parameters
- * @returns The created room
+ * @returns The created room and its host token
  * @throws Error if room creation fails
  *
  * @example
- * const room = await createRoom({ host_id: guestId });
+ * const { room, host_token } = await createRoom({ host_id: guestId });
+ * // or with house rules
+ * const { room, host_token } = await createRoom({
+ *   host_id: guestId,
+ *   win_patterns: ['two_rows', 'four_corners', 'full_house']
+ * });
+ * // or with a committed draw order
+ * const { room, host_token } = await createRoom({
+ *   host_id: guestId,
+ *   commit_reveal: true
+ * });
+ * // or dealing tickets from strips of 6 covering 1-90
+ * const { room, host_token } = await createRoom({
+ *   host_id: guestId,
+ *   use_strips: true
+ * });
+ * // or letting each player buy up to three tickets
+ * const { room, host_token } = await createRoom({
+ *   host_id: guestId,
+ *   max_tickets_per_player: 3
+ * });
+ * // or a private room that asks new players for a PIN
+ * const { room, host_token } = await createRoom({
+ *   host_id: guestId,
+ *   pin: '2468'
+ * });
+ * // or at most 20 players, none joining after the first call
+ * const { room, host_token } = await createRoom({
+ *   host_id: guestId,
+ *   max_players: 20,
+ *   allow_late_join: false
+ * });
  */
-export async function createRoom(input: CreateRoomInput): Promise<Room> {
+export async function createRoom(
+  input: CreateRoomInput
+): Promise<CreateRoomResult> {
   const roomCode = input.room_code || generateRoomCode();
+  const winPatterns = input.win_patterns ?? DEFAULT_WIN_TYPES;
+
+  if (!isValidWinTypeList(winPatterns)) {
+    throw new Error('Invalid win patterns. Choose at least one known pattern.');
+  }
+
+  const prizeStages =
+    input.prize_stages ?? buildDefaultPrizeStages(winPatterns);
+
+  if (!isValidPrizeStageList(prizeStages, winPatterns)) {
+    throw new Error(
+      'Invalid prize stages. Each stage must use one of the enabled win patterns.'
+    );
+  }
+
+  const maxTickets = input.max_tickets_per_player ?? DEFAULT_TICKETS_PER_PLAYER;
+
+  if (!isValidTicketLimit(maxTickets)) {
+    throw new Error('Invalid ticket limit. Allow between 1 and 6 tickets.');
+  }
+
+  if (input.pin !== undefined && !isValidRoomPin(input.pin)) {
+    throw new Error('Invalid PIN. Use 4 to 8 digits.');
+  }
+
+  const maxPlayers = input.max_players ?? null;
+
+  if (!isValidRoomCapacity(maxPlayers)) {
+    throw new Error('Invalid player limit. Allow between 2 and 100 players.');
+  }
+
+  const hostToken = generateSecretToken();
 
   const insertData: Database['public']['Tables']['rooms']['Insert'] = {
     room_code: roomCode,
     host_id: input.host_id,
-    status: 'waiting'
+    host_token_hash: await sha256Hex(hostToken),
+    status: 'waiting',
+    win_patterns: [...new Set(winPatterns)],
+    prize_stages: prizeStages,
+    current_stage: 0,
+    max_tickets_per_player: maxTickets,
+    use_strips: input.use_strips ?? false,
+    max_players: maxPlayers,
+    allow_late_join: input.allow_late_join ?? true
   };
 
+  // Commit-reveal: the seed depends on the room ID, so pick it up front
+  if (input.commit_reveal) {
+    insertData.id = crypto.randomUUID();
+    insertData.draw_commitment = await sha256Hex(
+      await deriveDrawSeed(insertData.id)
+    );
+  }
+
+  // Private room: the PIN hash is keyed on the room ID too
+  if (input.pin !== undefined) {
+    insertData.id = insertData.id ?? crypto.randomUUID();
+    insertData.pin_hash = await hashRoomPin(insertData.id, input.pin);
+    insertData.is_private = true;
+  }
+
   const { data, error } = await supabase
     .from('rooms')
     // @ts-expect-error - Supabase types will be correctly inferred once DB is connected
@@ -67,7 +336,10 @@ export async function createRoom(input: CreateRoomInput): Promise<Room> {
     throw new Error(`Failed to create room: ${error.message}`);
   }
 
-  return data as Room;
+  return {
+    room: toPublicRoom(data as Room),
+    host_token: hostToken
+  };
 }
 
 /**
@@ -148,9 +420,105 @@ export async function updateRoomStatus(
     throw new Error(`Failed to update room status: ${error.message}`);
   }
 
+  await publishRoomEvent(roomId, 'room_status_changed', { status });
+
+  return data as Room;
+}
+
+/**
+ * Changes a room's capacity and late-join settings (host decision)
+ *
+ * @param room - The room
+ * @param settings - The settings to change
+ * @returns The updated room
+ * @throws Error if the player limit is invalid or below the players already in
+ */
+export async function updateRoomSettings(
+  room: Room,
+  settings: RoomSettingsInput
+): Promise<Room> {
+  const updates: Database['public']['Tables']['rooms']['Update'] = {};
+
+  if (settings.max_players !== undefined) {
+    if (!isValidRoomCapacity(settings.max_players)) {
+      throw new Error('Invalid player limit. Allow between 2 and 100 players.');
+    }
+
+    if (settings.max_players !== null) {
+      const tickets = await getRoomTickets(room.id);
+      const playerCount = new Set(tickets.map((t) => t.player_id)).size;
+
+      if (playerCount > settings.max_players) {
+        throw new Error(
+          `The room already has ${playerCount} players. Remove some first.`
+        );
+      }
+    }
+
+    updates.max_players = settings.max_players;
+  }
+
+  if (settings.allow_late_join !== undefined) {
+    updates.allow_late_join = settings.allow_late_join;
+  }
+
+  const { data, error } = await supabase
+    .from('rooms')
+    // @ts-expect-error - Supabase types will be correctly inferred once DB is connected
+    .update(updates)
+    .eq('id', room.id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Update room settings error:', error);
+    throw new Error(`Failed to update room settings: ${error.message}`);
+  }
+
   return data as Room;
 }
 
+/**
+ * Advances a room to the next prize stage
+ *
+ * Only succeeds if the room is still on the stage it was read at, so two
+ * concurrent requests cannot skip a stage.
+ *
+ * @param room - The room as last read
+ * @returns The updated room
+ * @throws Error if the stage changed in the meantime
+ */
+export async function advancePrizeStage(room: Room): Promise<Room> {
+  const updates: Database['public']['Tables']['rooms']['Update'] = {
+    current_stage: room.current_stage + 1
+  };
+
+  const { data, error } = await supabase
+    .from('rooms')
+    // @ts-expect-error - Supabase types will be correctly inferred once DB is connected
+    .update(updates)
+    .eq('id', room.id)
+    .eq('current_stage', room.current_stage)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error('Advance prize stage error:', error);
+    throw new Error(`Failed to advance prize stage: ${error.message}`);
+  }
+
+  if (!data) {
+    throw new Error('The prize stage has already changed. Please refresh.');
+  }
+
+  const updatedRoom = data as Room;
+  await publishRoomEvent(room.id, 'stage_advanced', {
+    current_stage: updatedRoom.current_stage
+  });
+
+  return updatedRoom;
+}
+
 // ============================================================================
 // Ticket Management
 // ============================================================================
@@ -162,12 +530,7 @@ export async function updateRoomStatus(
  * @returns SHA-256 hash string
  */
 async function hashTicket(ticketData: TicketGrid): Promise<string> {
-  const serialized = serializeTicket(ticketData);
-  const encoder = new TextEncoder();
-  const data = encoder.encode(serialized);
-  const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  return hashArray.map((b) => b.toString(16).padStart(2, '0')).join('');
+  return sha256Hex(serializeTicket(ticketData));
 }
 
 /**
@@ -175,7 +538,7 @@ async function hashTicket(ticketData: TicketGrid): Promise<string> {
  *
  * @param roomId - The room UUID
  * @param playerId - The player's guest ID
- * @returns The existing ticket or null
+ * @returns The player's first ticket or null (removed players have none)
  */
 export async function getPlayerTicket(
   roomId: string,
@@ -186,50 +549,185 @@ export async function getPlayerTicket(
     .select('*')
     .eq('room_id', roomId)
     .eq('player_id', playerId)
-    .single();
+    .is('invalidated_at', null)
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .maybeSingle();
 
   if (error) {
-    if (error.code === 'PGRST116') {
-      // Not found
-      return null;
-    }
     console.error('Get player ticket error:', error);
     throw new Error(`Failed to fetch ticket: ${error.message}`);
   }
 
-  return data as LotoTicket;
+  return data ? (data as LotoTicket) : null;
 }
 
 /**
- * Creates a new ticket for a player in a room
+ * Gets all of a player's tickets in a room
+ *
+ * Tickets invalidated when the player was removed are left out.
+ *
+ * @param roomId - The room UUID
+ * @param playerId - The player's guest ID
+ * @returns The player's tickets, oldest first
+ */
+export async function getPlayerTickets(
+  roomId: string,
+  playerId: string
+): Promise<LotoTicket[]> {
+  const { data, error } = await supabase
+    .from('tickets')
+    .select('*')
+    .eq('room_id', roomId)
+    .eq('player_id', playerId)
+    .is('invalidated_at', null)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Get player tickets error:', error);
+    throw new Error(`Failed to fetch tickets: ${error.message}`);
+  }
+
+  return data as LotoTicket[];
+}
+
+/**
+ * Finds the next unused ticket of a room's strips, without taking it
+ *
+ * Starts a new strip when every existing one has been handed out. The
+ * ticket is only taken once it is inserted: a unique index on
+ * (strip_id, strip_position) stops two joins from receiving it, and a failed
+ * insert leaves it for the next player, so strips never have gaps.
  *
  * @param roomId - The room UUID
+ * @returns The ticket grid, where it sits in its strip and the strip's seed
+ * @throws Error if the strips cannot be read or created
+ */
+async function getNextStripTicket(roomId: string): Promise<{
+  ticketData: TicketGrid;
+  stripId: string;
+  position: number;
+  seed: string | null;
+}> {
+  const { data: open, error } = await supabase
+    .from('ticket_strips')
+    .select('*')
+    .eq('room_id', roomId)
+    .lt('next_index', STRIP_SIZE)
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Get ticket strip error:', error);
+    throw new Error(`Failed to fetch ticket strip: ${error.message}`);
+  }
+
+  let strip = open as TicketStrip | null;
+
+  if (!strip) {
+    // Every strip is used up - start a new one
+    const seed = generateTicketSeed();
+    const insertData: Database['public']['Tables']['ticket_strips']['Insert'] =
+      {
+        room_id: roomId,
+        tickets: generateLotoStripFromSeed(seed),
+        next_index: 0,
+        seed
+      };
+
+    const { data: created, error: createError } = await supabase
+      .from('ticket_strips')
+      // @ts-expect-error - Supabase types will be correctly inferred once DB is connected
+      .insert(insertData)
+      .select()
+      .single();
+
+    if (createError) {
+      console.error('Create ticket strip error:', createError);
+      throw new Error(`Failed to create ticket strip: ${createError.message}`);
+    }
+
+    strip = created as TicketStrip;
+  }
+
+  return {
+    ticketData: strip.tickets[strip.next_index],
+    stripId: strip.id,
+    position: strip.next_index,
+    seed: strip.seed
+  };
+}
+
+/**
+ * Moves a strip past a ticket that has been dealt
+ *
+ * A compare-and-set: if another join already moved the strip on, nothing
+ * changes. Best-effort, as the ticket is already dealt: a strip left behind
+ * is moved on by the next join, whose insert of the same ticket fails.
+ *
+ * @param stripId - The strip UUID
+ * @param position - The dealt ticket's position in the strip
+ */
+async function advanceStrip(stripId: string, position: number): Promise<void> {
+  const { error } = await supabase
+    .from('ticket_strips')
+    // @ts-expect-error - Supabase types will be correctly inferred once DB is connected
+    .update({ next_index: position + 1 })
+    .eq('id', stripId)
+    .eq('next_index', position);
+
+  if (error) {
+    console.error('Advance ticket strip error:', error);
+  }
+}
+
+/**
+ * Creates a new ticket for a player in a room
+ *
+ * Strip rooms deal the ticket from a strip; other rooms generate it on its
+ * own. Either way the seed is stored so the ticket can be regenerated.
+ *
+ * @param room - The room
  * @param playerId - The player's guest ID
  * @param playerName - Optional player name
  * @returns The created ticket
  * @throws Error if ticket creation fails (including duplicates)
+ * @throws RoomRuleError if the room is full, the player already holds the
+ *   room's ticket limit or their name was taken meanwhile
  */
 async function createTicket(
-  roomId: string,
+  room: Room,
   playerId: string,
   playerName?: string
 ): Promise<LotoTicket> {
   const maxAttempts = 10;
   let lastError: Error | null = null;
+  // Set when a trigger rejects the insert - a new grid won't help
+  let rejection: RoomRuleError | null = null;
 
   for (let attempt = 0; attempt < maxAttempts; attempt++) {
     try {
-      // Generate a new ticket
-      const ticketData = generateLotoTicket();
+      // Generate a new ticket (or deal the next one from a strip)
+      const strip = room.use_strips
+        ? await getNextStripTicket(room.id)
+        : null;
+      const ticketSeed = generateTicketSeed();
+      const ticketData = strip
+        ? strip.ticketData
+        : generateLotoTicketFromSeed(ticketSeed);
       const ticketHash = await hashTicket(ticketData);
 
       // Insert into database
       const insertData: Database['public']['Tables']['tickets']['Insert'] = {
-        room_id: roomId,
+        room_id: room.id,
         player_id: playerId,
         player_name: playerName || null,
         ticket_data: ticketData,
-        ticket_hash: ticketHash
+        ticket_hash: ticketHash,
+        strip_id: strip?.stripId ?? null,
+        strip_position: strip?.position ?? null,
+        seed: strip ? strip.seed : ticketSeed
       };
 
       const { data, error } = await supabase
@@ -240,7 +738,25 @@ async function createTicket(
         .single();
 
       if (error) {
+        if (
+          error.code === '23505' &&
+          error.message.includes('player_name_taken')
+        ) {
+          // Another player took the name meanwhile
+          rejection = new RoomRuleError(
+            'That name is already taken in this room.',
+            409
+          );
+          break;
+        }
         // Check if it's a uniqueness constraint violation
+        if (error.code === '23505' && strip) {
+          // Another join was dealt this strip ticket first - move on to
+          // the next one, in case that join hasn't yet
+          await advanceStrip(strip.stripId, strip.position);
+          lastError = new Error('Strip ticket already dealt');
+          continue;
+        }
         if (error.code === '23505') {
           // Duplicate ticket_hash in this room - retry with new ticket
           console.warn(
@@ -251,9 +767,22 @@ async function createTicket(
           lastError = new Error('Duplicate ticket generated');
           continue;
         }
+        if (error.code === '23514') {
+          // Rejected by the capacity or ticket limit trigger
+          rejection = error.message.includes('room_full')
+            ? new RoomRuleError('This room is full.', 409)
+            : new RoomRuleError(
+                'You already hold the maximum number of tickets.'
+              );
+          break;
+        }
         throw new Error(`Failed to create ticket: ${error.message}`);
       }
 
+      if (strip) {
+        await advanceStrip(strip.stripId, strip.position);
+      }
+
       return data as LotoTicket;
     } catch (error) {
       lastError = error as Error;
@@ -261,23 +790,83 @@ async function createTicket(
     }
   }
 
+  if (rejection) {
+    throw rejection;
+  }
+
   throw new Error(
     `Failed to generate unique ticket after ${maxAttempts} attempts: ${lastError?.message}`
   );
 }
 
+/**
+ * Gives a player who already joined an additional ticket
+ *
+ * Only allowed before the first number is called, and only up to the room's
+ * `max_tickets_per_player` (also enforced by a database trigger).
+ *
+ * @param room - The room
+ * @param playerId - The player's guest ID
+ * @returns The new ticket and all of the player's tickets
+ * @throws RoomRuleError if the player hasn't joined, the game has started or
+ *   the limit is reached
+ */
+export async function addPlayerTicket(
+  room: Room,
+  playerId: string
+): Promise<{ ticket: LotoTicket; tickets: LotoTicket[] }> {
+  if (room.status !== 'waiting') {
+    throw new RoomRuleError(
+      'Tickets can only be added before the game starts.'
+    );
+  }
+
+  const existing = await getPlayerTickets(room.id, playerId);
+
+  if (existing.length === 0) {
+    throw new RoomRuleError('Join the room before adding tickets.');
+  }
+
+  if (existing.length >= room.max_tickets_per_player) {
+    throw new RoomRuleError(
+      `Each player may hold at most ${room.max_tickets_per_player} tickets.`
+    );
+  }
+
+  const ticket = await createTicket(
+    room,
+    playerId,
+    existing[0].player_name ?? undefined
+  );
+
+  // Every ticket dealt is in the event log, so replays know its grid
+  await publishRoomEvent(room.id, 'player_joined', {
+    player_id: ticket.player_id,
+    player_name: ticket.player_name,
+    ticket_id: ticket.id
+  });
+
+  return { ticket, tickets: [...existing, ticket] };
+}
+
 /**
  * Gets all tickets in a room (for host view)
  *
  * @param roomId - The room UUID
- * @returns Array of tickets in the room
+ * @param options - Whether to include tickets of removed players
+ * @returns Array of tickets in the room (live ones only by default)
  */
-export async function getRoomTickets(roomId: string): Promise<LotoTicket[]> {
-  const { data, error } = await supabase
-    .from('tickets')
-    .select('*')
-    .eq('room_id', roomId)
-    .order('created_at', { ascending: true });
+export async function getRoomTickets(
+  roomId: string,
+  options: { includeRemoved?: boolean } = {}
+): Promise<LotoTicket[]> {
+  let query = supabase.from('tickets').select('*').eq('room_id', roomId);
+
+  if (!options.includeRemoved) {
+    query = query.is('invalidated_at', null);
+  }
+
+  const { data, error } = await query.order('created_at', { ascending: true });
 
   if (error) {
     console.error('Get room tickets error:', error);
@@ -287,24 +876,1435 @@ export async function getRoomTickets(roomId: string): Promise<LotoTicket[]> {
   return data as LotoTicket[];
 }
 
+/**
+ * Fetches a ticket by its ID
+ *
+ * @param ticketId - The ticket UUID
+ * @returns The ticket or null if not found
+ */
+export async function getTicketById(
+  ticketId: string
+): Promise<LotoTicket | null> {
+  const { data, error } = await supabase
+    .from('tickets')
+    .select('*')
+    .eq('id', ticketId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Get ticket by ID error:', error);
+    throw new Error(`Failed to fetch ticket: ${error.message}`);
+  }
+
+  return data ? (data as LotoTicket) : null;
+}
+
 // ============================================================================
-// Combined Operations
+// Players
 // ============================================================================
 
 /**
- * Joins a room and gets or creates a ticket for the player
- *
- * This function:
- * 1. Validates the room exists and is joinable
- * 2. Checks if player already has a ticket
- * 3. Creates a new ticket if needed (with uniqueness guarantee)
- * 4. Returns the room and ticket
+ * Checks whether another player in the room already uses a display name
  *
- * @param roomIdOrCode - The room UUID or 6-character room code
- * @param playerId - The player's guest ID (from localStorage)
- * @param playerName - Optional player name
- * @returns Room and ticket information
- * @throws Error if room not found or not joinable
+ * Names are compared after normalizing, ignoring case.
+ *
+ * @param roomId - The room UUID
+ * @param name - The wanted display name
+ * @param playerId - The player asking (their own tickets are ignored)
+ * @returns true if someone else has the name
+ */
+export async function isPlayerNameTaken(
+  roomId: string,
+  name: string,
+  playerId: string
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('tickets')
+    .select('player_id, player_name')
+    .eq('room_id', roomId)
+    .neq('player_id', playerId)
+    .is('invalidated_at', null);
+
+  if (error) {
+    console.error('Get player names error:', error);
+    throw new Error(`Failed to check player name: ${error.message}`);
+  }
+
+  return (data as Pick<LotoTicket, 'player_id' | 'player_name'>[]).some(
+    (row) => row.player_name !== null && isSamePlayerName(row.player_name, name)
+  );
+}
+
+/**
+ * Changes a player's display name on all of their tickets
+ *
+ * Only allowed before the game starts. The name must already have passed
+ * `validatePlayerName`.
+ *
+ * Uniqueness is enforced by the tickets_enforce_unique_name trigger, so two
+ * players renaming at once cannot end up with the same name. Tickets of a
+ * removed player are left untouched.
+ *
+ * @param room - The room
+ * @param playerId - The player's guest ID
+ * @param name - The new display name
+ * @returns The player's updated tickets
+ * @throws RoomRuleError if the game has started, the player hasn't joined or
+ *   the name is taken
+ */
+export async function renamePlayer(
+  room: Room,
+  playerId: string,
+  name: string
+): Promise<LotoTicket[]> {
+  if (room.status !== 'waiting') {
+    throw new RoomRuleError(
+      'Names can only be changed before the game starts.'
+    );
+  }
+
+  const playerName = normalizePlayerName(name);
+
+  const { data, error } = await supabase
+    .from('tickets')
+    // @ts-expect-error - Supabase types will be correctly inferred once DB is connected
+    .update({ player_name: playerName })
+    .eq('room_id', room.id)
+    .eq('player_id', playerId)
+    .is('invalidated_at', null)
+    .select()
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new RoomRuleError('That name is already taken in this room.');
+    }
+    console.error('Rename player error:', error);
+    throw new Error(`Failed to rename player: ${error.message}`);
+  }
+
+  const tickets = data as LotoTicket[];
+
+  if (tickets.length === 0) {
+    throw new RoomRuleError('Player not found in this room.', 404);
+  }
+
+  await publishRoomEvent(room.id, 'player_renamed', {
+    player_id: playerId,
+    player_name: playerName
+  });
+
+  return tickets;
+}
+
+/**
+ * Records that a player's page is still open
+ *
+ * @param roomId - The room UUID
+ * @param playerId - The player's guest ID
+ */
+export async function touchPlayerPresence(
+  roomId: string,
+  playerId: string
+): Promise<void> {
+  const upsertData: Database['public']['Tables']['player_presence']['Insert'] =
+    {
+      room_id: roomId,
+      player_id: playerId,
+      last_seen_at: new Date().toISOString()
+    };
+
+  const { error } = await supabase
+    .from('player_presence')
+    // @ts-expect-error - Supabase types will be correctly inferred once DB is connected
+    .upsert(upsertData);
+
+  if (error) {
+    console.error('Touch player presence error:', error);
+    throw new Error(`Failed to update presence: ${error.message}`);
+  }
+}
+
+/**
+ * Builds the host's roster from the room's tickets
+ *
+ * Players are not stored separately: each player's first ticket gives their
+ * name and join time. Presence comes from heartbeats, and progress is how
+ * close the player's best ticket is to the current prize given the numbers
+ * called so far (not the player's own marks). Waiting numbers are the calls
+ * that would complete a row or the full house on any of their tickets.
+ *
+ * @param room - The room
+ * @returns Players in join order
+ */
+export async function getRoomPlayers(
+  room: PublicRoom
+): Promise<RosterPlayer[]> {
+  const [tickets, calledNumbers, presenceResult] = await Promise.all([
+    getRoomTickets(room.id),
+    getCalledNumbers(room.id),
+    supabase.from('player_presence').select('*').eq('room_id', room.id)
+  ]);
+
+  if (presenceResult.error) {
+    console.error('Get player presence error:', presenceResult.error);
+    throw new Error(
+      `Failed to fetch player presence: ${presenceResult.error.message}`
+    );
+  }
+
+  const lastSeen = new Map(
+    (presenceResult.data as { player_id: string; last_seen_at: string }[]).map(
+      (row) => [row.player_id, row.last_seen_at]
+    )
+  );
+  const called = new Set(calledNumbers);
+  const stage = getCurrentStage(room);
+  const players = new Map<string, RosterPlayer>();
+
+  // Tickets come oldest first, so the first one seen is the join ticket
+  for (const ticket of tickets) {
+    const numbersAway = stage
+      ? getNumbersAway(ticket.ticket_data, called, stage.win_type)
+      : null;
+    const waitingNumbers = getWaitingNumbers(ticket.ticket_data, called);
+    const existing = players.get(ticket.player_id);
+
+    if (existing) {
+      existing.ticket_count++;
+      existing.waiting_numbers = [
+        ...new Set([...existing.waiting_numbers, ...waitingNumbers])
+      ].sort((a, b) => a - b);
+      if (
+        numbersAway !== null &&
+        (existing.numbers_away === null || numbersAway < existing.numbers_away)
+      ) {
+        existing.numbers_away = numbersAway;
+      }
+      continue;
+    }
+
+    const lastSeenAt = lastSeen.get(ticket.player_id) ?? null;
+    players.set(ticket.player_id, {
+      player_id: ticket.player_id,
+      player_name: ticket.player_name,
+      room_id: ticket.room_id,
+      ticket_id: ticket.id,
+      joined_at: ticket.created_at,
+      ticket_count: 1,
+      last_seen_at: lastSeenAt,
+      is_online: isPresenceOnline(lastSeenAt),
+      numbers_away: numbersAway,
+      waiting_numbers: waitingNumbers
+    });
+  }
+
+  return [...players.values()];
+}
+
+/**
+ * Checks whether a player is banned from a room
+ *
+ * @param roomId - The room UUID
+ * @param playerId - The player's guest ID
+ */
+export async function isPlayerBanned(
+  roomId: string,
+  playerId: string
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('room_bans')
+    .select('player_id')
+    .eq('room_id', roomId)
+    .eq('player_id', playerId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Get room ban error:', error);
+    throw new Error(`Failed to check bans: ${error.message}`);
+  }
+
+  return data !== null;
+}
+
+/**
+ * Removes a player from a room (host only), optionally banning them
+ *
+ * The player's tickets are invalidated - kept for the record but ignored by
+ * the roster and win verification - and their pending claims are rejected.
+ * A kicked player may join again with a new ticket; a banned one may not.
+ *
+ * @param room - The room
+ * @param playerId - The player's guest ID
+ * @param options - Whether to ban, and a reason shown to the player
+ * @returns The invalidated tickets
+ * @throws Error if the player has no tickets in the room (when not banning)
+ */
+export async function removePlayer(
+  room: Room,
+  playerId: string,
+  options: { ban?: boolean; reason?: string | null } = {}
+): Promise<LotoTicket[]> {
+  const { ban = false, reason = null } = options;
+
+  if (ban) {
+    const banData: Database['public']['Tables']['room_bans']['Insert'] = {
+      room_id: room.id,
+      player_id: playerId,
+      reason
+    };
+
+    const { error: banError } = await supabase
+      .from('room_bans')
+      // @ts-expect-error - Supabase types will be correctly inferred once DB is connected
+      .upsert(banData, { ignoreDuplicates: true });
+
+    if (banError) {
+      console.error('Ban player error:', banError);
+      throw new Error(`Failed to ban player: ${banError.message}`);
+    }
+  }
+
+  const { data, error } = await supabase
+    .from('tickets')
+    // @ts-expect-error - Supabase types will be correctly inferred once DB is connected
+    .update({ invalidated_at: new Date().toISOString() })
+    .eq('room_id', room.id)
+    .eq('player_id', playerId)
+    .is('invalidated_at', null)
+    .select();
+
+  if (error) {
+    console.error('Invalidate tickets error:', error);
+    throw new Error(`Failed to remove player: ${error.message}`);
+  }
+
+  const invalidated = data as LotoTicket[];
+
+  if (invalidated.length === 0 && !ban) {
+    throw new Error('Player not found in this room.');
+  }
+
+  // Their claims can no longer win. Only claims still pending are touched,
+  // so one the host resolves at the same moment is left as it is.
+  const claimUpdates: Database['public']['Tables']['win_claims']['Update'] = {
+    status: 'rejected',
+    resolved_at: new Date().toISOString()
+  };
+
+  const { data: rejected, error: claimsError } = await supabase
+    .from('win_claims')
+    // @ts-expect-error - Supabase types will be correctly inferred once DB is connected
+    .update(claimUpdates)
+    .eq('room_id', room.id)
+    .eq('player_id', playerId)
+    .eq('status', 'pending')
+    .select();
+
+  if (claimsError) {
+    console.error('Reject claims error:', claimsError);
+    throw new Error(`Failed to remove player: ${claimsError.message}`);
+  }
+
+  for (const claim of rejected as WinClaim[]) {
+    await publishRoomEvent(room.id, 'claim_resolved', { claim });
+  }
+
+  await publishRoomEvent(room.id, 'player_removed', {
+    player_id: playerId,
+    banned: ban,
+    reason
+  });
+
+  return invalidated;
+}
+
+/**
+ * Checks a guest's join PIN for a private room, with attempt limiting
+ *
+ * Wrong PINs are counted per guest; after MAX_PIN_ATTEMPTS the guest is
+ * locked out for PIN_LOCKOUT_DURATION and further PINs are refused. A
+ * correct PIN clears the count. The count is kept by the
+ * record_join_attempt database function, atomically per guest.
+ *
+ * @param room - The private room
+ * @param playerId - The guest's ID
+ * @param pin - The PIN entered
+ * @returns Whether the PIN was accepted, and the guest's remaining attempts
+ */
+export async function checkRoomPin(
+  room: Room,
+  playerId: string,
+  pin: string
+): Promise<RoomPinCheck> {
+  if (!room.pin_hash) {
+    return {
+      is_valid: true,
+      attempts_left: MAX_PIN_ATTEMPTS,
+      locked_until: null
+    };
+  }
+
+  const isValid = safeEqual(await hashRoomPin(room.id, pin), room.pin_hash);
+
+  // The lockout check and the count happen in one locked transaction, so
+  // concurrent wrong PINs are all counted
+  const { data, error } = await supabase
+    // @ts-expect-error - Supabase types will be correctly inferred once DB is connected
+    .rpc('record_join_attempt', {
+      p_room_id: room.id,
+      p_player_id: playerId,
+      p_is_valid: isValid,
+      p_max_attempts: MAX_PIN_ATTEMPTS,
+      p_lockout_seconds: PIN_LOCKOUT_DURATION / 1000
+    });
+
+  if (error) {
+    console.error('Record join attempt error:', error);
+    throw new Error(`Failed to record join attempt: ${error.message}`);
+  }
+
+  const attempt = data as DbJoinAttempt;
+  const isLockedOut = isPinLockedOut(attempt.locked_until);
+
+  return {
+    is_valid: isValid && !isLockedOut,
+    attempts_left: isLockedOut
+      ? 0
+      : Math.max(0, MAX_PIN_ATTEMPTS - attempt.failed_count),
+    locked_until: isLockedOut ? attempt.locked_until : null
+  };
+}
+
+// ============================================================================
+// Ticket Marks
+// ============================================================================
+
+/**
+ * Gets the saved marks of a player's tickets in a room
+ *
+ * @param roomId - The room UUID
+ * @param playerId - The player's guest ID
+ * @returns Marks per ticket (tickets never marked are left out)
+ */
+export async function getPlayerTicketMarks(
+  roomId: string,
+  playerId: string
+): Promise<TicketMarks[]> {
+  const { data, error } = await supabase
+    .from('ticket_marks')
+    .select('ticket_id, marked_numbers, updated_at')
+    .eq('room_id', roomId)
+    .eq('player_id', playerId);
+
+  if (error) {
+    console.error('Get ticket marks error:', error);
+    throw new Error(`Failed to fetch ticket marks: ${error.message}`);
+  }
+
+  return data as TicketMarks[];
+}
+
+/**
+ * Saves the numbers a player marked on a ticket
+ *
+ * Writes are last-change-wins: marks changed before the stored ones (e.g.
+ * queued while the phone was offline) are ignored by the
+ * ticket_marks_keep_newest trigger, and the stored marks are returned
+ * instead. A change time in the future is clamped to now.
+ *
+ * @param ticket - The ticket (must belong to the player saving it)
+ * @param markedNumbers - Numbers marked on the ticket
+ * @param updatedAt - When the player changed the marks (ISO timestamp)
+ * @returns The marks now stored for the ticket
+ */
+export async function saveTicketMarks(
+  ticket: LotoTicket,
+  markedNumbers: number[],
+  updatedAt: string
+): Promise<TicketMarks> {
+  const now = new Date().toISOString();
+  const upsertData: Database['public']['Tables']['ticket_marks']['Insert'] = {
+    ticket_id: ticket.id,
+    room_id: ticket.room_id,
+    player_id: ticket.player_id,
+    marked_numbers: [...new Set(markedNumbers)].sort((a, b) => a - b),
+    updated_at: new Date(updatedAt) > new Date(now) ? now : updatedAt
+  };
+
+  const { data, error } = await supabase
+    .from('ticket_marks')
+    // @ts-expect-error - Supabase types will be correctly inferred once DB is connected
+    .upsert(upsertData)
+    .select('ticket_id, marked_numbers, updated_at')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Save ticket marks error:', error);
+    throw new Error(`Failed to save ticket marks: ${error.message}`);
+  }
+
+  if (data) {
+    return data as TicketMarks;
+  }
+
+  // The stored marks are newer; hand them back so the client catches up
+  const { data: stored, error: storedError } = await supabase
+    .from('ticket_marks')
+    .select('ticket_id, marked_numbers, updated_at')
+    .eq('ticket_id', ticket.id)
+    .single();
+
+  if (storedError) {
+    console.error('Get ticket marks error:', storedError);
+    throw new Error(`Failed to fetch ticket marks: ${storedError.message}`);
+  }
+
+  return stored as TicketMarks;
+}
+
+// ============================================================================
+// Called Numbers
+// ============================================================================
+
+/**
+ * Gets the numbers called in a room, in call order
+ *
+ * @param roomId - The room UUID
+ * @returns Array of called numbers (oldest first)
+ */
+export async function getCalledNumbers(roomId: string): Promise<number[]> {
+  const { data, error } = await supabase
+    .from('called_numbers')
+    .select('number, called_at')
+    .eq('room_id', roomId)
+    .is('voided_at', null)
+    .order('called_at', { ascending: true });
+
+  if (error) {
+    console.error('Get called numbers error:', error);
+    throw new Error(`Failed to fetch called numbers: ${error.message}`);
+  }
+
+  return (
+    (data as Array<{ number: number; called_at: string }>)?.map(
+      (cn) => cn.number
+    ) || []
+  );
+}
+
+// ============================================================================
+// Number Drawing
+// ============================================================================
+
+/**
+ * Derives the secret draw seed of a commit-reveal room
+ *
+ * HMAC(LOTO_DRAW_SECRET, roomId): nothing secret is stored in the publicly
+ * readable rooms table until the seed is revealed at the end of the game.
+ *
+ * @throws Error if LOTO_DRAW_SECRET is not configured
+ */
+async function deriveDrawSeed(roomId: string): Promise<string> {
+  const secret = process.env.LOTO_DRAW_SECRET;
+
+  if (!secret) {
+    throw new Error(
+      'Committed draws are not available: LOTO_DRAW_SECRET is not set.'
+    );
+  }
+
+  return hmacSha256Hex(secret, roomId);
+}
+
+/**
+ * Records a called number, starting the game on the first call
+ *
+ * @param room - The room (must not be completed)
+ * @param number - The number to call (1-90)
+ * @throws Error if the number was already called or the insert fails
+ */
+export async function callNumber(room: Room, number: number): Promise<void> {
+  // Start the game if it's in waiting status
+  if (room.status === 'waiting') {
+    await updateRoomStatus(room.id, 'active');
+  }
+
+  const calledAt = new Date().toISOString();
+  const insertData: Database['public']['Tables']['called_numbers']['Insert'] =
+    {
+      room_id: room.id,
+      number,
+      called_at: calledAt,
+      called_by: room.host_id
+    };
+
+  const { error } = await supabase
+    .from('called_numbers')
+    // @ts-expect-error - Supabase types will be correctly inferred once DB is connected
+    .insert(insertData);
+
+  if (error) {
+    // Unique (room_id, number): another request called it first
+    if (error.code === '23505') {
+      throw new Error('This number has already been called');
+    }
+    console.error('Insert called_number error:', error);
+    throw new Error(`Failed to record called number: ${error.message}`);
+  }
+
+  await publishRoomEvent(room.id, 'number_called', {
+    number,
+    called_at: calledAt
+  });
+}
+
+/**
+ * Picks the number a server draw would call next, without calling it
+ *
+ * Commit-reveal rooms take the next number of their seeded draw order;
+ * other rooms pick uniformly from the uncalled numbers with a secure RNG.
+ *
+ * @param room - The room
+ * @param calledNumbers - The room's called numbers, in call order
+ * @returns The number, or null if every number has already been called
+ */
+export async function pickNextNumber(
+  room: Room,
+  calledNumbers: number[]
+): Promise<number | null> {
+  return room.draw_commitment
+    ? getNextCommittedNumber(await deriveDrawSeed(room.id), calledNumbers)
+    : pickRandomNumber(calledNumbers);
+}
+
+/**
+ * Draws the next number on the server and calls it
+ *
+ * @param room - The room (must not be completed)
+ * @returns The drawn number
+ * @throws Error if every number has already been called
+ */
+export async function drawNumber(room: Room): Promise<number> {
+  const number = await pickNextNumber(room, await getCalledNumbers(room.id));
+
+  if (number === null) {
+    throw new Error('All numbers have been called');
+  }
+
+  await callNumber(room, number);
+  return number;
+}
+
+/**
+ * Voids the last number called in a room (host mis-tap)
+ *
+ * The row is kept and marked voided for the audit trail; readers ignore it
+ * and the number may be called again. Pending claims are re-verified against
+ * the remaining numbers.
+ *
+ * @param room - The room (must not be completed)
+ * @param reason - Optional reason shown to players
+ * @returns The voided number
+ * @throws Error if nothing has been called yet
+ *
+ * @example
+ * const voided = await voidLastNumber(room, 'Bấm nhầm');
+ */
+export async function voidLastNumber(
+  room: Room,
+  reason: string | null
+): Promise<CalledNumber> {
+  const { data: last, error: lastError } = await supabase
+    .from('called_numbers')
+    .select('*')
+    .eq('room_id', room.id)
+    .is('voided_at', null)
+    .order('called_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (lastError) {
+    console.error('Get last called number error:', lastError);
+    throw new Error(`Failed to fetch last number: ${lastError.message}`);
+  }
+
+  if (!last) {
+    throw new Error('No number has been called yet');
+  }
+
+  const updates: Database['public']['Tables']['called_numbers']['Update'] = {
+    voided_at: new Date().toISOString(),
+    void_reason: reason
+  };
+
+  const { data, error } = await supabase
+    .from('called_numbers')
+    // @ts-expect-error - Supabase types will be correctly inferred once DB is connected
+    .update(updates)
+    .eq('id', (last as CalledNumber).id)
+    .is('voided_at', null)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error('Void called number error:', error);
+    throw new Error(`Failed to void number: ${error.message}`);
+  }
+
+  if (!data) {
+    throw new Error('This number has already been voided');
+  }
+
+  const voided = data as CalledNumber;
+
+  await publishRoomEvent(room.id, 'number_voided', {
+    number: voided.number,
+    reason: voided.void_reason,
+    voided_at: voided.voided_at!
+  });
+
+  await reverifyPendingClaims(room);
+
+  return voided;
+}
+
+// ============================================================================
+// Automatic Caller
+// ============================================================================
+
+/**
+ * Computes when the next automatic call is due
+ */
+function nextAutoCallAt(interval: number): string {
+  return new Date(Date.now() + interval * 1000).toISOString();
+}
+
+/**
+ * Starts, pauses or stops a room's automatic caller (host decision)
+ *
+ * Starting or resuming schedules the first call one interval from now.
+ *
+ * @param room - The room
+ * @param status - The new caller status
+ * @param interval - Optional new interval in seconds
+ * @returns The updated room
+ *
+ * @example
+ * await setAutoCall(room, 'running', 8);
+ * await setAutoCall(room, 'paused');
+ */
+export async function setAutoCall(
+  room: Room,
+  status: AutoCallStatus,
+  interval: number = room.auto_call_interval
+): Promise<Room> {
+  const updates: Database['public']['Tables']['rooms']['Update'] = {
+    auto_call_status: status,
+    auto_call_interval: interval,
+    auto_call_next_at: status === 'running' ? nextAutoCallAt(interval) : null
+  };
+
+  const { data, error } = await supabase
+    .from('rooms')
+    // @ts-expect-error - Supabase types will be correctly inferred once DB is connected
+    .update(updates)
+    .eq('id', room.id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Set auto call error:', error);
+    throw new Error(`Failed to update auto call: ${error.message}`);
+  }
+
+  const updatedRoom = data as Room;
+  await publishAutoCallChanged(updatedRoom, 'host');
+
+  return updatedRoom;
+}
+
+/**
+ * Moves a running caller to a new status unless someone else changed it first
+ *
+ * @returns The updated room, or null if the caller was no longer running
+ */
+async function stopRunningAutoCall(
+  room: Room,
+  status: Exclude<AutoCallStatus, 'running'>,
+  reason: AutoCallChangeReason
+): Promise<Room | null> {
+  const updates: Database['public']['Tables']['rooms']['Update'] = {
+    auto_call_status: status,
+    auto_call_next_at: null
+  };
+
+  const { data, error } = await supabase
+    .from('rooms')
+    // @ts-expect-error - Supabase types will be correctly inferred once DB is connected
+    .update(updates)
+    .eq('id', room.id)
+    .eq('auto_call_status', 'running')
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error('Stop auto call error:', error);
+    throw new Error(`Failed to stop auto call: ${error.message}`);
+  }
+
+  if (!data) return null;
+
+  const updatedRoom = data as Room;
+  await publishAutoCallChanged(updatedRoom, reason);
+
+  return updatedRoom;
+}
+
+/**
+ * Publishes the caller state of a room
+ */
+async function publishAutoCallChanged(
+  room: Room,
+  reason: AutoCallChangeReason
+): Promise<void> {
+  await publishRoomEvent(room.id, 'auto_call_changed', {
+    ...getAutoCallState(room),
+    reason
+  });
+}
+
+/**
+ * Draws a number if the room's automatic caller is due
+ *
+ * Safe to call from any number of clients or streams at once: the schedule
+ * is moved forward with a compare-and-set on `auto_call_next_at`, so only
+ * one caller per slot wins and draws. The caller stops by itself once the
+ * game is over or every number has been called.
+ *
+ * @param roomId - The room UUID
+ * @returns The caller state after the tick (use next_at to schedule the next one)
+ */
+export async function runAutoCallTick(roomId: string): Promise<AutoCallState> {
+  const room = await getRoomById(roomId);
+
+  if (!room) {
+    throw new Error('Room not found');
+  }
+
+  const state = getAutoCallState(room);
+
+  if (
+    state.status !== 'running' ||
+    !state.next_at ||
+    new Date(state.next_at).getTime() > Date.now()
+  ) {
+    return state;
+  }
+
+  if (room.status === 'completed' || isLadderComplete(room)) {
+    const stopped = await stopRunningAutoCall(room, 'off', 'finished');
+    return stopped ? getAutoCallState(stopped) : state;
+  }
+
+  const updates: Database['public']['Tables']['rooms']['Update'] = {
+    auto_call_next_at: nextAutoCallAt(room.auto_call_interval)
+  };
+
+  const { data, error } = await supabase
+    .from('rooms')
+    // @ts-expect-error - Supabase types will be correctly inferred once DB is connected
+    .update(updates)
+    .eq('id', room.id)
+    .eq('auto_call_status', 'running')
+    .eq('auto_call_next_at', state.next_at)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error('Auto call tick error:', error);
+    throw new Error(`Failed to advance auto call: ${error.message}`);
+  }
+
+  // Another tick took this slot; report the schedule it set
+  if (!data) {
+    const current = await getRoomById(roomId);
+    return current ? getAutoCallState(current) : state;
+  }
+
+  const scheduledRoom = data as Room;
+  await publishAutoCallChanged(scheduledRoom, 'tick');
+
+  try {
+    await drawNumber(scheduledRoom);
+  } catch (err) {
+    if (
+      err instanceof Error &&
+      err.message === 'All numbers have been called'
+    ) {
+      const stopped = await stopRunningAutoCall(
+        scheduledRoom,
+        'off',
+        'finished'
+      );
+      return stopped ? getAutoCallState(stopped) : state;
+    }
+    console.error('Auto call draw error:', err);
+  }
+
+  return getAutoCallState(scheduledRoom);
+}
+
+// ============================================================================
+// Win Claims
+// ============================================================================
+
+/**
+ * Re-computes the verdict of a room's pending claims
+ *
+ * Called after a number is voided, so a claim that relied on it is no longer
+ * shown to the host as valid.
+ */
+async function reverifyPendingClaims(room: Room): Promise<void> {
+  const pending = await getRoomClaims(room.id, 'pending');
+  if (pending.length === 0) return;
+
+  const calledNumbers = new Set(await getCalledNumbers(room.id));
+
+  for (const claim of pending) {
+    const stage = room.prize_stages[claim.stage_index];
+    if (!stage) continue;
+
+    const result = checkWinCondition(claim.ticket.ticket_data, calledNumbers, [
+      stage.win_type
+    ]);
+
+    // Tickets of removed players never win
+    const isValid = result.hasWon && !claim.ticket.invalidated_at;
+
+    if (isValid === claim.is_valid) continue;
+
+    const updates: Database['public']['Tables']['win_claims']['Update'] = {
+      is_valid: isValid,
+      win_type: result.winType ?? null,
+      winning_rows: result.completedRows
+    };
+
+    const { error } = await supabase
+      .from('win_claims')
+      // @ts-expect-error - Supabase types will be correctly inferred once DB is connected
+      .update(updates)
+      .eq('id', claim.id)
+      .eq('status', 'pending');
+
+    if (error) {
+      console.error('Re-verify claim error:', error);
+    }
+  }
+}
+
+/**
+ * Submits a win claim for a ticket and verifies it server-side
+ *
+ * The verdict is computed from the room's called numbers against the win
+ * type of the current prize stage, never from the player's own marks. If the
+ * ticket already has a pending or accepted claim for this stage, that claim
+ * is returned instead of creating a duplicate. A new claim pauses the
+ * automatic caller.
+ *
+ * @param room - The room the ticket belongs to
+ * @param ticket - The ticket being claimed
+ * @returns The claim with its verdict
+ * @throws Error if the claim cannot be stored
+ *
+ * @example
+ * const { claim } = await submitWinClaim(room, ticket);
+ * if (!claim.is_valid) {
+ *   console.log('False call!');
+ * }
+ */
+export async function submitWinClaim(
+  room: Room,
+  ticket: LotoTicket
+): Promise<SubmitClaimResult> {
+  const stage = getCurrentStage(room);
+
+  if (!stage) {
+    throw new Error('All prizes have already been won.');
+  }
+
+  if (ticket.invalidated_at) {
+    throw new Error('This ticket was removed from the game.');
+  }
+
+  const { data: existing, error: existingError } = await supabase
+    .from('win_claims')
+    .select('*')
+    .eq('ticket_id', ticket.id)
+    .eq('stage_index', room.current_stage)
+    .in('status', ['pending', 'accepted'])
+    .limit(1)
+    .maybeSingle();
+
+  if (existingError) {
+    console.error('Get pending claim error:', existingError);
+    throw new Error(`Failed to check claims: ${existingError.message}`);
+  }
+
+  if (existing) {
+    return { claim: existing as WinClaim, is_new_claim: false };
+  }
+
+  const calledNumbers = await getCalledNumbers(ticket.room_id);
+  const result = checkWinCondition(
+    ticket.ticket_data,
+    new Set(calledNumbers),
+    [stage.win_type]
+  );
+
+  const insertData: Database['public']['Tables']['win_claims']['Insert'] = {
+    room_id: ticket.room_id,
+    ticket_id: ticket.id,
+    player_id: ticket.player_id,
+    player_name: ticket.player_name,
+    is_valid: result.hasWon,
+    win_type: result.winType ?? null,
+    winning_rows: result.completedRows,
+    called_count: calledNumbers.length,
+    stage_index: room.current_stage,
+    status: 'pending'
+  };
+
+  const { data, error } = await supabase
+    .from('win_claims')
+    // @ts-expect-error - Supabase types will be correctly inferred once DB is connected
+    .insert(insertData)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Submit win claim error:', error);
+    throw new Error(`Failed to submit claim: ${error.message}`);
+  }
+
+  const claim = data as WinClaim;
+  await publishRoomEvent(room.id, 'claim_submitted', { claim });
+
+  // Give the host time to review before more numbers are called
+  if (room.auto_call_status === 'running') {
+    await stopRunningAutoCall(room, 'paused', 'claim');
+  }
+
+  return { claim, is_new_claim: true };
+}
+
+/**
+ * Gets the win claims in a room, each with its ticket (for host view)
+ *
+ * @param roomId - The room UUID
+ * @param status - Optional status filter
+ * @returns Array of claims (oldest first)
+ */
+export async function getRoomClaims(
+  roomId: string,
+  status?: ClaimStatus
+): Promise<WinClaimWithTicket[]> {
+  let query = supabase
+    .from('win_claims')
+    .select('*, ticket:tickets(*)')
+    .eq('room_id', roomId);
+
+  if (status) {
+    query = query.eq('status', status);
+  }
+
+  const { data, error } = await query.order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Get room claims error:', error);
+    throw new Error(`Failed to fetch claims: ${error.message}`);
+  }
+
+  return data as unknown as WinClaimWithTicket[];
+}
+
+/**
+ * Fetches a win claim by its ID
+ *
+ * @param claimId - The claim UUID
+ * @returns The claim or null if not found
+ */
+export async function getClaimById(claimId: string): Promise<WinClaim | null> {
+  const { data, error } = await supabase
+    .from('win_claims')
+    .select('*')
+    .eq('id', claimId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Get claim by ID error:', error);
+    throw new Error(`Failed to fetch claim: ${error.message}`);
+  }
+
+  return data ? (data as WinClaim) : null;
+}
+
+/**
+ * Gets the accepted winners of a prize stage
+ *
+ * @param roomId - The room UUID
+ * @param stageIndex - Index into the room's prize_stages
+ * @returns Accepted claims for the stage (oldest first)
+ */
+export async function getStageWinners(
+  roomId: string,
+  stageIndex: number
+): Promise<WinClaim[]> {
+  const { data, error } = await supabase
+    .from('win_claims')
+    .select('*')
+    .eq('room_id', roomId)
+    .eq('stage_index', stageIndex)
+    .eq('status', 'accepted')
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Get stage winners error:', error);
+    throw new Error(`Failed to fetch stage winners: ${error.message}`);
+  }
+
+  return data as WinClaim[];
+}
+
+/**
+ * Resolves a pending win claim (host decision)
+ *
+ * Accepting a claim for the final prize stage completes the ladder, which
+ * stops further numbers from being called. Earlier stages are advanced
+ * explicitly by the host so several winners can share a stage.
+ *
+ * @param room - The room the claim belongs to
+ * @param claimId - The claim UUID
+ * @param status - 'accepted' or 'rejected'
+ * @returns The updated claim
+ * @throws RoomRuleError (409) if the claim was resolved meanwhile
+ */
+export async function resolveWinClaim(
+  room: Room,
+  claimId: string,
+  status: Exclude<ClaimStatus, 'pending'>
+): Promise<WinClaim> {
+  const updates: Database['public']['Tables']['win_claims']['Update'] = {
+    status,
+    resolved_at: new Date().toISOString()
+  };
+
+  const { data, error } = await supabase
+    .from('win_claims')
+    // @ts-expect-error - Supabase types will be correctly inferred once DB is connected
+    .update(updates)
+    .eq('id', claimId)
+    .eq('status', 'pending')
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error('Resolve win claim error:', error);
+    throw new Error(`Failed to resolve claim: ${error.message}`);
+  }
+
+  // Another tab or host resolved it first
+  if (!data) {
+    throw new RoomRuleError('This claim has already been resolved.', 409);
+  }
+
+  const claim = data as WinClaim;
+  const finalStage = room.prize_stages.length - 1;
+
+  await publishRoomEvent(room.id, 'claim_resolved', { claim });
+
+  if (
+    status === 'accepted' &&
+    claim.stage_index === finalStage &&
+    room.current_stage === finalStage
+  ) {
+    await advancePrizeStage(room);
+  }
+
+  return claim;
+}
+
+// ============================================================================
+// Game Completion
+// ============================================================================
+
+/**
+ * Ends a game: marks the room completed and records its final winners
+ *
+ * Winners are the accepted claims of every prize stage. Once completed, the
+ * room rejects further number calls, claims and joins. Commit-reveal rooms
+ * also reveal their draw seed.
+ *
+ * @param room - The room to end
+ * @returns The completed room
+ *
+ * @example
+ * const room = await endGame(room);
+ * console.log(room.final_winners);
+ */
+export async function endGame(room: Room): Promise<Room> {
+  const accepted = await getRoomClaims(room.id, 'accepted');
+
+  const finalWinners: FinalWinner[] = accepted
+    .filter((claim) => claim.win_type !== null)
+    .map((claim) => ({
+      claim_id: claim.id,
+      ticket_id: claim.ticket_id,
+      player_id: claim.player_id,
+      player_name: claim.player_name,
+      stage_index: claim.stage_index,
+      win_type: claim.win_type!,
+      stage_label:
+        room.prize_stages[claim.stage_index]?.label ?? claim.win_type!
+    }));
+
+  const updates: Database['public']['Tables']['rooms']['Update'] = {
+    status: 'completed',
+    ended_at: new Date().toISOString(),
+    final_winners: finalWinners,
+    auto_call_status: 'off',
+    auto_call_next_at: null
+  };
+
+  // Reveal the seed so players can verify the draw order
+  if (room.draw_commitment) {
+    updates.draw_seed = await deriveDrawSeed(room.id);
+  }
+
+  const { data, error } = await supabase
+    .from('rooms')
+    // @ts-expect-error - Supabase types will be correctly inferred once DB is connected
+    .update(updates)
+    .eq('id', room.id)
+    .neq('status', 'completed')
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error('End game error:', error);
+    throw new Error(`Failed to end game: ${error.message}`);
+  }
+
+  if (!data) {
+    throw new Error('This game has already ended.');
+  }
+
+  await publishRoomEvent(room.id, 'room_status_changed', {
+    status: 'completed'
+  });
+
+  return data as Room;
+}
+
+// ============================================================================
+// Game History
+// ============================================================================
+
+/**
+ * Gathers everything that happened in a room, for looking back at a game
+ *
+ * Calls include voided ones (flagged with `voided_at`) so the history shows
+ * the host's corrections; the host's ID is left out.
+ *
+ * @param room - The room (normally completed)
+ * @returns Calls, players, tickets, claims and winners, oldest first
+ */
+export async function getRoomHistory(room: Room): Promise<RoomHistory> {
+  const [callsResult, tickets, claimsResult] = await Promise.all([
+    supabase
+      .from('called_numbers')
+      .select('id, room_id, number, called_at, voided_at, void_reason')
+      .eq('room_id', room.id)
+      .order('called_at', { ascending: true }),
+    getRoomTickets(room.id),
+    supabase
+      .from('win_claims')
+      .select('*')
+      .eq('room_id', room.id)
+      .order('created_at', { ascending: true })
+  ]);
+
+  if (callsResult.error) {
+    console.error('Get call history error:', callsResult.error);
+    throw new Error(
+      `Failed to fetch called numbers: ${callsResult.error.message}`
+    );
+  }
+
+  if (claimsResult.error) {
+    console.error('Get claim history error:', claimsResult.error);
+    throw new Error(`Failed to fetch claims: ${claimsResult.error.message}`);
+  }
+
+  // Players are identified by their tickets; the first one is their join
+  const players = new Map<string, Player>();
+  for (const ticket of tickets) {
+    if (players.has(ticket.player_id)) continue;
+
+    players.set(ticket.player_id, {
+      player_id: ticket.player_id,
+      player_name: ticket.player_name,
+      room_id: ticket.room_id,
+      ticket_id: ticket.id,
+      joined_at: ticket.created_at
+    });
+  }
+
+  return {
+    room: toPublicRoom(room),
+    called_numbers: callsResult.data as HistoryCall[],
+    players: [...players.values()],
+    tickets,
+    claims: claimsResult.data as WinClaim[],
+    winners: room.final_winners
+  };
+}
+
+// ============================================================================
+// Room Events
+// ============================================================================
+
+// Most events read from the log at once
+const ROOM_EVENTS_PAGE_SIZE = 500;
+
+/**
+ * Appends an event to a room's event log (pushed to clients over SSE)
+ *
+ * Publishing is best-effort: a failure is logged but never fails the action
+ * that triggered it, since clients fall back to polling and the state route
+ * rebuilds from the tables when the log has gaps.
+ *
+ * @param roomId - The room UUID
+ * @param type - The event type
+ * @param payload - The event payload
+ *
+ * @example
+ * await publishRoomEvent(roomId, 'number_called', { number: 42, called_at });
+ */
+export async function publishRoomEvent<T extends RoomEventType>(
+  roomId: string,
+  type: T,
+  payload: RoomEventPayloads[T]
+): Promise<void> {
+  const insertData: Database['public']['Tables']['room_events']['Insert'] = {
+    room_id: roomId,
+    type,
+    payload: payload as unknown as Record<string, unknown>
+  };
+
+  const { error } = await supabase
+    .from('room_events')
+    // @ts-expect-error - Supabase types will be correctly inferred once DB is connected
+    .insert(insertData);
+
+  if (error) {
+    console.error(`Publish room event (${type}) error:`, error);
+  }
+}
+
+/**
+ * Gets a room's events after a given event id, oldest first
+ *
+ * @param roomId - The room UUID
+ * @param afterId - Last event id the client has seen (0 for all)
+ * @returns Events with id > afterId (at most ROOM_EVENTS_PAGE_SIZE)
+ */
+export async function getRoomEventsSince(
+  roomId: string,
+  afterId: number
+): Promise<RoomEvent[]> {
+  const { data, error } = await supabase
+    .from('room_events')
+    .select('*')
+    .eq('room_id', roomId)
+    .gt('id', afterId)
+    .order('id', { ascending: true })
+    .limit(ROOM_EVENTS_PAGE_SIZE);
+
+  if (error) {
+    console.error('Get room events error:', error);
+    throw new Error(`Failed to fetch room events: ${error.message}`);
+  }
+
+  return data as unknown as RoomEvent[];
+}
+
+/**
+ * Gets a room's whole event log, oldest first
+ *
+ * @param roomId - The room UUID
+ * @returns Every event of the room
+ */
+export async function getRoomEventLog(roomId: string): Promise<RoomEvent[]> {
+  const events: RoomEvent[] = [];
+
+  for (;;) {
+    const lastId = events.length > 0 ? events[events.length - 1].id : 0;
+    const page = await getRoomEventsSince(roomId, lastId);
+    events.push(...page);
+
+    if (page.length < ROOM_EVENTS_PAGE_SIZE) return events;
+  }
+}
+
+/**
+ * Gets the id of a room's latest event
+ *
+ * @param roomId - The room UUID
+ * @returns The latest event id, or 0 if the room has no events yet
+ */
+export async function getLatestRoomEventId(roomId: string): Promise<number> {
+  const { data, error } = await supabase
+    .from('room_events')
+    .select('id')
+    .eq('room_id', roomId)
+    .order('id', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Get latest room event error:', error);
+    throw new Error(`Failed to fetch room events: ${error.message}`);
+  }
+
+  return (data as { id: number } | null)?.id ?? 0;
+}
+
+// ============================================================================
+// Combined Operations
+// ============================================================================
+
+/**
+ * Joins a room and gets or creates a ticket for the player
+ *
+ * This function:
+ * 1. Validates the room exists and the player isn't banned
+ * 2. Checks if player already has a ticket (a kicked player has none left
+ *    and is dealt a new one)
+ * 3. Rejects new players once the game has ended, and makes late arrivals
+ *    spectators when the host has closed joining
+ * 4. Creates a new ticket if needed (with uniqueness guarantee), after
+ *    checking the player's name is free in the room; the room's player
+ *    limit is enforced atomically by the tickets_enforce_capacity trigger
+ * 5. Returns the room, the player's tickets and their saved marks, plus
+ *    the player's secret token the first time they join
+ *
+ * @param roomIdOrCode - The room UUID or 6-character room code
+ * @param playerId - The player's guest ID (from localStorage)
+ * @param playerName - Optional player name
+ * @returns Room and ticket information
+ * @throws RoomRuleError if the room is not found, full or not joinable, or
+ *   the player is banned
  *
  * @example
  * const result = await joinRoomAndGetTicket('ABC123', guestId, 'Player 1');
@@ -332,28 +2332,76 @@ export async function joinRoomAndGetTicket(
   }
 
   if (!room) {
-    throw new Error('Room not found. Please check the room code.');
+    throw new RoomRuleError('Room not found. Please check the room code.', 404);
   }
 
-  // Step 2: Check if room is joinable
-  if (room.status === 'completed') {
-    throw new Error('This game has already ended. You cannot join.');
+  if (await isPlayerBanned(room.id, playerId)) {
+    throw new RoomRuleError('You have been banned from this room.', 403);
   }
 
-  // Step 3: Check if player already has a ticket
-  let ticket = await getPlayerTicket(room.id, playerId);
+  // Step 2: Check if player already has tickets
+  const tickets = await getPlayerTickets(room.id, playerId);
+  let ticket: LotoTicket | null = tickets[0] ?? null;
   let isNewTicket = false;
 
-  // Step 4: Create ticket if needed
+  // Step 3: Check if room is joinable (existing players may still view
+  // a completed game's summary)
+  if (room.status === 'completed' && !ticket) {
+    throw new RoomRuleError(
+      'This game has already ended. You cannot join.',
+      409
+    );
+  }
+
+  if (room.status === 'active' && !room.allow_late_join && !ticket) {
+    return {
+      room: toPublicRoom(room),
+      ticket: null,
+      tickets: [],
+      is_new_ticket: false,
+      is_spectator: true,
+      marks: [],
+      player_token: null
+    };
+  }
+
+  // Returning players get their saved marks back
+  const marks = ticket ? await getPlayerTicketMarks(room.id, playerId) : [];
+
+  // Step 4: Create ticket if needed (the name must be free in this room)
   if (!ticket) {
-    ticket = await createTicket(room.id, playerId, playerName);
+    if (
+      playerName &&
+      (await isPlayerNameTaken(room.id, playerName, playerId))
+    ) {
+      throw new RoomRuleError(
+        'That name is already taken in this room.',
+        409
+      );
+    }
+
+    ticket = await createTicket(room, playerId, playerName);
+    tickets.push(ticket);
     isNewTicket = true;
+
+    await publishRoomEvent(room.id, 'player_joined', {
+      player_id: ticket.player_id,
+      player_name: ticket.player_name,
+      ticket_id: ticket.id
+    });
   }
 
+  // Issued once per player; later joins get null
+  const playerToken = await issuePlayerToken(room.id, playerId);
+
   return {
-    room,
+    room: toPublicRoom(room),
     ticket,
-    is_new_ticket: isNewTicket
+    tickets,
+    is_new_ticket: isNewTicket,
+    is_spectator: false,
+    marks,
+    player_token: playerToken
   };
 }
 
@@ -33,9 +33,26 @@ export interface LotoTicket {
   player_name: string | null;
   ticket_data: TicketGrid;
   ticket_hash: string; // SHA-256 hash for uniqueness validation
+  strip_id: string | null; // Strip the ticket was dealt from (strip rooms)
+  strip_position: number | null; // 0-5 within the strip
+  seed: string | null; // PRNG seed the grid was generated from (strip seed for strip tickets)
+  invalidated_at: string | null; // Set when the host removes the player
   created_at: string; // ISO timestamp
 }
 
+/**
+ * Strip of 6 tickets covering every number 1-90 exactly once
+ * Tickets are handed out in order; `next_index` is the next one to give.
+ */
+export interface TicketStrip {
+  id: string;
+  room_id: string;
+  tickets: TicketGrid[];
+  next_index: number;
+  seed: string | null; // PRNG seed the strip was generated from
+  created_at: string;
+}
+
 /**
  * Input for creating a new ticket
  */
@@ -60,24 +77,126 @@ export interface CreateTicketInput {
 export type RoomStatus = 'waiting' | 'active' | 'completed';
 
 /**
- * Game room entity
+ * Game room entity (server-side; see PublicRoom for API responses)
  */
 export interface Room {
   id: string;
   room_code: string; // 6-character alphanumeric code (e.g., "ABC123")
   host_id: string; // Guest UUID stored in localStorage
+  host_token_hash: string | null; // SHA-256 of the secret host token
+  pin_hash: string | null; // HMAC of the join PIN (private rooms)
+  is_private: boolean; // Joining requires the PIN
   status: RoomStatus;
+  win_patterns: WinType[]; // Win types enabled for this room
+  prize_stages: PrizeStage[]; // Ordered prize ladder
+  current_stage: number; // Index into prize_stages (= length once all won)
+  final_winners: FinalWinner[]; // Snapshot of winners, set when the game ends
+  draw_commitment: string | null; // SHA-256 of the draw seed (commit-reveal rooms)
+  draw_seed: string | null; // Revealed when the game ends
+  auto_call_status: AutoCallStatus;
+  auto_call_interval: number; // Seconds between automatic calls
+  auto_call_next_at: string | null; // When the next automatic call is due
+  max_tickets_per_player: number; // 1-6 tickets per player
+  use_strips: boolean; // Deal tickets from strips of 6 covering 1-90
+  max_players: number | null; // Player limit (null = no limit)
+  allow_late_join: boolean; // New players may join once the game is active
   created_at: string; // ISO timestamp
   started_at: string | null; // ISO timestamp when game started
   ended_at: string | null; // ISO timestamp when game ended
 }
 
+/**
+ * Automatic caller state of a room
+ */
+export type AutoCallStatus = 'off' | 'running' | 'paused';
+
+/**
+ * Why the automatic caller changed
+ */
+export type AutoCallChangeReason = 'host' | 'tick' | 'claim' | 'finished';
+
+/**
+ * Snapshot of a room's automatic caller
+ */
+export interface AutoCallState {
+  status: AutoCallStatus;
+  interval: number; // Seconds
+  next_at: string | null; // ISO timestamp, set while running
+}
+
+/**
+ * Room as returned by the API - without host identity or secrets
+ */
+export type PublicRoom = Omit<
+  Room,
+  'host_id' | 'host_token_hash' | 'pin_hash'
+>;
+
+/**
+ * Room creation result
+ * The host token is only ever returned here; the server stores its hash.
+ */
+export interface CreateRoomResult {
+  room: PublicRoom;
+  host_token: string;
+}
+
+/**
+ * Outcome of a join PIN check
+ */
+export interface RoomPinCheck {
+  is_valid: boolean;
+  attempts_left: number; // Wrong PINs allowed before a lockout
+  locked_until: string | null; // Set while the guest is locked out
+}
+
 /**
  * Input for creating a new room
  */
 export interface CreateRoomInput {
   host_id: string;
   room_code?: string; // Optional: will be auto-generated if not provided
+  win_patterns?: WinType[]; // Optional: defaults to one row + full house
+  prize_stages?: PrizeStage[]; // Optional: one stage per win pattern
+  commit_reveal?: boolean; // Optional: draw from a committed seed (default false)
+  max_tickets_per_player?: number; // Optional: 1-6 (default 1)
+  use_strips?: boolean; // Optional: deal tickets from strips (default false)
+  pin?: string; // Optional: 4-8 digit join PIN (makes the room private)
+  max_players?: number | null; // Optional: 2-100 players (default no limit)
+  allow_late_join?: boolean; // Optional: default true
+}
+
+/**
+ * Room settings a host may change after creating the room
+ */
+export interface RoomSettingsInput {
+  max_players?: number | null;
+  allow_late_join?: boolean;
+}
+
+/**
+ * One prize in a room's ladder
+ *
+ * Stages are played in order on the same called numbers; each is won by
+ * a ticket matching its win type.
+ */
+export interface PrizeStage {
+  win_type: WinType;
+  label: string; // e.g. "Giải nhất - Một hàng"
+  prize?: string; // Optional prize description (e.g. "Lì xì 50k")
+}
+
+/**
+ * A confirmed winner, recorded on the room when the game ends
+ */
+export interface FinalWinner {
+  claim_id: string;
+  ticket_id: string;
+  player_id: string;
+  player_name: string | null;
+  stage_index: number;
+  win_type: WinType;
+  stage_label: string;
 }
 
 /**
@@ -106,6 +225,17 @@ export interface Player {
   joined_at: string; // ISO timestamp
 }
 
+/**
+ * Player as shown on the host's roster
+ */
+export interface RosterPlayer extends Player {
+  ticket_count: number;
+  last_seen_at: string | null; // Last presence heartbeat
+  is_online: boolean;
+  numbers_away: number | null; // Called numbers short of the current prize (best ticket); null when no prize is left
+  waiting_numbers: number[]; // Numbers that would complete a row or full house on one of the player's tickets
+}
+
 /**
  * Guest identity stored in localStorage
  */
@@ -127,6 +257,8 @@ export interface CalledNumber {
   number: number; // 1-90
   called_at: string; // ISO timestamp
   called_by: string; // Host's guest_id
+  voided_at: string | null; // Set when the host retracts the number
+  void_reason: string | null;
 }
 
 /**
@@ -144,8 +276,22 @@ export interface CallNumberInput {
 
 /**
  * Types of winning patterns in Loto
+ * - full_row: Any one row complete
+ * - two_rows: Any two rows complete
+ * - four_corners: First and last numbers of the top and bottom rows
+ * - outer_columns: Every number in the first and last columns
+ * - diagonal: Four corners plus the centre number of the middle row
+ * - full_house: All 15 numbers
+ *
+ * Detection rules live in the pattern registry (lib/loto/win-detection)
  */
-export type WinType = 'full_row' | 'full_house';
+export type WinType =
+  | 'full_row'
+  | 'two_rows'
+  | 'four_corners'
+  | 'outer_columns'
+  | 'diagonal'
+  | 'full_house';
 
 /**
  * Win detection result
@@ -157,6 +303,87 @@ export interface WinCondition {
   is_full_house?: boolean;
 }
 
+// ============================================================================
+// Win Claim Types
+// ============================================================================
+
+/**
+ * Win claim lifecycle
+ * - pending: Submitted by a player, waiting for the host
+ * - accepted: Confirmed by the host
+ * - rejected: Dismissed by the host
+ */
+export type ClaimStatus = 'pending' | 'accepted' | 'rejected';
+
+/**
+ * A player's "Kinh!" claim, verified server-side against called numbers
+ */
+export interface WinClaim {
+  id: string;
+  room_id: string;
+  ticket_id: string;
+  player_id: string;
+  player_name: string | null;
+  is_valid: boolean; // Server verdict at the time of the claim
+  win_type: WinType | null;
+  winning_rows: number[]; // Row indices (0, 1, 2)
+  called_count: number; // Numbers called when the claim was verified
+  stage_index: number; // Prize stage the claim was made for
+  status: ClaimStatus;
+  created_at: string; // ISO timestamp
+  resolved_at: string | null; // ISO timestamp when host resolved the claim
+}
+
+/**
+ * Win claim with its ticket (for host review)
+ */
+export interface WinClaimWithTicket extends WinClaim {
+  ticket: LotoTicket;
+}
+
+// ============================================================================
+// Room Event Types
+// ============================================================================
+
+/**
+ * Payload of each room event type
+ */
+export interface RoomEventPayloads {
+  number_called: { number: number; called_at: string };
+  number_voided: { number: number; reason: string | null; voided_at: string };
+  room_status_changed: { status: RoomStatus };
+  // Sent for every ticket dealt, extra tickets included
+  player_joined: {
+    player_id: string;
+    player_name: string | null;
+    ticket_id: string;
+  };
+  player_renamed: { player_id: string; player_name: string };
+  player_removed: { player_id: string; banned: boolean; reason: string | null };
+  claim_submitted: { claim: WinClaim };
+  claim_resolved: { claim: WinClaim };
+  stage_advanced: { current_stage: number };
+  auto_call_changed: AutoCallState & { reason: AutoCallChangeReason };
+}
+
+/**
+ * Room event types pushed to clients
+ */
+export type RoomEventType = keyof RoomEventPayloads;
+
+/**
+ * An entry in a room's event log (streamed over Server-Sent Events)
+ */
+export type RoomEvent = {
+  [T in RoomEventType]: {
+    id: number; // Monotonic, used as the SSE event id
+    room_id: string;
+    type: T;
+    payload: RoomEventPayloads[T];
+    created_at: string; // ISO timestamp
+  };
+}[RoomEventType];
+
 // ============================================================================
 // API Response Types
 // ============================================================================
@@ -196,7 +423,23 @@ export interface DbRoom {
   id: string;
   room_code: string;
   host_id: string;
+  host_token_hash: string | null;
+  pin_hash: string | null;
+  is_private: boolean;
   status: RoomStatus;
+  win_patterns: WinType[];
+  prize_stages: PrizeStage[];
+  current_stage: number;
+  final_winners: FinalWinner[];
+  draw_commitment: string | null;
+  draw_seed: string | null;
+  auto_call_status: AutoCallStatus;
+  auto_call_interval: number;
+  auto_call_next_at: string | null;
+  max_tickets_per_player: number;
+  use_strips: boolean;
+  max_players: number | null;
+  allow_late_join: boolean;
   created_at: string;
   started_at: string | null;
   ended_at: string | null;
@@ -212,6 +455,22 @@ export interface DbTicket {
   player_name: string | null;
   ticket_data: TicketGrid;
   ticket_hash: string;
+  strip_id: string | null;
+  strip_position: number | null;
+  seed: string | null;
+  invalidated_at: string | null;
+  created_at: string;
+}
+
+/**
+ * Database row for ticket_strips table
+ */
+export interface DbTicketStrip {
+  id: string;
+  room_id: string;
+  tickets: TicketGrid[];
+  next_index: number;
+  seed: string | null;
   created_at: string;
 }
 
@@ -224,6 +483,89 @@ export interface DbCalledNumber {
   number: number;
   called_at: string;
   called_by: string;
+  voided_at: string | null;
+  void_reason: string | null;
+}
+
+/**
+ * Database row for win_claims table
+ */
+export interface DbWinClaim {
+  id: string;
+  room_id: string;
+  ticket_id: string;
+  player_id: string;
+  player_name: string | null;
+  is_valid: boolean;
+  win_type: WinType | null;
+  winning_rows: number[];
+  called_count: number;
+  stage_index: number;
+  status: ClaimStatus;
+  created_at: string;
+  resolved_at: string | null;
+}
+
+/**
+ * Database row for room_bans table
+ */
+export interface DbRoomBan {
+  room_id: string;
+  player_id: string;
+  reason: string | null;
+  created_at: string;
+}
+
+/**
+ * Database row for join_attempts table
+ */
+export interface DbJoinAttempt {
+  room_id: string;
+  player_id: string;
+  failed_count: number;
+  locked_until: string | null;
+  last_attempt_at: string;
+}
+
+/**
+ * Database row for ticket_marks table
+ */
+export interface DbTicketMark {
+  ticket_id: string;
+  room_id: string;
+  player_id: string;
+  marked_numbers: number[];
+  updated_at: string;
+}
+
+/**
+ * Database row for player_tokens table
+ */
+export interface DbPlayerToken {
+  room_id: string;
+  player_id: string;
+  token_hash: string; // SHA-256 of the player's secret token
+  created_at: string;
+}
+
+/**
+ * Database row for player_presence table
+ */
+export interface DbPlayerPresence {
+  room_id: string;
+  player_id: string;
+  last_seen_at: string;
+}
+
+/**
+ * Database row for room_events table
+ */
+export interface DbRoomEvent {
+  id: number;
+  room_id: string;
+  type: RoomEventType;
+  payload: Record<string, unknown>;
+  created_at: string;
 }
 
 // ============================================================================
@@ -231,7 +573,7 @@ export interface DbCalledNumber {
 // ============================================================================
 
 /**
- * Ticket marking state (client-side only)
+ * Ticket marking state on the player page (see TicketMarks for the stored form)
  */
 export interface TicketMarkingState {
   ticket_id: string;
@@ -239,11 +581,49 @@ export interface TicketMarkingState {
   last_updated: string; // ISO timestamp
 }
 
+/**
+ * Numbers a player marked on a ticket, as saved locally and on the server
+ */
+export interface TicketMarks {
+  ticket_id: string;
+  marked_numbers: number[];
+  updated_at: string; // When the player last changed them
+}
+
 /**
  * Room join result
  */
 export interface JoinRoomResult {
-  room: Room;
-  ticket: LotoTicket;
+  room: PublicRoom;
+  ticket: LotoTicket | null; // The player's first ticket (null for spectators)
+  tickets: LotoTicket[]; // All of the player's tickets, oldest first
   is_new_ticket: boolean;
+  is_spectator: boolean; // Arrived after the host closed joining
+  marks: TicketMarks[]; // Saved marks of the player's tickets
+  player_token: string | null; // Secret issued on the player's first join
+}
+
+/**
+ * A number call as shown in a room's history (without the host's ID)
+ */
+export type HistoryCall = Omit<CalledNumber, 'called_by'>;
+
+/**
+ * Everything that happened in a finished game, for looking back at it
+ */
+export interface RoomHistory {
+  room: PublicRoom;
+  called_numbers: HistoryCall[]; // Every call in order, voided ones included
+  players: Player[]; // In join order
+  tickets: LotoTicket[]; // Oldest first (removed players' tickets left out)
+  claims: WinClaim[]; // Oldest first
+  winners: FinalWinner[];
+}
+
+/**
+ * Win claim submission result
+ */
+export interface SubmitClaimResult {
+  claim: WinClaim;
+  is_new_claim: boolean; // false when an identical pending claim already existed
 }
@@ -8,7 +8,16 @@
  * npx supabase gen types typescript --project-id YOUR_PROJECT_ID > src/types/supabase.ts
  */
 
-import type { RoomStatus, TicketGrid } from './loto';
+import type {
+  AutoCallStatus,
+  ClaimStatus,
+  FinalWinner,
+  PrizeStage,
+  RoomEventType,
+  RoomStatus,
+  TicketGrid,
+  WinType
+} from './loto';
 
 export interface Database {
   public: {
@@ -18,7 +27,23 @@ export interface Database {
           id: string;
           room_code: string;
           host_id: string;
+          host_token_hash: string | null;
+          pin_hash: string | null;
+          is_private: boolean;
           status: RoomStatus;
+          win_patterns: WinType[];
+          prize_stages: PrizeStage[];
+          current_stage: number;
+          final_winners: FinalWinner[];
+          draw_commitment: string | null;
+          draw_seed: string | null;
+          auto_call_status: AutoCallStatus;
+          auto_call_interval: number;
+          auto_call_next_at: string | null;
+          max_tickets_per_player: number;
+          use_strips: boolean;
+          max_players: number | null;
+          allow_late_join: boolean;
           created_at: string;
           started_at: string | null;
           ended_at: string | null;
@@ -27,7 +52,23 @@ export interface Database {
           id?: string;
           room_code: string;
           host_id: string;
+          host_token_hash?: string | null;
+          pin_hash?: string | null;
+          is_private?: boolean;
           status?: RoomStatus;
+          win_patterns?: WinType[];
+          prize_stages?: PrizeStage[];
+          current_stage?: number;
+          final_winners?: FinalWinner[];
+          draw_commitment?: string | null;
+          draw_seed?: string | null;
+          auto_call_status?: AutoCallStatus;
+          auto_call_interval?: number;
+          auto_call_next_at?: string | null;
+          max_tickets_per_player?: number;
+          use_strips?: boolean;
+          max_players?: number | null;
+          allow_late_join?: boolean;
           created_at?: string;
           started_at?: string | null;
           ended_at?: string | null;
@@ -36,7 +77,23 @@ export interface Database {
           id?: string;
           room_code?: string;
           host_id?: string;
+          host_token_hash?: string | null;
+          pin_hash?: string | null;
+          is_private?: boolean;
           status?: RoomStatus;
+          win_patterns?: WinType[];
+          prize_stages?: PrizeStage[];
+          current_stage?: number;
+          final_winners?: FinalWinner[];
+          draw_commitment?: string | null;
+          draw_seed?: string | null;
+          auto_call_status?: AutoCallStatus;
+          auto_call_interval?: number;
+          auto_call_next_at?: string | null;
+          max_tickets_per_player?: number;
+          use_strips?: boolean;
+          max_players?: number | null;
+          allow_late_join?: boolean;
           created_at?: string;
           started_at?: string | null;
           ended_at?: string | null;
@@ -50,6 +107,10 @@ export interface Database {
           player_name: string | null;
           ticket_data: TicketGrid;
           ticket_hash: string;
+          strip_id: string | null;
+          strip_position: number | null;
+          seed: string | null;
+          invalidated_at: string | null;
           created_at: string;
         };
         Insert: {
@@ -59,6 +120,10 @@ export interface Database {
           player_name?: string | null;
           ticket_data: TicketGrid;
           ticket_hash: string;
+          strip_id?: string | null;
+          strip_position?: number | null;
+          seed?: string | null;
+          invalidated_at?: string | null;
           created_at?: string;
         };
         Update: {
@@ -68,6 +133,36 @@ export interface Database {
           player_name?: string | null;
           ticket_data?: TicketGrid;
           ticket_hash?: string;
+          strip_id?: string | null;
+          strip_position?: number | null;
+          seed?: string | null;
+          invalidated_at?: string | null;
+          created_at?: string;
+        };
+      };
+      ticket_strips: {
+        Row: {
+          id: string;
+          room_id: string;
+          tickets: TicketGrid[];
+          next_index: number;
+          seed: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          room_id: string;
+          tickets: TicketGrid[];
+          next_index?: number;
+          seed?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          room_id?: string;
+          tickets?: TicketGrid[];
+          next_index?: number;
+          seed?: string | null;
           created_at?: string;
         };
       };
@@ -78,6 +173,8 @@ export interface Database {
           number: number;
           called_at: string;
           called_by: string;
+          voided_at: string | null;
+          void_reason: string | null;
         };
         Insert: {
           id?: string;
@@ -85,6 +182,8 @@ export interface Database {
           number: number;
           called_at?: string;
           called_by: string;
+          voided_at?: string | null;
+          void_reason?: string | null;
         };
         Update: {
           id?: string;
@@ -92,7 +191,194 @@ export interface Database {
           number?: number;
           called_at?: string;
           called_by?: string;
+          voided_at?: string | null;
+          void_reason?: string | null;
+        };
+      };
+      win_claims: {
+        Row: {
+          id: string;
+          room_id: string;
+          ticket_id: string;
+          player_id: string;
+          player_name: string | null;
+          is_valid: boolean;
+          win_type: WinType | null;
+          winning_rows: number[];
+          called_count: number;
+          stage_index: number;
+          status: ClaimStatus;
+          created_at: string;
+          resolved_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          room_id: string;
+          ticket_id: string;
+          player_id: string;
+          player_name?: string | null;
+          is_valid: boolean;
+          win_type?: WinType | null;
+          winning_rows?: number[];
+          called_count?: number;
+          stage_index?: number;
+          status?: ClaimStatus;
+          created_at?: string;
+          resolved_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          room_id?: string;
+          ticket_id?: string;
+          player_id?: string;
+          player_name?: string | null;
+          is_valid?: boolean;
+          win_type?: WinType | null;
+          winning_rows?: number[];
+          called_count?: number;
+          stage_index?: number;
+          status?: ClaimStatus;
+          created_at?: string;
+          resolved_at?: string | null;
+        };
+      };
+      room_bans: {
+        Row: {
+          room_id: string;
+          player_id: string;
+          reason: string | null;
+          created_at: string;
+        };
+        Insert: {
+          room_id: string;
+          player_id: string;
+          reason?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          room_id?: string;
+          player_id?: string;
+          reason?: string | null;
+          created_at?: string;
+        };
+      };
+      join_attempts: {
+        Row: {
+          room_id: string;
+          player_id: string;
+          failed_count: number;
+          locked_until: string | null;
+          last_attempt_at: string;
+        };
+        Insert: {
+          room_id: string;
+          player_id: string;
+          failed_count?: number;
+          locked_until?: string | null;
+          last_attempt_at?: string;
+        };
+        Update: {
+          room_id?: string;
+          player_id?: string;
+          failed_count?: number;
+          locked_until?: string | null;
+          last_attempt_at?: string;
+        };
+      };
+      ticket_marks: {
+        Row: {
+          ticket_id: string;
+          room_id: string;
+          player_id: string;
+          marked_numbers: number[];
+          updated_at: string;
+        };
+        Insert: {
+          ticket_id: string;
+          room_id: string;
+          player_id: string;
+          marked_numbers?: number[];
+          updated_at?: string;
+        };
+        Update: {
+          ticket_id?: string;
+          room_id?: string;
+          player_id?: string;
+          marked_numbers?: number[];
+          updated_at?: string;
+        };
+      };
+      player_tokens: {
+        Row: {
+          room_id: string;
+          player_id: string;
+          token_hash: string;
+          created_at: string;
+        };
+        Insert: {
+          room_id: string;
+          player_id: string;
+          token_hash: string;
+          created_at?: string;
+        };
+        Update: {
+          room_id?: string;
+          player_id?: string;
+          token_hash?: string;
+          created_at?: string;
+        };
+      };
+      player_presence: {
+        Row: {
+          room_id: string;
+          player_id: string;
+          last_seen_at: string;
+        };
+        Insert: {
+          room_id: string;
+          player_id: string;
+          last_seen_at?: string;
+        };
+        Update: {
+          room_id?: string;
+          player_id?: string;
+          last_seen_at?: string;
+        };
+      };
+      room_events: {
+        Row: {
+          id: number;
+          room_id: string;
+          type: RoomEventType;
+          payload: Record<string, unknown>;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          room_id: string;
+          type: RoomEventType;
+          payload?: Record<string, unknown>;
+          created_at?: string;
+        };
+        Update: {
+          id?: number;
+          room_id?: string;
+          type?: RoomEventType;
+          payload?: Record<string, unknown>;
+          created_at?: string;
+        };
+      };
+    };
+    Functions: {
+      record_join_attempt: {
+        Args: {
+          p_room_id: string;
+          p_player_id: string;
+          p_is_valid: boolean;
+          p_max_attempts: number;
+          p_lockout_seconds: number;
         };
+        Returns: Database['public']['Tables']['join_attempts']['Row'];
       };
     };
   };
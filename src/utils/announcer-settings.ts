@@ -0,0 +1,60 @@
+/**
+ * Announcer Settings
+ *
+ * Persists the voice announcer preferences (mute, volume, voice, rhymes)
+ * in localStorage so they survive reloads and apply to every room.
+ */
+
+import type { RhymeBank } from '@/lib/loto/rhyme-bank';
+
+const ANNOUNCER_SETTINGS_KEY = 'loto_announcer_settings';
+
+export interface AnnouncerSettings {
+  muted: boolean;
+  volume: number; // 0-1
+  voiceURI: string | null; // null = first Vietnamese voice available
+  withRhyme: boolean;
+  customRhymes: RhymeBank; // Overrides the default rhyme bank per number
+}
+
+export const DEFAULT_ANNOUNCER_SETTINGS: AnnouncerSettings = {
+  muted: false,
+  volume: 1,
+  voiceURI: null,
+  withRhyme: true,
+  customRhymes: {}
+};
+
+/**
+ * Loads the announcer settings
+ *
+ * @returns Saved settings merged over the defaults
+ */
+export function getAnnouncerSettings(): AnnouncerSettings {
+  if (typeof window === 'undefined') {
+    return DEFAULT_ANNOUNCER_SETTINGS;
+  }
+
+  try {
+    const saved = localStorage.getItem(ANNOUNCER_SETTINGS_KEY);
+    if (!saved) return DEFAULT_ANNOUNCER_SETTINGS;
+
+    return { ...DEFAULT_ANNOUNCER_SETTINGS, ...JSON.parse(saved) };
+  } catch (error) {
+    console.error('Failed to read announcer settings:', error);
+    return DEFAULT_ANNOUNCER_SETTINGS;
+  }
+}
+
+/**
+ * Saves the announcer settings
+ */
+export function saveAnnouncerSettings(settings: AnnouncerSettings): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.setItem(ANNOUNCER_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Failed to save announcer settings:', error);
+  }
+}
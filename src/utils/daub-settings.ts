@@ -0,0 +1,45 @@
+/**
+ * Daub Settings
+ *
+ * Remembers how the player marks their tickets, in localStorage so the
+ * choice follows the player to every room on this device.
+ */
+
+const DAUB_MODE_KEY = 'loto_daub_mode';
+
+/**
+ * How numbers get marked on a player's tickets
+ * - manual: the player taps each number (called numbers are hinted)
+ * - auto: called numbers are marked automatically
+ */
+export type DaubMode = 'manual' | 'auto';
+
+export const DEFAULT_DAUB_MODE: DaubMode = 'manual';
+
+/**
+ * Loads the player's daub mode
+ */
+export function getDaubMode(): DaubMode {
+  if (typeof window === 'undefined') return DEFAULT_DAUB_MODE;
+
+  try {
+    const saved = localStorage.getItem(DAUB_MODE_KEY);
+    return saved === 'auto' || saved === 'manual' ? saved : DEFAULT_DAUB_MODE;
+  } catch (error) {
+    console.error('Failed to read daub mode:', error);
+    return DEFAULT_DAUB_MODE;
+  }
+}
+
+/**
+ * Saves the player's daub mode
+ */
+export function saveDaubMode(mode: DaubMode): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.setItem(DAUB_MODE_KEY, mode);
+  } catch (error) {
+    console.error('Failed to save daub mode:', error);
+  }
+}
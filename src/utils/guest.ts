@@ -2,13 +2,15 @@
  * Guest Identity Management
  *
  * Handles creating and retrieving guest user IDs from localStorage.
- * Each browser gets a unique guest_id that persists across sessions.
+ * Each browser gets a unique guest_id that persists across sessions, along
+ * with the display name the player last joined with.
  */
 
 import type { GuestIdentity } from '@/types/loto';
 
 const GUEST_ID_KEY = 'loto_guest_id';
 const GUEST_CREATED_KEY = 'loto_guest_created';
+const GUEST_NAME_KEY = 'loto_guest_name';
 
 /**
  * Generates a UUID v4
@@ -100,6 +102,7 @@ export function clearGuestId(): void {
   try {
     localStorage.removeItem(GUEST_ID_KEY);
     localStorage.removeItem(GUEST_CREATED_KEY);
+    localStorage.removeItem(GUEST_NAME_KEY);
   } catch (error) {
     console.error('Failed to clear guest ID:', error);
   }
@@ -111,3 +114,37 @@ export function clearGuestId(): void {
 export function hasGuestId(): boolean {
   return getGuestId() !== null;
 }
+
+/**
+ * Gets the display name the player last used
+ *
+ * @returns The saved name or null if the player hasn't picked one
+ */
+export function getGuestName(): string | null {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+
+  try {
+    return localStorage.getItem(GUEST_NAME_KEY);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remembers the player's display name for the next room they join
+ *
+ * @param name - The display name
+ */
+export function saveGuestName(name: string): void {
+  if (typeof window === 'undefined') {
+    return;
+  }
+
+  try {
+    localStorage.setItem(GUEST_NAME_KEY, name);
+  } catch (error) {
+    console.error('Failed to save guest name:', error);
+  }
+}
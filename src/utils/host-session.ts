@@ -0,0 +1,75 @@
+/**
+ * Host Session Management
+ *
+ * Stores the secret host token returned when a room is created, so the host
+ * can keep controlling the room after a page reload. The token is sent to
+ * host-only API routes in the `x-host-token` header.
+ */
+
+/** Request header carrying the host token */
+export const HOST_TOKEN_HEADER = 'x-host-token';
+
+const HOST_TOKEN_KEY_PREFIX = 'loto_host_token_';
+
+/**
+ * Saves the host token for a room
+ *
+ * @param roomId - The room UUID
+ * @param token - The token returned by POST /api/rooms
+ */
+export function saveHostToken(roomId: string, token: string): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.setItem(HOST_TOKEN_KEY_PREFIX + roomId, token);
+  } catch (error) {
+    console.error('Failed to save host token:', error);
+  }
+}
+
+/**
+ * Gets the host token for a room
+ *
+ * @param roomId - The room UUID
+ * @returns The token, or null if this browser did not create the room
+ */
+export function getHostToken(roomId: string): string | null {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    return localStorage.getItem(HOST_TOKEN_KEY_PREFIX + roomId);
+  } catch (error) {
+    console.error('Failed to read host token:', error);
+    return null;
+  }
+}
+
+/**
+ * Removes the host token for a room
+ */
+export function clearHostToken(roomId: string): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.removeItem(HOST_TOKEN_KEY_PREFIX + roomId);
+  } catch (error) {
+    console.error('Failed to clear host token:', error);
+  }
+}
+
+/**
+ * Builds JSON request headers for a host-only API call
+ *
+ * @example
+ * await fetch(`/api/rooms/${roomId}/numbers`, {
+ *   method: 'POST',
+ *   headers: hostHeaders(roomId),
+ *   body: JSON.stringify({ number: 42 })
+ * });
+ */
+export function hostHeaders(roomId: string): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    [HOST_TOKEN_HEADER]: getHostToken(roomId) ?? ''
+  };
+}
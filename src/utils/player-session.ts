@@ -0,0 +1,62 @@
+/**
+ * Player Session Management
+ *
+ * Stores the secret player token returned the first time a player joins a
+ * room. The token is sent to routes acting for the player (renaming) in the
+ * `x-player-token` header.
+ */
+
+/** Request header carrying the player token */
+export const PLAYER_TOKEN_HEADER = 'x-player-token';
+
+const PLAYER_TOKEN_KEY_PREFIX = 'loto_player_token_';
+
+/**
+ * Saves the player token for a room
+ *
+ * @param roomId - The room UUID
+ * @param token - The token returned by POST /api/rooms/[id]/join
+ */
+export function savePlayerToken(roomId: string, token: string): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.setItem(PLAYER_TOKEN_KEY_PREFIX + roomId, token);
+  } catch (error) {
+    console.error('Failed to save player token:', error);
+  }
+}
+
+/**
+ * Gets the player token for a room
+ *
+ * @param roomId - The room UUID
+ * @returns The token, or null if this browser never joined the room
+ */
+export function getPlayerToken(roomId: string): string | null {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    return localStorage.getItem(PLAYER_TOKEN_KEY_PREFIX + roomId);
+  } catch (error) {
+    console.error('Failed to read player token:', error);
+    return null;
+  }
+}
+
+/**
+ * Builds JSON request headers for an API call acting for the player
+ *
+ * @example
+ * await fetch(`/api/rooms/${roomId}/players/${guestId}`, {
+ *   method: 'PATCH',
+ *   headers: playerHeaders(roomId),
+ *   body: JSON.stringify({ name })
+ * });
+ */
+export function playerHeaders(roomId: string): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    [PLAYER_TOKEN_HEADER]: getPlayerToken(roomId) ?? ''
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * Room PIN Storage
+ *
+ * Carries the PIN typed on the home page over to the room page, which sends
+ * it when joining. Kept in sessionStorage and cleared once the player holds
+ * a ticket, since returning players are not asked again.
+ */
+
+const ROOM_PIN_KEY_PREFIX = 'loto_room_pin_';
+
+/**
+ * Saves the PIN entered for a room
+ *
+ * @param roomId - The room UUID
+ * @param pin - The PIN the player typed
+ */
+export function saveRoomPin(roomId: string, pin: string): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    sessionStorage.setItem(ROOM_PIN_KEY_PREFIX + roomId, pin);
+  } catch (error) {
+    console.error('Failed to save room PIN:', error);
+  }
+}
+
+/**
+ * Gets the PIN entered for a room
+ *
+ * @param roomId - The room UUID
+ * @returns The PIN, or null if none was entered in this tab
+ */
+export function getRoomPin(roomId: string): string | null {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    return sessionStorage.getItem(ROOM_PIN_KEY_PREFIX + roomId);
+  } catch (error) {
+    console.error('Failed to read room PIN:', error);
+    return null;
+  }
+}
+
+/**
+ * Removes the PIN entered for a room
+ */
+export function clearRoomPin(roomId: string): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    sessionStorage.removeItem(ROOM_PIN_KEY_PREFIX + roomId);
+  } catch (error) {
+    console.error('Failed to clear room PIN:', error);
+  }
+}
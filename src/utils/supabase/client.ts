@@ -4,7 +4,7 @@
  * Initializes the Supabase client for browser-side usage.
  * This client is used for:
  * - Database queries (via RLS policies)
- * - Real-time subscriptions (future)
+ * - Real-time subscriptions (room events stream)
  * - Guest-based access (no auth required)
  */
 
@@ -0,0 +1,89 @@
+/**
+ * Ticket Marks Storage
+ *
+ * Keeps the numbers a player marked on each ticket in localStorage, so marks
+ * survive a refresh even while offline. Entries not yet saved on the server
+ * are flagged and synced by the player page when it can. Entries older than
+ * a day are dropped, as rooms expire after 24 hours.
+ */
+
+import type { TicketMarks } from '@/types/loto';
+
+const TICKET_MARKS_KEY = 'loto_ticket_marks';
+const TICKET_MARKS_MAX_AGE = 24 * 60 * 60 * 1000;
+
+/**
+ * A ticket's marks as stored on this device
+ */
+export interface LocalTicketMarks extends TicketMarks {
+  room_id: string;
+  player_id: string;
+  synced: boolean; // Saved on the server
+}
+
+/**
+ * Reads every stored entry, keyed by ticket ID
+ */
+function readTicketMarks(): Record<string, LocalTicketMarks> {
+  try {
+    const saved = localStorage.getItem(TICKET_MARKS_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (error) {
+    console.error('Failed to read ticket marks:', error);
+    return {};
+  }
+}
+
+/**
+ * Gets the marks stored for a ticket
+ *
+ * @param ticketId - The ticket UUID
+ * @returns The stored marks, or null if the ticket was never marked here
+ */
+export function getLocalTicketMarks(ticketId: string): LocalTicketMarks | null {
+  if (typeof window === 'undefined') return null;
+
+  return readTicketMarks()[ticketId] ?? null;
+}
+
+/**
+ * Gets a room's marks that have not been saved on the server yet
+ *
+ * @param roomId - The room UUID
+ */
+export function getUnsyncedTicketMarks(roomId: string): LocalTicketMarks[] {
+  if (typeof window === 'undefined') return [];
+
+  return Object.values(readTicketMarks()).filter(
+    (marks) => marks.room_id === roomId && !marks.synced
+  );
+}
+
+/**
+ * Stores a ticket's marks, replacing any previous entry
+ *
+ * @param marks - The marks and whether they are saved on the server
+ */
+export function saveLocalTicketMarks(marks: LocalTicketMarks): void {
+  if (typeof window === 'undefined') return;
+
+  const cutoff = Date.now() - TICKET_MARKS_MAX_AGE;
+  const entries = Object.values(readTicketMarks()).filter(
+    (entry) =>
+      entry.ticket_id !== marks.ticket_id &&
+      new Date(entry.updated_at).getTime() > cutoff
+  );
+
+  try {
+    localStorage.setItem(
+      TICKET_MARKS_KEY,
+      JSON.stringify(
+        Object.fromEntries(
+          [...entries, marks].map((entry) => [entry.ticket_id, entry])
+        )
+      )
+    );
+  } catch (error) {
+    console.error('Failed to save ticket marks:', error);
+  }
+}
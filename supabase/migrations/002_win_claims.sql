@@ -0,0 +1,65 @@
+-- ============================================================================
+-- Win Claims ("Kinh!")
+-- ============================================================================
+-- Players announce a win by submitting a claim for one of their tickets.
+-- The server re-runs win detection against the room's called numbers and
+-- stores the verdict, so the host can confirm or reject it.
+-- ============================================================================
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS win_claims (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  ticket_id UUID NOT NULL REFERENCES tickets(id) ON DELETE CASCADE,
+  player_id VARCHAR(255) NOT NULL,
+  player_name VARCHAR(255),
+  is_valid BOOLEAN NOT NULL,
+  win_type VARCHAR(20) CHECK (win_type IN ('full_row', 'full_house')),
+  winning_rows INTEGER[] NOT NULL DEFAULT '{}',
+  called_count INTEGER NOT NULL DEFAULT 0,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'rejected')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  resolved_at TIMESTAMP WITH TIME ZONE
+);
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+-- Claims by room (host claim list)
+CREATE INDEX IF NOT EXISTS idx_win_claims_room_id ON win_claims(room_id);
+CREATE INDEX IF NOT EXISTS idx_win_claims_room_status ON win_claims(room_id, status);
+
+-- Claims by ticket (duplicate claim check)
+CREATE INDEX IF NOT EXISTS idx_win_claims_ticket_id ON win_claims(ticket_id);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+ALTER TABLE win_claims ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can read claims (host claim list, player verdicts)
+CREATE POLICY "Win claims are publicly readable"
+  ON win_claims FOR SELECT
+  USING (true);
+
+-- Anyone can submit a claim
+-- Note: The verdict is computed by the application layer, never by the client
+CREATE POLICY "Anyone can submit a win claim"
+  ON win_claims FOR INSERT
+  WITH CHECK (true);
+
+-- Claims are resolved (accepted/rejected) by the host
+-- Note: Application should validate host_id matches room.host_id
+CREATE POLICY "Win claims can be resolved"
+  ON win_claims FOR UPDATE
+  USING (true);
+
+-- No deletes (claims are a permanent record)
+CREATE POLICY "Win claims cannot be deleted by users"
+  ON win_claims FOR DELETE
+  USING (false);
@@ -0,0 +1,28 @@
+-- ============================================================================
+-- Configurable Win Patterns
+-- ============================================================================
+-- Each room stores the win types it plays with (house rules such as
+-- "two lines" or "four corners"). Detection rules for each win type live in
+-- the application's pattern registry (src/lib/loto/win-detection.ts).
+-- ============================================================================
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+ALTER TABLE rooms
+  ADD COLUMN IF NOT EXISTS win_patterns TEXT[] NOT NULL DEFAULT '{full_row,full_house}';
+
+ALTER TABLE rooms
+  ADD CONSTRAINT rooms_win_patterns_check CHECK (
+    cardinality(win_patterns) > 0
+    AND win_patterns <@ ARRAY['full_row', 'two_rows', 'four_corners', 'outer_columns', 'diagonal', 'full_house']::TEXT[]
+  );
+
+-- Claims can now be verified against any registered win type
+ALTER TABLE win_claims DROP CONSTRAINT IF EXISTS win_claims_win_type_check;
+
+ALTER TABLE win_claims
+  ADD CONSTRAINT win_claims_win_type_check CHECK (
+    win_type IN ('full_row', 'two_rows', 'four_corners', 'outer_columns', 'diagonal', 'full_house')
+  );
@@ -0,0 +1,27 @@
+-- ============================================================================
+-- Multi-Stage Prize Rounds
+-- ============================================================================
+-- A room plays an ordered ladder of prizes on the same called numbers
+-- (e.g. "first line" then "full house"). The room tracks the stage being
+-- played; accepted claims record the winners of each stage.
+-- ============================================================================
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+ALTER TABLE rooms
+  ADD COLUMN IF NOT EXISTS prize_stages JSONB NOT NULL
+    DEFAULT '[{"win_type": "full_row", "label": "Một hàng"}, {"win_type": "full_house", "label": "Cả vé"}]',
+  ADD COLUMN IF NOT EXISTS current_stage INTEGER NOT NULL DEFAULT 0 CHECK (current_stage >= 0);
+
+-- Stage each claim was verified against
+ALTER TABLE win_claims
+  ADD COLUMN IF NOT EXISTS stage_index INTEGER NOT NULL DEFAULT 0;
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+-- Winners per stage
+CREATE INDEX IF NOT EXISTS idx_win_claims_room_stage ON win_claims(room_id, stage_index, status);
@@ -0,0 +1,65 @@
+-- ============================================================================
+-- Room Events (realtime push)
+-- ============================================================================
+-- Append-only log of things that happen in a room. The events route streams
+-- it to clients over Server-Sent Events; the BIGSERIAL id doubles as the SSE
+-- event id, so a reconnecting client resumes from the last id it saw.
+-- ============================================================================
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS room_events (
+  id BIGSERIAL PRIMARY KEY,
+  room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  type VARCHAR(40) NOT NULL CHECK (type IN (
+    'number_called',
+    'room_status_changed',
+    'player_joined',
+    'claim_submitted',
+    'claim_resolved',
+    'stage_advanced'
+  )),
+  payload JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+-- Resume from last event id
+CREATE INDEX IF NOT EXISTS idx_room_events_room_id ON room_events(room_id, id);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+ALTER TABLE room_events ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can read room events
+CREATE POLICY "Room events are publicly readable"
+  ON room_events FOR SELECT
+  USING (true);
+
+-- Events are written by the application layer
+CREATE POLICY "Anyone can publish room events"
+  ON room_events FOR INSERT
+  WITH CHECK (true);
+
+-- Append-only: no updates or deletes
+CREATE POLICY "Room events cannot be updated"
+  ON room_events FOR UPDATE
+  USING (false);
+
+CREATE POLICY "Room events cannot be deleted by users"
+  ON room_events FOR DELETE
+  USING (false);
+
+-- ============================================================================
+-- REALTIME
+-- ============================================================================
+
+-- Broadcast inserts to Supabase Realtime subscribers (the events route)
+ALTER PUBLICATION supabase_realtime ADD TABLE room_events;
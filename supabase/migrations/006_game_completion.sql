@@ -0,0 +1,14 @@
+-- ============================================================================
+-- Game Completion
+-- ============================================================================
+-- When the host ends a game, the room is marked completed (locking it against
+-- further calls, joins and claims) and the confirmed winners are recorded on
+-- the room as a permanent summary.
+-- ============================================================================
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+ALTER TABLE rooms
+  ADD COLUMN IF NOT EXISTS final_winners JSONB NOT NULL DEFAULT '[]';
@@ -0,0 +1,17 @@
+-- ============================================================================
+-- Host Authentication Tokens
+-- ============================================================================
+-- createRoom issues a random secret host token, returned to the host once.
+-- Only its SHA-256 hash is stored; host-only routes require the token in the
+-- `x-host-token` header instead of trusting a client-sent host_id.
+--
+-- Rooms created before this migration have no token hash and can no longer
+-- be controlled through host-only routes.
+-- ============================================================================
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+ALTER TABLE rooms
+  ADD COLUMN IF NOT EXISTS host_token_hash VARCHAR(64);
@@ -0,0 +1,29 @@
+-- ============================================================================
+-- Server-Side Draws with Commit-Reveal
+-- ============================================================================
+-- Numbers can be drawn on the server (POST /api/rooms/[id]/numbers/draw).
+--
+-- Commit-reveal rooms derive their whole draw order from a secret seed.
+-- `draw_commitment` (SHA-256 of the seed) is published when the room is
+-- created; `draw_seed` is revealed when the game ends so anyone can replay
+-- the draw order and check it against the called numbers.
+--
+-- The seed is derived on the server from LOTO_DRAW_SECRET and is never stored
+-- before the reveal, since rooms are publicly readable.
+-- ============================================================================
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+ALTER TABLE rooms
+  ADD COLUMN IF NOT EXISTS draw_commitment VARCHAR(64),
+  ADD COLUMN IF NOT EXISTS draw_seed VARCHAR(64);
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+-- A number can only be called once per room (guards concurrent draws)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_called_numbers_room_number
+  ON called_numbers(room_id, number);
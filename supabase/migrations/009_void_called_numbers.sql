@@ -0,0 +1,53 @@
+-- ============================================================================
+-- Voiding Called Numbers
+-- ============================================================================
+-- A host can retract the last number they called (e.g. a mis-tap). The row
+-- is kept for the audit trail and marked with `voided_at` / `void_reason`;
+-- every reader ignores voided rows. A voided number may be called again.
+-- ============================================================================
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+ALTER TABLE called_numbers
+  ADD COLUMN IF NOT EXISTS voided_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS void_reason VARCHAR(200);
+
+-- New event type for the player notice
+ALTER TABLE room_events DROP CONSTRAINT IF EXISTS room_events_type_check;
+
+ALTER TABLE room_events
+  ADD CONSTRAINT room_events_type_check CHECK (type IN (
+    'number_called',
+    'number_voided',
+    'room_status_changed',
+    'player_joined',
+    'claim_submitted',
+    'claim_resolved',
+    'stage_advanced'
+  ));
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+-- Only live calls must be unique, so a voided number can be called again
+DROP INDEX IF EXISTS idx_called_numbers_room_number;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_called_numbers_room_number
+  ON called_numbers(room_id, number)
+  WHERE voided_at IS NULL;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+-- Live rows may only be updated into the voided state (never un-voided)
+-- Note: Application should validate the host token before voiding
+DROP POLICY IF EXISTS "Called numbers cannot be updated" ON called_numbers;
+
+CREATE POLICY "Called numbers can only be voided"
+  ON called_numbers FOR UPDATE
+  USING (voided_at IS NULL)
+  WITH CHECK (voided_at IS NOT NULL);
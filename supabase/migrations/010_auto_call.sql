@@ -0,0 +1,35 @@
+-- ============================================================================
+-- Automatic Caller
+-- ============================================================================
+-- A room can call numbers by itself every `auto_call_interval` seconds.
+-- The schedule lives on the room (`auto_call_next_at`) rather than in the
+-- host's browser: whoever ticks first once it is due moves `next_at` forward
+-- with a compare-and-set update, so a number is drawn exactly once per slot
+-- and a closed host tab doesn't stall the game.
+-- ============================================================================
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+ALTER TABLE rooms
+  ADD COLUMN IF NOT EXISTS auto_call_status VARCHAR(10) NOT NULL DEFAULT 'off'
+    CHECK (auto_call_status IN ('off', 'running', 'paused')),
+  ADD COLUMN IF NOT EXISTS auto_call_interval INTEGER NOT NULL DEFAULT 5
+    CHECK (auto_call_interval BETWEEN 3 AND 20),
+  ADD COLUMN IF NOT EXISTS auto_call_next_at TIMESTAMP WITH TIME ZONE;
+
+-- New event type for schedule changes
+ALTER TABLE room_events DROP CONSTRAINT IF EXISTS room_events_type_check;
+
+ALTER TABLE room_events
+  ADD CONSTRAINT room_events_type_check CHECK (type IN (
+    'number_called',
+    'number_voided',
+    'room_status_changed',
+    'player_joined',
+    'claim_submitted',
+    'claim_resolved',
+    'stage_advanced',
+    'auto_call_changed'
+  ));
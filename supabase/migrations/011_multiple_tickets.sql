@@ -0,0 +1,56 @@
+-- ============================================================================
+-- Multiple Tickets per Player
+-- ============================================================================
+-- Players may hold several tickets in a room, up to the room's
+-- `max_tickets_per_player`. The limit is enforced by a trigger so two
+-- concurrent requests cannot both slip past it.
+-- ============================================================================
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+ALTER TABLE rooms
+  ADD COLUMN IF NOT EXISTS max_tickets_per_player INTEGER NOT NULL DEFAULT 1
+    CHECK (max_tickets_per_player BETWEEN 1 AND 6);
+
+-- ============================================================================
+-- FUNCTIONS & TRIGGERS
+-- ============================================================================
+
+-- Rejects a ticket once the player already holds the room's maximum
+CREATE OR REPLACE FUNCTION enforce_ticket_limit()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  max_tickets INTEGER;
+  held_tickets INTEGER;
+BEGIN
+  -- Serialize ticket inserts per player and room
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.room_id::text || ':' || NEW.player_id));
+
+  SELECT max_tickets_per_player INTO max_tickets
+  FROM rooms
+  WHERE id = NEW.room_id;
+
+  SELECT COUNT(*) INTO held_tickets
+  FROM tickets
+  WHERE room_id = NEW.room_id
+    AND player_id = NEW.player_id;
+
+  IF held_tickets >= COALESCE(max_tickets, 1) THEN
+    RAISE EXCEPTION 'ticket_limit_reached'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS tickets_enforce_limit ON tickets;
+
+CREATE TRIGGER tickets_enforce_limit
+  BEFORE INSERT ON tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_ticket_limit();
@@ -0,0 +1,63 @@
+-- ============================================================================
+-- Ticket Strips
+-- ============================================================================
+-- Rooms with `use_strips` hand out tickets from strips of 6 that cover every
+-- number 1-90 exactly once, like printed sheets. Each strip is generated
+-- whole and its tickets are given out in order; `next_index` is advanced
+-- with a compare-and-set so a ticket is never handed out twice.
+-- ============================================================================
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+ALTER TABLE rooms
+  ADD COLUMN IF NOT EXISTS use_strips BOOLEAN NOT NULL DEFAULT false;
+
+-- Ticket Strips Table
+CREATE TABLE IF NOT EXISTS ticket_strips (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  tickets JSONB NOT NULL, -- The 6 ticket grids
+  next_index INTEGER NOT NULL DEFAULT 0 CHECK (next_index BETWEEN 0 AND 6),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE tickets
+  ADD COLUMN IF NOT EXISTS strip_id UUID REFERENCES ticket_strips(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS strip_position INTEGER CHECK (strip_position BETWEEN 0 AND 5);
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+-- Strips that still have tickets to hand out
+CREATE INDEX IF NOT EXISTS idx_ticket_strips_room_open
+  ON ticket_strips(room_id, created_at)
+  WHERE next_index < 6;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+ALTER TABLE ticket_strips ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can read strips (tickets are publicly readable too)
+CREATE POLICY "Ticket strips are publicly readable"
+  ON ticket_strips FOR SELECT
+  USING (true);
+
+-- Strips are created while handing out tickets (guest join)
+CREATE POLICY "Anyone can create a ticket strip"
+  ON ticket_strips FOR INSERT
+  WITH CHECK (true);
+
+-- Only the hand-out position moves
+-- Note: The application advances next_index with a compare-and-set
+CREATE POLICY "Ticket strips can be advanced"
+  ON ticket_strips FOR UPDATE
+  USING (true);
+
+CREATE POLICY "Ticket strips cannot be deleted by users"
+  ON ticket_strips FOR DELETE
+  USING (false);
@@ -0,0 +1,18 @@
+-- ============================================================================
+-- Ticket Seeds
+-- ============================================================================
+-- Tickets are generated from a seeded PRNG. The seed is stored so anyone can
+-- regenerate a ticket and check it matches. Strip tickets store their strip's
+-- seed and are picked out of the regenerated strip by `strip_position`.
+-- Rows created before this migration have no seed.
+-- ============================================================================
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+ALTER TABLE tickets
+  ADD COLUMN IF NOT EXISTS seed VARCHAR(64);
+
+ALTER TABLE ticket_strips
+  ADD COLUMN IF NOT EXISTS seed VARCHAR(64);
@@ -0,0 +1,44 @@
+-- ============================================================================
+-- Player Display Names
+-- ============================================================================
+-- Players pick a display name when they join and may rename before the game
+-- starts. Names are validated by the application (length, language and
+-- uniqueness within the room). Renaming updates `player_name` on all of the
+-- player's tickets, so that column - and only that column - becomes
+-- updatable.
+-- ============================================================================
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+-- New event type for renames
+ALTER TABLE room_events DROP CONSTRAINT IF EXISTS room_events_type_check;
+
+ALTER TABLE room_events
+  ADD CONSTRAINT room_events_type_check CHECK (type IN (
+    'number_called',
+    'number_voided',
+    'room_status_changed',
+    'player_joined',
+    'player_renamed',
+    'claim_submitted',
+    'claim_resolved',
+    'stage_advanced',
+    'auto_call_changed'
+  ));
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+-- Tickets stay immutable apart from the player's display name
+-- Note: Application should validate the name and room status before renaming
+DROP POLICY IF EXISTS "Tickets cannot be updated" ON tickets;
+
+CREATE POLICY "Ticket player names can be updated"
+  ON tickets FOR UPDATE
+  USING (true);
+
+REVOKE UPDATE ON tickets FROM anon, authenticated;
+GRANT UPDATE (player_name) ON tickets TO anon, authenticated;
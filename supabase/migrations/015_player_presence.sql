@@ -0,0 +1,42 @@
+-- ============================================================================
+-- Player Presence
+-- ============================================================================
+-- Each open player page sends a heartbeat every ~20 seconds. The host's
+-- roster shows a player as online while their last heartbeat is recent.
+-- ============================================================================
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+-- Player Presence Table (one row per player per room)
+CREATE TABLE IF NOT EXISTS player_presence (
+  room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  player_id VARCHAR(255) NOT NULL,
+  last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (room_id, player_id)
+);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+ALTER TABLE player_presence ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can read presence (shown on the host's roster)
+CREATE POLICY "Player presence is publicly readable"
+  ON player_presence FOR SELECT
+  USING (true);
+
+-- Heartbeats upsert the row
+CREATE POLICY "Anyone can report presence"
+  ON player_presence FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Presence can be refreshed"
+  ON player_presence FOR UPDATE
+  USING (true);
+
+CREATE POLICY "Player presence cannot be deleted by users"
+  ON player_presence FOR DELETE
+  USING (false);
@@ -0,0 +1,105 @@
+-- ============================================================================
+-- Kicking and Banning Players
+-- ============================================================================
+-- The host can remove a player. Their tickets are invalidated
+-- (`invalidated_at`): kept for the record but ignored by the roster, the
+-- ticket limit and win verification. A kicked player may join again with a
+-- new ticket; a banned player (`room_bans`) is turned away for good.
+-- ============================================================================
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+ALTER TABLE tickets
+  ADD COLUMN IF NOT EXISTS invalidated_at TIMESTAMP WITH TIME ZONE;
+
+-- Room Bans Table
+CREATE TABLE IF NOT EXISTS room_bans (
+  room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  player_id VARCHAR(255) NOT NULL,
+  reason VARCHAR(200),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (room_id, player_id)
+);
+
+-- New event type for the removed player's page
+ALTER TABLE room_events DROP CONSTRAINT IF EXISTS room_events_type_check;
+
+ALTER TABLE room_events
+  ADD CONSTRAINT room_events_type_check CHECK (type IN (
+    'number_called',
+    'number_voided',
+    'room_status_changed',
+    'player_joined',
+    'player_renamed',
+    'player_removed',
+    'claim_submitted',
+    'claim_resolved',
+    'stage_advanced',
+    'auto_call_changed'
+  ));
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+-- Tickets may now also be invalidated
+-- Note: Application should validate the host token before invalidating
+REVOKE UPDATE ON tickets FROM anon, authenticated;
+GRANT UPDATE (player_name, invalidated_at) ON tickets TO anon, authenticated;
+
+ALTER TABLE room_bans ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can read bans (joins are checked against them)
+CREATE POLICY "Room bans are publicly readable"
+  ON room_bans FOR SELECT
+  USING (true);
+
+-- Note: Application should validate the host token before banning
+CREATE POLICY "Anyone can ban a player"
+  ON room_bans FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Room bans cannot be updated"
+  ON room_bans FOR UPDATE
+  USING (false);
+
+CREATE POLICY "Room bans cannot be deleted by users"
+  ON room_bans FOR DELETE
+  USING (false);
+
+-- ============================================================================
+-- FUNCTIONS & TRIGGERS
+-- ============================================================================
+
+-- Invalidated tickets no longer count towards the ticket limit
+CREATE OR REPLACE FUNCTION enforce_ticket_limit()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  max_tickets INTEGER;
+  held_tickets INTEGER;
+BEGIN
+  -- Serialize ticket inserts per player and room
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.room_id::text || ':' || NEW.player_id));
+
+  SELECT max_tickets_per_player INTO max_tickets
+  FROM rooms
+  WHERE id = NEW.room_id;
+
+  SELECT COUNT(*) INTO held_tickets
+  FROM tickets
+  WHERE room_id = NEW.room_id
+    AND player_id = NEW.player_id
+    AND invalidated_at IS NULL;
+
+  IF held_tickets >= COALESCE(max_tickets, 1) THEN
+    RAISE EXCEPTION 'ticket_limit_reached'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,50 @@
+-- ============================================================================
+-- Private Rooms (join PIN)
+-- ============================================================================
+-- A host may protect a room with a 4-8 digit PIN. Only an HMAC of the PIN
+-- (keyed with the server-only LOTO_PIN_SECRET) is stored, since rooms are
+-- publicly readable; `is_private` tells clients to ask for it. Wrong PINs
+-- are counted per guest ID and lock the guest out for a while after too many
+-- attempts. Players who already hold a ticket are not asked again.
+-- ============================================================================
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+ALTER TABLE rooms
+  ADD COLUMN IF NOT EXISTS pin_hash VARCHAR(64),
+  ADD COLUMN IF NOT EXISTS is_private BOOLEAN NOT NULL DEFAULT false;
+
+-- Join Attempts Table (one row per guest per private room)
+CREATE TABLE IF NOT EXISTS join_attempts (
+  room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  player_id VARCHAR(255) NOT NULL,
+  failed_count INTEGER NOT NULL DEFAULT 0 CHECK (failed_count >= 0),
+  locked_until TIMESTAMP WITH TIME ZONE,
+  last_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (room_id, player_id)
+);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+ALTER TABLE join_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Join attempts are publicly readable"
+  ON join_attempts FOR SELECT
+  USING (true);
+
+-- The join route records attempts (upsert)
+CREATE POLICY "Anyone can record join attempts"
+  ON join_attempts FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Join attempts can be updated"
+  ON join_attempts FOR UPDATE
+  USING (true);
+
+CREATE POLICY "Join attempts cannot be deleted by users"
+  ON join_attempts FOR DELETE
+  USING (false);
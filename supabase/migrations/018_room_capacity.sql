@@ -0,0 +1,73 @@
+-- ============================================================================
+-- Room Capacity and Late Joins
+-- ============================================================================
+-- `max_players` caps how many players hold tickets in a room (NULL means no
+-- limit). Like the ticket limit it is enforced by a trigger, so concurrent
+-- joins cannot overfill the room. `allow_late_join` lets the host turn late
+-- arrivals into spectators once the game is active.
+-- ============================================================================
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+ALTER TABLE rooms
+  ADD COLUMN IF NOT EXISTS max_players INTEGER
+    CHECK (max_players BETWEEN 2 AND 100),
+  ADD COLUMN IF NOT EXISTS allow_late_join BOOLEAN NOT NULL DEFAULT true;
+
+-- ============================================================================
+-- FUNCTIONS & TRIGGERS
+-- ============================================================================
+
+-- Rejects a new player's first ticket once the room is full
+CREATE OR REPLACE FUNCTION enforce_room_capacity()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  capacity INTEGER;
+  player_count INTEGER;
+BEGIN
+  SELECT max_players INTO capacity
+  FROM rooms
+  WHERE id = NEW.room_id;
+
+  IF capacity IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Serialize joins per room (taken before the per-player ticket lock)
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.room_id::text));
+
+  -- Extra tickets for players already in the room don't take a seat
+  IF EXISTS (
+    SELECT 1 FROM tickets
+    WHERE room_id = NEW.room_id
+      AND player_id = NEW.player_id
+      AND invalidated_at IS NULL
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COUNT(DISTINCT player_id) INTO player_count
+  FROM tickets
+  WHERE room_id = NEW.room_id
+    AND invalidated_at IS NULL;
+
+  IF player_count >= capacity THEN
+    RAISE EXCEPTION 'room_full'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Triggers fire in name order: capacity runs before tickets_enforce_limit
+DROP TRIGGER IF EXISTS tickets_enforce_capacity ON tickets;
+
+CREATE TRIGGER tickets_enforce_capacity
+  BEFORE INSERT ON tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_room_capacity();
@@ -0,0 +1,78 @@
+-- ============================================================================
+-- Ticket Marks
+-- ============================================================================
+-- Numbers a player marked on each ticket, so a refresh or a reload after the
+-- phone's lock screen doesn't lose them. The player page keeps marks in
+-- localStorage first and syncs them here; `updated_at` is when the player
+-- last changed them, and an older write never replaces a newer one.
+-- ============================================================================
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+-- Ticket Marks Table (one row per ticket)
+CREATE TABLE IF NOT EXISTS ticket_marks (
+  ticket_id UUID PRIMARY KEY REFERENCES tickets(id) ON DELETE CASCADE,
+  room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  player_id VARCHAR(255) NOT NULL,
+  marked_numbers INTEGER[] NOT NULL DEFAULT '{}',
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+-- Restoring a player's marks on rejoin
+CREATE INDEX IF NOT EXISTS idx_ticket_marks_room_player
+  ON ticket_marks(room_id, player_id);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+ALTER TABLE ticket_marks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Ticket marks are publicly readable"
+  ON ticket_marks FOR SELECT
+  USING (true);
+
+-- The marks route saves marks (upsert)
+CREATE POLICY "Anyone can save ticket marks"
+  ON ticket_marks FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Ticket marks can be updated"
+  ON ticket_marks FOR UPDATE
+  USING (true);
+
+CREATE POLICY "Ticket marks cannot be deleted by users"
+  ON ticket_marks FOR DELETE
+  USING (false);
+
+-- ============================================================================
+-- FUNCTIONS & TRIGGERS
+-- ============================================================================
+
+-- Marks synced late (e.g. queued while offline) must not overwrite newer ones
+CREATE OR REPLACE FUNCTION keep_newest_ticket_marks()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Skipping the row leaves the stored marks untouched
+  IF NEW.updated_at < OLD.updated_at THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS ticket_marks_keep_newest ON ticket_marks;
+
+CREATE TRIGGER ticket_marks_keep_newest
+  BEFORE UPDATE ON ticket_marks
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_newest_ticket_marks();
@@ -0,0 +1,18 @@
+-- ============================================================================
+-- Strip Ticket Slots
+-- ============================================================================
+-- A strip ticket is now taken by inserting it, not by advancing the strip
+-- first: if the insert fails (ticket limit, full room) the ticket stays in
+-- the strip for the next player, so strips never end up with gaps.
+-- `next_index` is advanced after the insert and only points at the next
+-- ticket to try.
+-- ============================================================================
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+-- Each strip ticket is dealt once; a second insert fails with 23505
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tickets_strip_slot
+  ON tickets(strip_id, strip_position)
+  WHERE strip_id IS NOT NULL;
@@ -0,0 +1,61 @@
+-- ============================================================================
+-- Unique Player Names
+-- ============================================================================
+-- Display names are unique per room among live (not invalidated) tickets,
+-- ignoring case. A player may hold several tickets under one name, which a
+-- plain unique index cannot express, so a trigger enforces it. It takes a
+-- lock per room and name, so two players choosing the same name at once
+-- cannot both get it. A clash fails with unique_violation (23505).
+-- ============================================================================
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+-- Name lookups of the trigger below
+CREATE INDEX IF NOT EXISTS idx_tickets_room_player_name
+  ON tickets(room_id, lower(player_name))
+  WHERE invalidated_at IS NULL;
+
+-- ============================================================================
+-- FUNCTIONS & TRIGGERS
+-- ============================================================================
+
+-- Rejects a name another player in the room already uses
+CREATE OR REPLACE FUNCTION enforce_unique_player_name()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.player_name IS NULL OR NEW.invalidated_at IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Serialize writes of the same name per room (taken after the room and
+  -- per-player ticket locks)
+  PERFORM pg_advisory_xact_lock(
+    hashtext(NEW.room_id::text || ':name:' || lower(NEW.player_name))
+  );
+
+  IF EXISTS (
+    SELECT 1 FROM tickets
+    WHERE room_id = NEW.room_id
+      AND player_id <> NEW.player_id
+      AND invalidated_at IS NULL
+      AND lower(player_name) = lower(NEW.player_name)
+  ) THEN
+    RAISE EXCEPTION 'player_name_taken'
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Triggers fire in name order: this one runs after tickets_enforce_limit
+DROP TRIGGER IF EXISTS tickets_enforce_unique_name ON tickets;
+
+CREATE TRIGGER tickets_enforce_unique_name
+  BEFORE INSERT OR UPDATE OF player_name ON tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_unique_player_name();
@@ -0,0 +1,49 @@
+-- ============================================================================
+-- Player Tokens
+-- ============================================================================
+-- A player's first join to a room issues a random secret player token,
+-- returned to the player once. Only its SHA-256 hash is stored. Guest IDs
+-- show up in public room data, so routes acting for a player (renaming)
+-- require the token in the `x-player-token` header instead of trusting a
+-- player ID in the URL.
+--
+-- Players who joined before this migration are issued a token the next time
+-- they join.
+-- ============================================================================
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+-- Player Tokens Table (one row per player per room)
+CREATE TABLE IF NOT EXISTS player_tokens (
+  room_id UUID NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  player_id VARCHAR(255) NOT NULL,
+  token_hash VARCHAR(64) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (room_id, player_id)
+);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY (RLS) POLICIES
+-- ============================================================================
+
+ALTER TABLE player_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Only hashes are stored, like rooms.host_token_hash
+CREATE POLICY "Player token hashes are publicly readable"
+  ON player_tokens FOR SELECT
+  USING (true);
+
+-- The join route issues each player's token once
+CREATE POLICY "Anyone can issue a player token"
+  ON player_tokens FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Player tokens cannot be updated"
+  ON player_tokens FOR UPDATE
+  USING (false);
+
+CREATE POLICY "Player tokens cannot be deleted by users"
+  ON player_tokens FOR DELETE
+  USING (false);
@@ -0,0 +1,69 @@
+-- ============================================================================
+-- Atomic Join Attempts
+-- ============================================================================
+-- Wrong join PINs used to be counted by reading the guest's row, adding one
+-- in the app and writing it back, so concurrent wrong PINs could overwrite
+-- each other's count and slip past the lockout. record_join_attempt checks
+-- the lockout and records the attempt in one transaction, with the guest's
+-- row locked, so every attempt is counted.
+-- ============================================================================
+
+-- ============================================================================
+-- FUNCTIONS & TRIGGERS
+-- ============================================================================
+
+-- Records a checked PIN and returns the guest's updated row. While the guest
+-- is locked out nothing changes (the returned locked_until is still ahead).
+-- A correct PIN clears the count; a lockout that has run out starts a fresh
+-- one.
+CREATE OR REPLACE FUNCTION record_join_attempt(
+  p_room_id UUID,
+  p_player_id VARCHAR,
+  p_is_valid BOOLEAN,
+  p_max_attempts INTEGER,
+  p_lockout_seconds INTEGER
+)
+RETURNS join_attempts
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  attempt join_attempts%ROWTYPE;
+  next_count INTEGER;
+BEGIN
+  INSERT INTO join_attempts (room_id, player_id)
+  VALUES (p_room_id, p_player_id)
+  ON CONFLICT (room_id, player_id) DO NOTHING;
+
+  -- Concurrent attempts by the same guest wait here
+  SELECT * INTO attempt
+  FROM join_attempts
+  WHERE room_id = p_room_id
+    AND player_id = p_player_id
+  FOR UPDATE;
+
+  IF attempt.locked_until > NOW() THEN
+    RETURN attempt;
+  END IF;
+
+  IF p_is_valid THEN
+    next_count := 0;
+  ELSIF attempt.locked_until IS NOT NULL THEN
+    next_count := 1;
+  ELSE
+    next_count := attempt.failed_count + 1;
+  END IF;
+
+  UPDATE join_attempts
+  SET failed_count = next_count,
+      locked_until = CASE
+        WHEN next_count >= p_max_attempts
+          THEN NOW() + make_interval(secs => p_lockout_seconds)
+      END,
+      last_attempt_at = NOW()
+  WHERE room_id = p_room_id
+    AND player_id = p_player_id
+  RETURNING * INTO attempt;
+
+  RETURN attempt;
+END;
+$$;